@@ -1,141 +1,525 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useReducer } from 'react';
 import {
+  SerialDevice,
+  SerialSettings,
+  RememberedSerialPort,
+  DEFAULT_SERIAL_OPTIONS,
   isWebSerialSupported,
   requestSerialPort,
-  disconnectSerialPort,
-  getSerialPortInfo,
+  connectSerialPort,
+  createSerialTransport,
   setSerialLogCallback,
+  getGrantedSerialPorts,
+  getSerialPortInfo,
+  isRememberedSerialPort,
+  watchSerialPortConnect,
+  loadRememberedSerialPort,
+  rememberSerialPort,
+  setRememberedHunting,
+  forgetSerialPort,
 } from './lib/web-serial';
 import {
-  NfcDevice,
-  NfcVersionInfo,
+  isWebUsbSupported,
+  requestUsbDevice,
+  createUsbTransport,
+  getUsbDeviceInfo,
+} from './lib/web-usb';
+import {
+  SimulatedTransport,
+  SIMULATED_READER_NAME,
+  createSimulatedTransport,
+} from './lib/simulated-reader';
+import { NfcTransport } from './lib/transport';
+import {
+  NfcCommandResult,
   cardHunt,
   sendCustomCommand,
   getFirmwareVersion,
   endTagCommunication,
   toHex,
   buildHuntCommand,
+  COM_TYPE,
 } from './lib/nfc-device';
-
-interface LogEntry {
-  id: number;
-  timestamp: Date;
-  type: 'info' | 'success' | 'error' | 'command' | 'response' | 'tx' | 'rx';
-  message: string;
-}
+import { StatusCodeInfo } from './lib/status-codes';
+import { DissectorField, dissectFrame } from './lib/dissector';
+import { COMMAND_PRIORITY, CommandOptions } from './lib/command-queue';
+import { sendCardApdu, supportsIsoDep } from './lib/apdu';
+import { maskCardDataInText, maskCardFrame } from './lib/card-data-mask';
+import { isMifareClassic } from './lib/mifare';
+import { ndefTagType, readNdef } from './lib/ndef-tag';
+import MifarePanel from './components/MifarePanel';
+import NdefPanel from './components/NdefPanel';
+import EmvPanel from './components/EmvPanel';
+import FrameComposer from './components/FrameComposer';
+import HuntSettingsPanel from './components/HuntSettingsPanel';
+import EmbedOriginsPanel from './components/EmbedOriginsPanel';
+import SerialSettingsDialog from './components/SerialSettingsDialog';
+import { downloadFile } from './lib/download';
+import CardHistoryPanel from './components/CardHistoryPanel';
+import { CardHistory, openCardHistory } from './lib/card-history';
+import { HuntSettings, huntSettingsErrors, loadHuntSettings, saveHuntSettings } from './lib/hunt-settings';
+import {
+  ReaderShare,
+  SharedCommand,
+  SharedCommandResult,
+  TabRole,
+  createReaderShare,
+  loadEmbedOrigins,
+  saveEmbedOrigins,
+} from './lib/reader-share';
+import { IdentificationConfidence, identifyCard } from './lib/card-identify';
+import {
+  LogEntry,
+  SessionFormat,
+  describeSessionHeader,
+  exportSession,
+  importSession,
+  sessionFileName,
+} from './lib/session-log';
+import {
+  TrafficRecorder,
+  createReplaySerialDevice,
+  parseTrafficFixture,
+  recordSerialTraffic,
+} from './lib/traffic';
+import {
+  ReaderEvent,
+  ReaderEventKind,
+  ReaderHuntOptions,
+  ReaderManager,
+  ReaderState,
+  createReaderManager,
+} from './lib/reader-manager';
 
 function App() {
-  const [device, setDevice] = useState<NfcDevice | null>(null);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [customCommand, setCustomCommand] = useState<string>('');
-  const [isHunting, setIsHunting] = useState<boolean>(false);
-  const [lastUid, setLastUid] = useState<string>('');
-  const [lastAtqa, setLastAtqa] = useState<string>('');
-  const [lastSak, setLastSak] = useState<string>('');
-  const [cardStatus, setCardStatus] = useState<string>('');
-  const [firmwareInfo, setFirmwareInfo] = useState<NfcVersionInfo | null>(null);
-  const huntingRef = useRef<boolean>(false);
-
-  const addLog = useCallback((type: LogEntry['type'], message: string) => {
+  const [commandMode, setCommandMode] = useState<'frame' | 'apdu'>('frame');
+  const [composedFrame, setComposedFrame] = useState<Uint8Array | null>(null);
+  const [huntSettings, setHuntSettings] = useState<HuntSettings>(loadHuntSettings);
+  const [readers, setReaders] = useState<ReaderState[]>([]);
+  const [feed, setFeed] = useState<ReaderEvent[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  // Reader label whose lines the log shows, '' for all
+  const [logFilter, setLogFilter] = useState<string>('');
+  // The virtual card lives in the simulator: re-render after changing it
+  const [, refreshSimulator] = useReducer((n: number) => n + 1, 0);
+  const [recordTraffic, setRecordTraffic] = useState<boolean>(false);
+  const [recorder, setRecorder] = useState<TrafficRecorder | null>(null);
+  const [serialSettings, setSerialSettings] = useState<SerialSettings>(() => ({
+    options: loadRememberedSerialPort()?.options ?? DEFAULT_SERIAL_OPTIONS,
+    autoDetect: false,
+  }));
+  const [showSerialSettings, setShowSerialSettings] = useState<boolean>(false);
+  const [tabRole, setTabRole] = useState<TabRole | null>(null);
+  // Events of the readers owned by another tab
+  const [remoteFeed, setRemoteFeed] = useState<ReaderEvent[]>([]);
+  const [embedOrigins, setEmbedOrigins] = useState<string[]>(loadEmbedOrigins);
+  const [cardHistory, setCardHistory] = useState<CardHistory | null>(null);
+  const [historyRevision, setHistoryRevision] = useState<number>(0);
+  // The hunt loop closure outlives renders, so it reads the history through a ref
+  const cardHistoryRef = useRef<CardHistory | null>(null);
+  // Label of the selected reader, for log lines of user actions
+  const activeLabelRef = useRef<string | undefined>(undefined);
+  const shareRef = useRef<ReaderShare | null>(null);
+
+  const appendLog = useCallback((type: LogEntry['type'], message: string, frame?: Uint8Array, reader?: string) => {
+    // Card answers shown as hex (APDU data, raw responses) can carry a PAN
     setLogs(prev => [...prev, {
       id: Date.now() + Math.random(),
       timestamp: new Date(),
       type,
-      message,
+      message: maskCardDataInText(message),
+      frame: frame && maskCardFrame(frame),
+      reader,
     }]);
   }, []);
 
+  // Log a line for the selected reader
+  const addLog = useCallback((type: LogEntry['type'], message: string, frame?: Uint8Array) => {
+    appendLog(type, message, frame, activeLabelRef.current);
+  }, [appendLog]);
+
+  const [manager] = useState<ReaderManager>(() => createReaderManager({
+    onLog: (reader, type, message) => appendLog(type, message, undefined, reader),
+  }));
+
+  useEffect(() => {
+    let published = 0;
+    return manager.subscribe(() => {
+      setReaders(manager.list());
+      const events = manager.feed();
+      setFeed(events);
+      // Forward new events to the other tabs and the embedding page
+      events.filter(event => event.id > published).forEach(event => shareRef.current?.publish(event));
+      published = events.length > 0 ? events[events.length - 1].id : published;
+    });
+  }, [manager]);
+
+  // Commands sent by the other tabs. Rebound each render so it sees the current readers.
+  const runSharedCommandRef = useRef<(command: SharedCommand) => Promise<SharedCommandResult>>(
+    async () => ({ success: false, message: 'No reader connected' })
+  );
+
+  useEffect(() => {
+    const share = createReaderShare({
+      onRole: setTabRole,
+      onEvent: event => setRemoteFeed(prev => [...prev, event].slice(-REMOTE_FEED_LIMIT)),
+      onFeed: events => setRemoteFeed(events.slice(-REMOTE_FEED_LIMIT)),
+      feed: () => manager.feed(),
+      onCommand: command => runSharedCommandRef.current(command),
+    });
+    shareRef.current = share;
+    return () => {
+      shareRef.current = null;
+      share.close();
+    };
+  }, [manager]);
+
+  useEffect(() => {
+    shareRef.current?.setEmbedOrigins(embedOrigins);
+  }, [embedOrigins]);
+
+  const active = readers.find(r => r.id === activeId) ?? readers[0] ?? null;
+  activeLabelRef.current = active?.label;
+  const device = active?.device ?? null;
+  const isHunting = active?.hunting ?? false;
+  const huntErrors = huntSettingsErrors(huntSettings);
+  // Newest first
+  const feedItems = [
+    ...feed.map(event => ({ event, remote: false })),
+    ...remoteFeed.map(event => ({ event, remote: true })),
+  ].sort((a, b) => b.event.timestamp.getTime() - a.event.timestamp.getTime());
+  // A follower without a reader of its own sends commands to the owner tab
+  const canSendCommand = device !== null || tabRole === 'follower';
+  const lastUid = active?.card?.hexData ?? '';
+  const lastAtqa = active?.card?.atqa ?? '';
+  const lastSak = active?.card?.sak ?? '';
+  const lastIsoB = active?.card?.isoB ?? null;
+  const lastAts = active?.card?.ats ?? null;
+  const cardStatus = active?.cardStatus ?? '';
+  const ndef = active?.ndef ?? null;
+  const firmwareInfo = active?.firmware ?? null;
+  const simulator = device?.type === 'simulated' ? device.transport as SimulatedTransport : null;
+  const virtualCard = simulator?.cardInField?.label ?? '';
+
+  // Decoded reader status, with the catalogue hint for errors
+  const logStatus = useCallback((status?: StatusCodeInfo) => {
+    if (!status) return;
+    const code = `0x${status.code.toString(16).padStart(2, '0').toUpperCase()}`;
+    addLog('response', status.known ? `Status ${code} ${status.name}: ${status.description}` : `Status ${code}: unknown code`);
+    if (status.hint) {
+      addLog('info', `Hint: ${status.hint}`);
+    }
+  }, [addLog]);
+
   const clearLogs = useCallback(() => {
     setLogs([]);
   }, []);
 
+  const importInput = useRef<HTMLInputElement>(null);
+  const replayInput = useRef<HTMLInputElement>(null);
+
+  const handleExport = (format: SessionFormat) => {
+    const header = {
+      exportedAt: new Date().toISOString(),
+      firmware: firmwareInfo ?? undefined,
+      port: active ? { kind: active.device.type, name: active.label } : undefined,
+    };
+    const type = format === 'json' ? 'application/json' : format === 'csv' ? 'text/csv' : 'text/plain';
+    downloadFile(sessionFileName(header, format), exportSession({ header, entries: logs }, format), type);
+  };
+
+  // Replace the log with a previously exported JSON session
+  const handleImport = async (file: File) => {
+    try {
+      const session = importSession(await file.text());
+      setLogs(session.entries);
+      addLog('info', `Imported ${session.entries.length} entries from ${file.name}: ${describeSessionHeader(session.header)}`);
+    } catch (error) {
+      addLog('error', `Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  useEffect(() => {
+    let history: CardHistory | null = null;
+    let closed = false;
+    openCardHistory()
+      .then(opened => {
+        if (closed) {
+          opened.close();
+          return;
+        }
+        history = opened;
+        cardHistoryRef.current = opened;
+        setCardHistory(opened);
+      })
+      .catch(error => addLog('info', `Card history disabled: ${error instanceof Error ? error.message : String(error)}`));
+    return () => {
+      closed = true;
+      history?.close();
+      cardHistoryRef.current = null;
+    };
+  }, [addLog]);
+
+  // Keep every detected card in the persistent history
+  const rememberCard = useCallback(async (card: NfcCommandResult) => {
+    const history = cardHistoryRef.current;
+    if (!history) return;
+    try {
+      await history.recordRead(card);
+      setHistoryRevision(r => r + 1);
+    } catch (error) {
+      addLog('error', `Card history: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [addLog]);
+
   // Set up serial logging callback
   useEffect(() => {
-    setSerialLogCallback((direction, data) => {
+    setSerialLogCallback((direction, data, frame, source) => {
       const type = direction === 'TX' ? 'tx' : direction === 'RX' ? 'rx' : 'info';
-      addLog(type, data);
+      // Copy: transports may reuse their buffers
+      appendLog(type, data, frame && frame.slice(), manager.bySource(source)?.label);
     });
 
     return () => {
       setSerialLogCallback(null);
     };
-  }, [addLog]);
+  }, [appendLog, manager]);
+
+  // Add a reader and select it. The manager stops its hunt and closes it when unplugged.
+  const attachTransport = (transport: NfcTransport): ReaderState => {
+    const reader = manager.add(transport);
+    transport.on('disconnect', () => {
+      appendLog('error', `Reader unplugged: ${reader.label}`, undefined, reader.label);
+      if (transport.kind === 'serial' && loadRememberedSerialPort()) {
+        appendLog('info', 'Waiting for the reader to be plugged back in', undefined, reader.label);
+      }
+    });
+    setActiveId(reader.id);
+    appendLog('success', `Connected: ${reader.label}`, undefined, reader.label);
+    return reader;
+  };
+
+  // Attach an opened serial port and remember it for automatic reconnection
+  const attachSerialDevice = (serialDevice: SerialDevice, hunting: boolean = false): ReaderState => {
+    // A new connection replaces the previous recording
+    setRecorder(recordTraffic ? recordSerialTraffic(serialDevice) : null);
+    if (recordTraffic) {
+      addLog('info', 'Recording serial traffic');
+    }
+    rememberSerialPort(serialDevice.port, hunting, serialDevice.options);
+    const name = manager.uniqueLabel(getSerialPortInfo(serialDevice.port));
+    return attachTransport(createSerialTransport(serialDevice, name));
+  };
 
-  // Connect via Web Serial
-  const handleConnect = async () => {
+  // Read the NDEF message of a freshly detected Type 2 / Type 4 tag
+  const loadNdef = async (reader: ReaderState, options: CommandOptions) => {
+    const card = reader.device.selectedCard;
+    if (!card || !ndefTagType(card)) {
+      manager.update(reader.id, { ndef: null });
+      return;
+    }
+    const result = await readNdef(reader.device, options);
+    if (options.signal?.aborted) return;
+    manager.update(reader.id, { ndef: result });
+    appendLog(result.success ? 'response' : 'info', `NDEF: ${result.info}`, undefined, reader.label);
+  };
+
+  // Continuous hunt settings; each new card is kept in the history and its NDEF read
+  const huntOptions = (): ReaderHuntOptions => {
+    // FORGET is left to the watcher's presence checks
+    const { pollInterval, forget, ...hunt } = huntSettings;
+    return {
+      ...hunt,
+      minInterval: pollInterval,
+      onCard: async (reader, card, signal) => {
+        rememberCard(card);
+        await loadNdef(reader, { priority: COMMAND_PRIORITY.BACKGROUND, signal });
+      },
+    };
+  };
+
+  // Connect via Web Serial with the settings chosen in the dialog
+  const handleConnect = async (settings: SerialSettings) => {
+    setShowSerialSettings(false);
+    setSerialSettings(settings);
     if (!isWebSerialSupported()) {
       addLog('error', 'Web Serial API is not supported. Please use Chrome or Edge.');
       return;
     }
 
     addLog('info', 'Requesting serial port...');
-    const result = await requestSerialPort();
+    const result = await requestSerialPort(settings);
 
     if (result.success && result.device) {
-      const name = getSerialPortInfo(result.device.port);
-      const nfcDevice: NfcDevice = {
-        type: 'serial',
-        name,
-        serialDevice: result.device,
-      };
-      setDevice(nfcDevice);
-      addLog('success', `Connected: ${name}`);
+      attachSerialDevice(result.device);
     } else {
       addLog('error', result.error || 'Failed to connect');
     }
   };
 
-  const handleDisconnect = async () => {
-    if (device) {
-      huntingRef.current = false;
-      setIsHunting(false);
+  // Open a previously granted port without the chooser and resume the hunt
+  // if it was running. Rebound each render so it sees the current state.
+  const reopenSerialPortRef = useRef<(port: SerialPort, remembered: RememberedSerialPort) => Promise<void>>(async () => {});
+  reopenSerialPortRef.current = async (port, remembered) => {
+    // Already open for one of the readers
+    if (port.readable) return;
+    const result = await connectSerialPort(port, remembered.options);
+    if (!result.success || !result.device) {
+      addLog('error', result.error || 'Failed to reconnect');
+      return;
+    }
+    const reader = attachSerialDevice(result.device, remembered.hunting);
+    if (remembered.hunting) {
+      manager.startHunt(reader.id, huntOptions());
+    }
+  };
+
+  // Only the tab owning the readers opens ports; a follower taking over reopens them
+  useEffect(() => {
+    if (tabRole !== 'owner') return;
+    let cancelled = false;
+    const remembered = loadRememberedSerialPort();
+    if (remembered) {
+      getGrantedSerialPorts()
+        .then(async ports => {
+          // Identical readers share a VID/PID: reopen every match
+          for (const port of ports.filter(p => isRememberedSerialPort(p, remembered))) {
+            if (cancelled) return;
+            addLog('info', `Reopening ${getSerialPortInfo(port)}`);
+            await reopenSerialPortRef.current(port, remembered);
+          }
+        })
+        .catch(error => addLog('error', `Failed to list serial ports: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    const unwatch = watchSerialPortConnect(port => {
+      const wanted = loadRememberedSerialPort();
+      if (!wanted || !isRememberedSerialPort(port, wanted)) return;
+      addLog('info', `${getSerialPortInfo(port)} plugged back in, reconnecting`);
+      reopenSerialPortRef.current(port, wanted);
+    });
+    return () => {
+      cancelled = true;
+      unwatch();
+    };
+  }, [addLog, tabRole]);
+
+  const handleSaveRecording = () => {
+    if (!recorder) return;
+    const fixture = recorder.snapshot();
+    downloadFile(
+      `nfc-traffic-${fixture.recordedAt.replace(/[:.]/g, '-')}.json`,
+      JSON.stringify(fixture, null, 2),
+      'application/json'
+    );
+    addLog('info', `Saved ${fixture.events.length} recorded events`);
+  };
+
+  // Connect to a serial device that replays a recorded fixture
+  const handleReplay = async (file: File) => {
+    try {
+      const fixture = parseTrafficFixture(await file.text());
+      addLog('info', `Replaying ${file.name} (${fixture.events.length} events recorded ${fixture.recordedAt})`);
+      const replay = createReplaySerialDevice(fixture);
+      attachTransport(createSerialTransport(replay, manager.uniqueLabel(getSerialPortInfo(replay.port))));
+    } catch (error) {
+      addLog('error', `Replay failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Connect via WebUSB (CDC bulk endpoints)
+  const handleConnectUsb = async () => {
+    if (!isWebUsbSupported()) {
+      addLog('error', 'WebUSB is not supported. Please use Chrome or Edge.');
+      return;
+    }
+
+    addLog('info', 'Requesting USB device...');
+    const result = await requestUsbDevice();
+
+    if (result.success && result.device) {
+      attachTransport(createUsbTransport(result.device, manager.uniqueLabel(getUsbDeviceInfo(result.device.device))));
+    } else {
+      addLog('error', result.error || 'Failed to connect');
+    }
+  };
+
+  // Connect to the in-process RDR-518 emulator
+  const handleConnectSimulated = async () => {
+    const transport = createSimulatedTransport({ name: manager.uniqueLabel(SIMULATED_READER_NAME) });
+    await transport.open();
+    attachTransport(transport);
+  };
+
+  const handleVirtualCardChange = (label: string) => {
+    if (!simulator) return;
+    const card = simulator.cards.find(c => c.label === label) || null;
+    simulator.presentCard(card);
+    refreshSimulator();
+  };
 
-      if (device.serialDevice) {
-        await disconnectSerialPort(device.serialDevice);
+  const handleDisconnect = async () => {
+    if (active) {
+      // Disconnecting on purpose: do not reopen the port on the next load
+      if (active.device.type === 'serial' && !readers.some(r => r !== active && r.device.type === 'serial')) {
+        forgetSerialPort();
       }
 
-      setDevice(null);
-      setLastUid('');
-      setLastAtqa('');
-      setLastSak('');
-      setFirmwareInfo(null);
-      addLog('info', 'Disconnected from device');
+      await manager.remove(active.id);
+      appendLog('info', `Disconnected from ${active.label}`, undefined, active.label);
+    }
+  };
+
+  // Only valid settings are kept for the next visit
+  const handleHuntSettings = (settings: HuntSettings) => {
+    setHuntSettings(settings);
+    if (huntSettingsErrors(settings).length === 0) {
+      saveHuntSettings(settings);
     }
   };
 
   const handleCardHunt = async () => {
-    if (!device) {
+    if (!active || !device) {
       addLog('error', 'No device connected');
       return;
     }
 
+    if (huntErrors.length > 0) {
+      addLog('error', `Invalid hunt settings: ${huntErrors.join(', ')}`);
+      return;
+    }
+
     // Show the command being sent
-    const command = buildHuntCommand();
+    const command = buildHuntCommand(huntSettings);
     addLog('command', `Card Hunt: ${toHex(command)}`);
 
-    const result = await cardHunt(device);
+    const result = await cardHunt(device, { ...huntSettings, priority: COMMAND_PRIORITY.USER });
 
     if (result.success) {
       addLog('success', result.message);
       if (result.hexData) {
-        setLastUid(result.hexData);
-        setLastAtqa(result.atqa || '');
-        setLastSak(result.sak || '');
-        setCardStatus('');
+        manager.setCard(active.id, result);
         addLog('response', `UID: ${result.hexData}`);
         if (result.atqa) addLog('response', `ATQA: ${result.atqa}`);
         if (result.sak) addLog('response', `SAK: ${result.sak}`);
+        if (result.ats) addLog('response', `ATS: ${result.ats.raw}`);
+        if (result.isoB) {
+          addLog('response', `ATQB: App data ${result.isoB.applicationData}, Protocol info ${result.isoB.protocolInfo.raw}`);
+          if (result.isoB.attrib) addLog('response', `ATTRIB: ${result.isoB.attrib.raw}`);
+        }
         if (result.comType !== undefined) {
           addLog('response', `COM Type: 0x${result.comType.toString(16).padStart(2, '0')}`);
         }
+        rememberCard(result);
+        await loadNdef(active, { priority: COMMAND_PRIORITY.USER });
       }
     } else {
       addLog('info', result.message);
+      logStatus(result.status);
       // Clear card info and show status when no card found
-      setLastUid('');
-      setLastAtqa('');
-      setLastSak('');
-      setCardStatus(result.message);
+      manager.clearCard(active.id, result.message);
       if (result.hexData) {
         addLog('response', `Raw: ${result.hexData}`);
       }
@@ -143,21 +527,46 @@ function App() {
   };
 
   const handleCustomCommand = async () => {
+    if (!device && tabRole === 'follower') {
+      await handleRemoteCommand();
+      return;
+    }
     if (!device) {
       addLog('error', 'No device connected');
       return;
     }
 
-    addLog('command', `Sending: ${customCommand}`);
+    if (commandMode === 'apdu') {
+      addLog('command', `APDU: ${customCommand}`);
+      const result = await sendCardApdu(device, customCommand, { priority: COMMAND_PRIORITY.USER });
+      if (result.sw) {
+        addLog(result.success ? 'success' : 'error', result.message);
+        if (result.hexData) {
+          addLog('response', `Data: ${result.hexData}`);
+        }
+        addLog('response', `SW1 SW2: ${result.sw.slice(0, 2)} ${result.sw.slice(2)}`);
+      } else {
+        addLog('error', result.message);
+      }
+      return;
+    }
+
+    if (!composedFrame) {
+      addLog('error', 'Frame is not valid');
+      return;
+    }
+    const frameHex = toHex(composedFrame);
+    addLog('command', `Sending: ${frameHex}`);
 
     try {
-      const result = await sendCustomCommand(device, customCommand);
+      const result = await sendCustomCommand(device, frameHex, { priority: COMMAND_PRIORITY.USER });
 
       if (result.success) {
         addLog('success', result.message);
         if (result.hexData) {
           addLog('response', `Response: ${result.hexData}`);
         }
+        logStatus(result.status);
       } else {
         addLog('error', result.message);
       }
@@ -166,69 +575,74 @@ function App() {
     }
   };
 
+  // Without a reader of its own, a follower tab runs commands on the owner's reader
+  const handleRemoteCommand = async () => {
+    const share = shareRef.current;
+    if (!share) return;
+    const command: SharedCommand = commandMode === 'apdu'
+      ? { kind: 'apdu', hex: customCommand }
+      : { kind: 'frame', hex: composedFrame ? toHex(composedFrame) : '' };
+    if (!command.hex.trim()) {
+      addLog('error', commandMode === 'apdu' ? 'Enter an APDU' : 'Frame is not valid');
+      return;
+    }
+    addLog('command', `Sending to the reader tab: ${command.hex}`);
+    const result = await share.request(command);
+    const from = result.reader ? ` (${result.reader})` : '';
+    addLog(result.success ? 'success' : 'error', `${result.message}${from}`);
+    if (result.hexData) addLog('response', `Response: ${result.hexData}`);
+    if (result.sw) addLog('response', `SW1 SW2: ${result.sw.slice(0, 2)} ${result.sw.slice(2)}`);
+  };
+
+  runSharedCommandRef.current = async (command) => {
+    const reader = (command.reader ? readers.find(r => r.label === command.reader) : active) ?? null;
+    if (!reader) {
+      return { success: false, message: command.reader ? `No reader named ${command.reader}` : 'No reader connected' };
+    }
+    appendLog('info', `Running ${command.kind === 'apdu' ? 'APDU' : 'frame'} from another tab: ${command.hex}`, undefined, reader.label);
+    const options = { priority: COMMAND_PRIORITY.USER };
+    if (command.kind === 'apdu') {
+      const result = await sendCardApdu(reader.device, command.hex, options);
+      return { success: result.success, message: result.message, hexData: result.hexData, sw: result.sw, reader: reader.label };
+    }
+    const result = await sendCustomCommand(reader.device, command.hex, options);
+    return { success: result.success, message: result.message, hexData: result.hexData, reader: reader.label };
+  };
+
+  const handleEmbedOrigins = (origins: string[]) => {
+    setEmbedOrigins(origins);
+    saveEmbedOrigins(origins);
+  };
+
   const toggleHunting = async () => {
-    if (!device) {
+    if (!active) {
       addLog('error', 'No device connected');
       return;
     }
 
     if (isHunting) {
-      huntingRef.current = false;
-      setIsHunting(false);
+      manager.stopHunt(active.id);
+      setRememberedHunting(false);
       addLog('info', 'Stopped continuous card hunt');
+    } else if (huntErrors.length > 0) {
+      addLog('error', `Invalid hunt settings: ${huntErrors.join(', ')}`);
     } else {
-      huntingRef.current = true;
-      setIsHunting(true);
-      addLog('info', 'Started continuous card hunt');
-
-      let lastDetectedUid = '';
-
-      const huntLoop = async () => {
-        while (huntingRef.current && device) {
-          try {
-            const result = await cardHunt(device);
-            if (result.success && result.hexData) {
-              if (result.hexData !== lastDetectedUid) {
-                lastDetectedUid = result.hexData;
-                setLastUid(result.hexData);
-                setLastAtqa(result.atqa || '');
-                setLastSak(result.sak || '');
-                setCardStatus('');
-                addLog('success', `Card detected! UID: ${result.hexData}`);
-              }
-            } else {
-              // Clear display when card is removed
-              if (lastDetectedUid !== '') {
-                lastDetectedUid = '';
-                setLastUid('');
-                setLastAtqa('');
-                setLastSak('');
-                setCardStatus(result.message);
-              }
-            }
-          } catch {
-            // Ignore hunt errors
-          }
-
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-      };
-
-      huntLoop();
+      setRememberedHunting(true);
+      manager.startHunt(active.id, huntOptions());
     }
   };
 
   const handleGetFirmware = async () => {
-    if (!device) {
+    if (!active || !device) {
       addLog('error', 'No device connected');
       return;
     }
 
     addLog('command', 'Getting firmware version...');
-    const result = await getFirmwareVersion(device);
+    const result = await getFirmwareVersion(device, { priority: COMMAND_PRIORITY.USER });
 
     if (result.success && result.version) {
-      setFirmwareInfo(result.version);
+      manager.update(active.id, { firmware: result.version });
       addLog('success', result.message);
       addLog('response', `Raw: ${result.version.raw}`);
       if (result.hexData) {
@@ -243,23 +657,22 @@ function App() {
   };
 
   const handleEndTag = async (disconnect: boolean) => {
-    if (!device) {
+    if (!active || !device) {
       addLog('error', 'No device connected');
       return;
     }
 
     addLog('command', `End tag communication (disconnect=${disconnect})...`);
-    const result = await endTagCommunication(device, disconnect);
+    const result = await endTagCommunication(device, disconnect, { priority: COMMAND_PRIORITY.USER });
 
     if (result.success) {
       addLog('success', result.message);
       if (disconnect) {
-        setLastUid('');
-        setLastAtqa('');
-        setLastSak('');
+        manager.clearCard(active.id);
       }
     } else {
       addLog('error', result.message);
+      logStatus(result.status);
     }
     if (result.hexData) {
       addLog('response', `Raw: ${result.hexData}`);
@@ -267,6 +680,24 @@ function App() {
   };
 
   const serialSupported = isWebSerialSupported();
+  const usbSupported = isWebUsbSupported();
+
+  const identity = lastUid
+    ? identifyCard({
+      hexData: lastUid,
+      atqa: lastAtqa || undefined,
+      sak: lastSak || undefined,
+      ats: lastAts ?? undefined,
+      isoB: lastIsoB ?? undefined,
+    })
+    : null;
+
+  // Readers that wrote to the log, including disconnected ones
+  const logReaders = Array.from(new Set([
+    ...readers.map(r => r.label),
+    ...logs.flatMap(log => (log.reader ? [log.reader] : [])),
+  ]));
+  const visibleLogs = logFilter ? logs.filter(log => log.reader === logFilter) : logs;
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 p-4">
@@ -278,11 +709,11 @@ function App() {
           </p>
         </header>
 
-        {!serialSupported && (
+        {!serialSupported && !usbSupported && (
           <div className="bg-red-900/50 border border-red-500 rounded-lg p-4 mb-6">
             <h2 className="text-red-400 font-semibold mb-2">Not Supported</h2>
             <p className="text-gray-300">
-              Your browser does not support Web Serial. Please use Chrome or Edge.
+              Your browser supports neither Web Serial nor WebUSB. Please use Chrome or Edge.
             </p>
           </div>
         )}
@@ -290,36 +721,134 @@ function App() {
         {/* Connection Section */}
         <section className="bg-gray-800 rounded-lg p-6 mb-6">
           <h2 className="text-xl font-semibold mb-4 text-blue-300">Device Connection</h2>
-          <div className="flex flex-wrap items-center gap-4">
-            {!device ? (
-              <button
-                onClick={handleConnect}
-                disabled={!serialSupported}
-                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-6 py-2 rounded-lg font-medium transition-colors"
-              >
-                Connect
-              </button>
-            ) : (
-              <>
-                <div className="flex items-center gap-2">
-                  <span className="w-3 h-3 bg-green-500 rounded-full animate-pulse"></span>
-                  <span className="text-green-400 font-medium">{device.name}</span>
-                </div>
-                <button
-                  onClick={handleGetFirmware}
-                  className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg font-medium transition-colors"
-                >
-                  Get Firmware
-                </button>
+          {readers.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4" role="tablist">
+              {readers.map(reader => (
                 <button
-                  onClick={handleDisconnect}
-                  className="bg-red-600 hover:bg-red-700 px-6 py-2 rounded-lg font-medium transition-colors"
+                  key={reader.id}
+                  role="tab"
+                  aria-selected={reader === active}
+                  onClick={() => setActiveId(reader.id)}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                    reader === active ? 'bg-gray-700 text-white' : 'text-gray-400 hover:bg-gray-700/50'
+                  }`}
                 >
-                  Disconnect
+                  <span className={`w-2 h-2 rounded-full bg-green-500 ${reader.hunting ? 'animate-pulse' : ''}`}></span>
+                  {reader.label}
+                  {reader.card && <span className="font-mono text-green-400">{reader.card.hexData}</span>}
                 </button>
-              </>
-            )}
+              ))}
+            </div>
+          )}
+          {active && (
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 bg-green-500 rounded-full animate-pulse"></span>
+                <span className="text-green-400 font-medium">{active.label}</span>
+              </div>
+              <button
+                onClick={handleGetFirmware}
+                className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg font-medium transition-colors"
+              >
+                Get Firmware
+              </button>
+              <button
+                onClick={handleDisconnect}
+                className="bg-red-600 hover:bg-red-700 px-6 py-2 rounded-lg font-medium transition-colors"
+              >
+                Disconnect
+              </button>
+            </div>
+          )}
+          {tabRole === 'follower' && (
+            <p className="mb-4 text-sm text-yellow-300">
+              The reader is open in another tab. Its card events are shown below, and commands
+              sent from here run on it. This tab takes over when the other one closes.
+            </p>
+          )}
+          <div className={`flex flex-wrap items-center gap-4 ${active ? 'mt-4' : ''}`}>
+            <button
+              onClick={() => setShowSerialSettings(true)}
+              disabled={!serialSupported || tabRole === 'follower'}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-6 py-2 rounded-lg font-medium transition-colors"
+            >
+              Connect
+            </button>
+            <button
+              onClick={handleConnectUsb}
+              disabled={!usbSupported || tabRole === 'follower'}
+              className="bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 disabled:cursor-not-allowed px-6 py-2 rounded-lg font-medium transition-colors"
+            >
+              Connect via WebUSB
+            </button>
+            <button
+              onClick={handleConnectSimulated}
+              className="bg-gray-700 hover:bg-gray-600 px-6 py-2 rounded-lg font-medium transition-colors"
+            >
+              Connect to simulated reader
+            </button>
+            <button
+              onClick={() => replayInput.current?.click()}
+              className="bg-gray-700 hover:bg-gray-600 px-6 py-2 rounded-lg font-medium transition-colors"
+            >
+              Replay recording
+            </button>
+            <input
+              ref={replayInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleReplay(file);
+                e.target.value = '';
+              }}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={recordTraffic}
+                onChange={(e) => setRecordTraffic(e.target.checked)}
+              />
+              Record serial traffic
+            </label>
           </div>
+          {showSerialSettings && (
+            <SerialSettingsDialog
+              initial={serialSettings}
+              onConnect={handleConnect}
+              onCancel={() => setShowSerialSettings(false)}
+            />
+          )}
+          {recorder && (
+            <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-gray-400">
+              <span>Serial traffic of the last connection is recorded for replay.</span>
+              <button
+                onClick={handleSaveRecording}
+                className="text-gray-300 hover:text-white px-3 py-1 border border-gray-600 rounded hover:border-gray-500 transition-colors"
+              >
+                Save recording
+              </button>
+            </div>
+          )}
+          {simulator && (
+            <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+              <label htmlFor="virtual-card" className="text-gray-400">Virtual card in field:</label>
+              <select
+                id="virtual-card"
+                value={virtualCard}
+                onChange={(e) => handleVirtualCardChange(e.target.value)}
+                className="bg-gray-700 border border-gray-600 rounded px-3 py-1 text-white"
+              >
+                <option value="">None (empty field)</option>
+                {simulator.cards.map(card => (
+                  <option key={card.label} value={card.label}>
+                    {card.label} — {card.uid}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           {firmwareInfo && (
             <div className="mt-4 p-3 bg-gray-700/50 rounded-lg text-sm">
               <div className="text-gray-300">
@@ -340,12 +869,77 @@ function App() {
           <section className="bg-green-900/30 border border-green-500/50 rounded-lg p-6 mb-6">
             <h2 className="text-xl font-semibold mb-2 text-green-300">Card Detected</h2>
             <div className="font-mono text-2xl text-green-400 mb-2">{lastUid}</div>
+            {lastUid.split(' ').length > 4 && (
+              <div className="text-sm text-gray-500 mb-1">{lastUid.split(' ').length}-byte UID</div>
+            )}
+            {identity && (
+              <div className="text-sm mb-2 space-y-0.5">
+                {identity.candidates.map((candidate, i) => (
+                  <div key={candidate.name} className={i === 0 ? 'text-white' : 'text-gray-400'}>
+                    {i === 0 ? 'Likely ' : 'or '}{candidate.name}
+                    <span className={`ml-2 ${CONFIDENCE_COLORS[candidate.confidence]}`}>{candidate.confidence} confidence</span>
+                    <span className="ml-2 text-gray-500">({candidate.reason})</span>
+                  </div>
+                ))}
+                {identity.manufacturer && <div className="text-gray-400">Chip manufacturer: {identity.manufacturer}</div>}
+                {identity.uidKind === 'random' && (
+                  <div className="text-yellow-400">Random UID (08 prefix): changes on every activation, not usable as an identifier</div>
+                )}
+                {identity.uidKind === 'non-unique' && (
+                  <div className="text-yellow-400">Non-unique UID (xF prefix): other cards may share it</div>
+                )}
+              </div>
+            )}
             {(lastAtqa || lastSak) && (
               <div className="text-sm text-gray-400">
                 {lastAtqa && <span className="mr-4">ATQA: {lastAtqa}</span>}
                 {lastSak && <span>SAK: {lastSak}</span>}
               </div>
             )}
+            {lastAts && (
+              <div className="text-sm text-gray-400 space-y-1 mt-1">
+                <div>ATS: <span className="font-mono">{lastAts.raw}</span></div>
+                <div>
+                  Max frame {lastAts.maxFrameSize} bytes
+                  {lastAts.tb && `, FWT ${lastAts.tb.fwtMs} ms, SFGT ${lastAts.tb.sfgtMs} ms`}
+                  {lastAts.ta && lastAts.ta.readerToCard.length > 0 && `, up to ${Math.max(...lastAts.ta.readerToCard)} kbit/s`}
+                  {lastAts.tc?.cidSupported && ', CID'}
+                  {lastAts.tc?.nadSupported && ', NAD'}
+                </div>
+                {lastAts.historicalBytes && (
+                  <div>Historical bytes: <span className="font-mono">{lastAts.historicalBytes}</span></div>
+                )}
+              </div>
+            )}
+            {lastIsoB && (
+              <div className="text-sm text-gray-400 space-y-1">
+                <div>
+                  <span className="mr-4">ISO 14443-B</span>
+                  <span className="mr-4">App data: {lastIsoB.applicationData}</span>
+                  <span>Protocol info: {lastIsoB.protocolInfo.raw}</span>
+                </div>
+                <div>
+                  Max frame {lastIsoB.protocolInfo.maxFrameSize} bytes, FWT {lastIsoB.protocolInfo.fwtMs} ms
+                  {lastIsoB.protocolInfo.isoDep ? ', ISO 14443-4' : ''}
+                  {lastIsoB.protocolInfo.bitRates.length > 0 && `, up to ${Math.max(...lastIsoB.protocolInfo.bitRates)} kbit/s`}
+                  {lastIsoB.protocolInfo.cidSupported && ', CID'}
+                  {lastIsoB.protocolInfo.nadSupported && ', NAD'}
+                </div>
+                {lastIsoB.attrib && (
+                  <div>ATTRIB: {lastIsoB.attrib.raw} (MBLI {lastIsoB.attrib.mbli}, CID {lastIsoB.attrib.cid})</div>
+                )}
+              </div>
+            )}
+            {active && ndef && (
+              <NdefPanel
+                key={lastUid}
+                device={active.device}
+                ndef={ndef}
+                disabled={isHunting}
+                onLog={addLog}
+                onWritten={() => loadNdef(active, { priority: COMMAND_PRIORITY.USER })}
+              />
+            )}
           </section>
         ) : cardStatus && (
           <section className="bg-gray-800 border border-gray-600 rounded-lg p-6 mb-6">
@@ -354,6 +948,27 @@ function App() {
           </section>
         )}
 
+        {/* MIFARE Classic block editor */}
+        {device && lastUid && lastSak && isMifareClassic(parseInt(lastSak, 16)) && (
+          <MifarePanel
+            key={lastUid}
+            device={device}
+            sak={lastSak}
+            disabled={isHunting}
+            onLog={addLog}
+          />
+        )}
+
+        {/* Contactless EMV inspection */}
+        {device && lastUid && supportsIsoDep({ sak: lastSak, comType: lastIsoB ? COM_TYPE.ISOB : undefined }) && (
+          <EmvPanel
+            key={lastUid}
+            device={device}
+            disabled={isHunting}
+            onLog={addLog}
+          />
+        )}
+
         {/* Card Hunt Section */}
         <section className="bg-gray-800 rounded-lg p-6 mb-6">
           <h2 className="text-xl font-semibold mb-4 text-blue-300">Card Hunt</h2>
@@ -395,53 +1010,158 @@ function App() {
               End Tag
             </button>
           </div>
+
+          <HuntSettingsPanel settings={huntSettings} onChange={handleHuntSettings} disabled={isHunting} />
         </section>
 
+        {/* Combined card events of all readers, including those of the owner tab */}
+        {feedItems.length > 0 && (
+          <section className="bg-gray-800 rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4 text-blue-300">Reader Events</h2>
+            <div className="max-h-48 overflow-y-auto text-sm space-y-1">
+              {feedItems.map(({ event, remote }) => (
+                <div key={`${remote ? 'remote' : 'local'}-${event.id}`} className="flex gap-3">
+                  <span className="text-gray-500">{event.timestamp.toLocaleTimeString('en-US', { hour12: false })}</span>
+                  <span className="text-blue-300">{event.reader}</span>
+                  {remote && <span className="text-gray-500">other tab</span>}
+                  <span className={FEED_COLORS[event.kind]}>{describeReaderEvent(event)}</span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Persistent card history */}
+        {cardHistory && (
+          <CardHistoryPanel history={cardHistory} revision={historyRevision} onLog={addLog} />
+        )}
+
+        <EmbedOriginsPanel origins={embedOrigins} onChange={handleEmbedOrigins} onLog={addLog} />
+
         {/* Custom Command */}
         <section className="bg-gray-800 rounded-lg p-6 mb-6">
-          <h2 className="text-xl font-semibold mb-4 text-blue-300">Custom Command</h2>
-          <div className="flex flex-wrap items-center gap-3">
-            <input
-              type="text"
-              value={customCommand}
-              onChange={(e) => setCustomCommand(e.target.value.toUpperCase())}
-              placeholder="80 0B 01 03 00 00 02 11 03 01 01 14 00"
-              className="flex-1 min-w-64 bg-gray-700 border border-gray-600 rounded px-3 py-2 font-mono text-white text-sm"
-            />
-            <button
-              onClick={handleCustomCommand}
-              disabled={!device || !customCommand.trim()}
-              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                device && customCommand.trim()
-                  ? 'bg-gray-700 hover:bg-gray-600 text-gray-200'
-                  : 'bg-gray-800 text-gray-500 cursor-not-allowed'
-              }`}
-            >
-              Send
-            </button>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-blue-300">Custom Command</h2>
+            <div className="flex text-sm border border-gray-600 rounded overflow-hidden">
+              {(['frame', 'apdu'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setCommandMode(mode)}
+                  className={`px-3 py-1 transition-colors ${
+                    commandMode === mode ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {mode === 'frame' ? 'Reader frame' : 'Card APDU'}
+                </button>
+              ))}
+            </div>
           </div>
-          <p className="text-gray-500 text-sm mt-2">
-            Enter complete command with CRC (e.g. 80 02 01 01 00 50 3F)
-          </p>
+          {commandMode === 'frame' && (
+            <div className="flex flex-wrap items-start gap-3">
+              <div className="flex-1 min-w-64">
+                <FrameComposer onChange={setComposedFrame} />
+              </div>
+              <button
+                onClick={handleCustomCommand}
+                disabled={!canSendCommand || !composedFrame}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  canSendCommand && composedFrame
+                    ? 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+                    : 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                Send
+              </button>
+            </div>
+          )}
+          {commandMode === 'apdu' && (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="text"
+                  value={customCommand}
+                  onChange={(e) => setCustomCommand(e.target.value.toUpperCase())}
+                  placeholder="00 A4 04 00 07 D2 76 00 00 85 01 01 00"
+                  className="flex-1 min-w-64 bg-gray-700 border border-gray-600 rounded px-3 py-2 font-mono text-white text-sm"
+                />
+                <button
+                  onClick={handleCustomCommand}
+                  disabled={!canSendCommand || !customCommand.trim()}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                    canSendCommand && customCommand.trim()
+                      ? 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+                      : 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                  }`}
+                >
+                  Send
+                </button>
+              </div>
+              <p className="text-gray-500 text-sm mt-2">
+                ISO 7816 APDU sent to the card found by the last hunt (e.g. 00 84 00 00 08)
+              </p>
+            </>
+          )}
         </section>
 
         {/* Log Output */}
         <section className="bg-gray-800 rounded-lg p-6">
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-xl font-semibold text-blue-300">Log Output</h2>
-            <button
-              onClick={clearLogs}
-              className="text-gray-400 hover:text-white text-sm px-3 py-1 border border-gray-600 rounded hover:border-gray-500 transition-colors"
-            >
-              Clear
-            </button>
+            <div className="flex gap-2">
+              {logReaders.length > 1 && (
+                <select
+                  value={logFilter}
+                  onChange={(e) => setLogFilter(e.target.value)}
+                  aria-label="Reader"
+                  className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                >
+                  <option value="">All readers</option>
+                  {logReaders.map(label => (
+                    <option key={label} value={label}>{label}</option>
+                  ))}
+                </select>
+              )}
+              {(['json', 'csv', 'text'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={logs.length === 0}
+                  className="text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed text-sm px-3 py-1 border border-gray-600 rounded hover:border-gray-500 transition-colors"
+                >
+                  Export {format.toUpperCase()}
+                </button>
+              ))}
+              <button
+                onClick={() => importInput.current?.click()}
+                className="text-gray-400 hover:text-white text-sm px-3 py-1 border border-gray-600 rounded hover:border-gray-500 transition-colors"
+              >
+                Import
+              </button>
+              <input
+                ref={importInput}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+              <button
+                onClick={clearLogs}
+                className="text-gray-400 hover:text-white text-sm px-3 py-1 border border-gray-600 rounded hover:border-gray-500 transition-colors"
+              >
+                Clear
+              </button>
+            </div>
           </div>
           <div className="bg-gray-900 rounded-lg p-4 h-64 overflow-y-auto font-mono text-sm">
             {logs.length === 0 ? (
               <p className="text-gray-500">No logs yet. Connect a reader to get started.</p>
             ) : (
-              logs.map((log) => (
-                <LogLine key={log.id} log={log} />
+              visibleLogs.map((log) => (
+                <LogLine key={log.id} log={log} showReader={logReaders.length > 1} />
               ))
             )}
           </div>
@@ -450,7 +1170,7 @@ function App() {
         {/* Footer */}
         <footer className="mt-8 text-center text-gray-500 text-sm">
           <p>
-            NFC Card Hunt Reader - ASK CSC Protocol via Web Serial
+            NFC Card Hunt Reader - ASK CSC Protocol via Web Serial or WebUSB
           </p>
           <p className="mt-1">
             Tested with RDR-518
@@ -461,11 +1181,47 @@ function App() {
   );
 }
 
+// Events kept from the tab owning the readers
+const REMOTE_FEED_LIMIT = 200;
+
+const FEED_COLORS: Record<ReaderEventKind, string> = {
+  connected: 'text-gray-400',
+  disconnected: 'text-gray-400',
+  unplugged: 'text-red-400',
+  card: 'text-green-400',
+  removed: 'text-gray-300',
+};
+
+function describeReaderEvent(event: ReaderEvent): string {
+  switch (event.kind) {
+    case 'connected':
+      return 'Connected';
+    case 'disconnected':
+      return 'Disconnected';
+    case 'unplugged':
+      return 'Unplugged';
+    case 'card':
+      return `Card ${event.uid} detected`;
+    case 'removed':
+      return `Card ${event.uid} left`;
+  }
+}
+
+const CONFIDENCE_COLORS: Record<IdentificationConfidence, string> = {
+  high: 'text-green-400',
+  medium: 'text-yellow-400',
+  low: 'text-gray-500',
+};
+
 interface LogLineProps {
   log: LogEntry;
+  /**
+   * Prefix the line with its reader label
+   */
+  showReader?: boolean;
 }
 
-function LogLine({ log }: LogLineProps) {
+function LogLine({ log, showReader = false }: LogLineProps) {
   const colors: Record<LogEntry['type'], string> = {
     info: 'text-gray-400',
     success: 'text-green-400',
@@ -493,13 +1249,51 @@ function LogLine({ log }: LogLineProps) {
     second: '2-digit',
   });
 
+  if (log.frame) {
+    const dissected = dissectFrame(log.frame);
+    return (
+      <details className={`${colors[log.type]} mb-1`}>
+        <summary className="cursor-pointer">
+          <span className="text-gray-600">{time}</span>
+          <span className="mx-2">{prefix[log.type]}</span>
+          {showReader && log.reader && <span className="mr-2 text-blue-300">{log.reader}</span>}
+          <span>{dissected.summary}</span>
+          {dissected.crcValid !== null && (
+            <span className={`ml-2 ${dissected.crcValid ? 'text-green-600' : 'text-red-400'}`}>
+              {dissected.crcValid ? 'CRC ✓' : 'CRC ✗'}
+            </span>
+          )}
+        </summary>
+        <div className="text-gray-500 ml-6 break-all">{log.message}</div>
+        <FieldTree fields={dissected.fields} />
+      </details>
+    );
+  }
+
   return (
     <div className={`${colors[log.type]} mb-1`}>
       <span className="text-gray-600">{time}</span>
       <span className="mx-2">{prefix[log.type]}</span>
+      {showReader && log.reader && <span className="mr-2 text-blue-300">{log.reader}</span>}
       <span>{log.message}</span>
     </div>
   );
 }
 
+function FieldTree({ fields }: { fields: DissectorField[] }) {
+  return (
+    <ul className="pl-6 text-gray-300">
+      {fields.map((field, i) => (
+        <li key={i}>
+          <span className="text-gray-600">[{field.offset}]</span>{' '}
+          <span className={field.valid === false ? 'text-red-400' : 'text-cyan-400'}>{field.name}</span>{' '}
+          <span className="text-white break-all">{field.hex}</span>
+          {field.value && <span className="text-gray-400"> — {field.value}</span>}
+          {field.children && <FieldTree fields={field.children} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 export default App;
@@ -0,0 +1,137 @@
+import { ChildProcessWithoutNullStreams, execFileSync, spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  CLASS_SYSTEM,
+  SYS_ENTER_HUNT_PHASE,
+  SYS_SOFTWARE_VERSION,
+  buildCommand,
+  fromHex,
+  toHex,
+} from '../lib/nfc-device';
+
+// Opens a pseudo-terminal, prints the path of its terminal end, then relays
+// what the CLI writes as hex lines on stdout and writes hex lines from stdin
+const PTY_RELAY = `
+import os, pty, select, sys, tty
+master, slave = pty.openpty()
+tty.setraw(slave)
+print(os.ttyname(slave), flush=True)
+stdin = sys.stdin.fileno()
+while True:
+    ready, _, _ = select.select([master, stdin], [], [])
+    if master in ready:
+        try:
+            data = os.read(master, 4096)
+        except OSError:
+            continue
+        print(data.hex(), flush=True)
+    if stdin in ready:
+        line = sys.stdin.readline()
+        if not line:
+            break
+        os.write(master, bytes.fromhex(line.strip()))
+`;
+
+const FIRMWARE = 'GEN5XX CSC 01.20 <USB> Jul 31 2014 16:16:21 (C) ASK';
+
+// Hunt answer for a MIFARE Classic 1K, UID DE AD BE EF
+const HUNT_ANSWER = '01 0B 01 03 00 08 06 00 08 DE AD BE EF 00 EF 8B';
+
+function hasTools(): boolean {
+  try {
+    execFileSync('python3', ['-c', 'import pty']);
+    execFileSync('stty', ['--version']);
+    return process.platform === 'linux';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reader emulated on the other end of a pseudo-terminal: `answer` gets each
+ * command frame and returns the response to send, or null to stay silent
+ */
+async function createPtyReader(answer: (command: Uint8Array) => Uint8Array | null) {
+  const relay = spawn('python3', ['-c', PTY_RELAY]);
+  const lines = createInterface({ input: relay.stdout });
+  const commands: string[] = [];
+  let pending: number[] = [];
+
+  const path = await new Promise<string>(resolve => lines.once('line', resolve));
+  lines.on('line', line => {
+    pending.push(...fromHex(line));
+    // Commands are 80, LEN, LEN bytes, 00, then a 2-byte CRC
+    while (pending.length >= 2 && pending.length >= pending[1] + 5) {
+      const command = new Uint8Array(pending.slice(0, pending[1] + 5));
+      pending = pending.slice(command.length);
+      commands.push(toHex(command));
+      const response = answer(command);
+      if (response) relay.stdin.write(`${Buffer.from(response).toString('hex')}\n`);
+    }
+  });
+
+  return { path, commands, relay };
+}
+
+function runCli(args: string[]): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  const cli = spawn('node_modules/.bin/vite-node', ['src/cli/nfc-cli.ts', ...args]);
+  let stdout = '';
+  let stderr = '';
+  cli.stdout.on('data', data => (stdout += data));
+  cli.stderr.on('data', data => (stderr += data));
+  return new Promise(resolve => cli.on('close', code => resolve({ code, stdout, stderr })));
+}
+
+const response = (ident: number, data: Uint8Array) => {
+  const frame = buildCommand(0x01, CLASS_SYSTEM, ident, data);
+  // The reader sends a DLE ahead of its first answer
+  return new Uint8Array([0x10, ...frame]);
+};
+
+let relays: ChildProcessWithoutNullStreams[] = [];
+
+afterEach(() => {
+  relays.forEach(relay => relay.kill());
+  relays = [];
+});
+
+describe.skipIf(!hasTools())('nfc-cli on a pseudo-terminal', () => {
+  const reader = async (answer: (command: Uint8Array) => Uint8Array | null) => {
+    const pty = await createPtyReader(answer);
+    relays.push(pty.relay);
+    return pty;
+  };
+
+  it('prints the firmware version', async () => {
+    const { path, commands } = await reader(command =>
+      command[3] === SYS_SOFTWARE_VERSION ? response(SYS_SOFTWARE_VERSION, new TextEncoder().encode(FIRMWARE)) : null
+    );
+
+    const result = await runCli(['version', '--port', path, '--baud', '38400']);
+    expect(result).toMatchObject({ code: 0, stdout: `${FIRMWARE}\n` });
+    expect(commands).toEqual(['80 02 01 01 00 50 3F']);
+  }, 30000);
+
+  it('prints the card found by a hunt as JSON', async () => {
+    const { path, commands } = await reader(command =>
+      command[3] === SYS_ENTER_HUNT_PHASE ? fromHex(HUNT_ANSWER) : null
+    );
+
+    const result = await runCli(['hunt', '-p', path]);
+    expect(result.code).toBe(0);
+    expect(JSON.parse(result.stdout)).toMatchObject({ event: 'card', uid: 'DE AD BE EF', type: 'MIFARE' });
+    expect(commands).toHaveLength(1);
+    expect(fromHex(commands[0])[3]).toBe(SYS_ENTER_HUNT_PHASE);
+  }, 30000);
+
+  it('fails with status 1 when the reader does not answer', async () => {
+    const { path, commands } = await reader(() => null);
+
+    const result = await runCli(['end-tag', '-p', path]);
+    expect(result.code).toBe(1);
+    expect(result.stdout).toBe('');
+    expect(result.stderr).toBe('No response from reader\n');
+    expect(commands).toHaveLength(1);
+  }, 30000);
+});
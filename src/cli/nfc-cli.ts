@@ -0,0 +1,224 @@
+/**
+ * nfc-cli: drive an ASK CSC reader from a shell
+ * Uses the same protocol code as the web app over a Node serial transport.
+ * Results go to stdout, errors and the -v protocol log to stderr.
+ */
+
+import { parseArgs } from 'node:util';
+import {
+  NfcCommandResult,
+  NfcDevice,
+  cardHunt,
+  closeNfcDevice,
+  comTypeName,
+  createNfcDevice,
+  endTagCommunication,
+  getFirmwareVersion,
+  sendCustomCommand,
+} from '../lib/nfc-device';
+import { createCardWatcher } from '../lib/card-watcher';
+import { setLogConsole } from '../lib/log';
+import { CSC_STATUS } from '../lib/status-codes';
+import { createNodeSerialTransport } from './node-serial';
+
+const DEFAULT_PORT = '/dev/ttyACM0';
+const DEFAULT_BAUD = 115200;
+
+// Exit codes besides 0 for success and 1 for a failed command
+const EXIT_USAGE = 2;
+const EXIT_NO_CARD = 3;
+
+const USAGE = `Usage: nfc-cli <command> [options]
+
+Commands:
+  version          Print the reader firmware version
+  hunt             Search the field once and print the card as JSON
+  watch            Print a JSON line each time a card arrives or leaves, until Ctrl+C
+  end-tag          End communication with the card
+  raw <hex>        Send a command frame and print the answer
+
+Options:
+  -p, --port <path>   Serial device (default ${DEFAULT_PORT})
+  -b, --baud <rate>   Baud rate (default ${DEFAULT_BAUD})
+      --isob          Also hunt ISO 14443-B cards
+  -v, --verbose       Log the frames sent and received to stderr
+  -h, --help          Show this help
+
+Exit status: 0 on success, 1 when the command fails, ${EXIT_USAGE} on a usage error,
+${EXIT_NO_CARD} when hunt finds no card.`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface CliOptions {
+  port: string;
+  baud: number;
+  isob: boolean;
+}
+
+/**
+ * JSON line of a card event
+ */
+function cardJson(event: 'card' | 'removed', card: NfcCommandResult, extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    event,
+    uid: card.hexData,
+    atqa: card.atqa,
+    sak: card.sak,
+    ats: card.ats?.raw,
+    type: card.comType !== undefined ? comTypeName(card.comType) : undefined,
+    timestamp: new Date().toISOString(),
+    ...extra,
+  });
+}
+
+function print(line: string): void {
+  process.stdout.write(`${line}\n`);
+}
+
+async function runVersion(device: NfcDevice): Promise<number> {
+  const result = await getFirmwareVersion(device);
+  if (!result.success || !result.version) {
+    throw new Error(result.message);
+  }
+  print(result.version.raw);
+  return 0;
+}
+
+async function runHunt(device: NfcDevice, options: CliOptions): Promise<number> {
+  const result = await cardHunt(device, { isob: options.isob });
+  if (result.success && result.hexData) {
+    print(cardJson('card', result));
+    return 0;
+  }
+  if (result.status?.code === CSC_STATUS.NO_CARD) {
+    process.stderr.write(`${result.message}\n`);
+    return EXIT_NO_CARD;
+  }
+  throw new Error(result.message);
+}
+
+async function runWatch(device: NfcDevice, options: CliOptions): Promise<number> {
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+  device.transport.on('disconnect', () => {
+    process.stderr.write('Reader unplugged\n');
+    stop();
+  });
+
+  const watcher = createCardWatcher(device, { isob: options.isob });
+  watcher.on('cardPresent', card => print(cardJson('card', card)));
+  watcher.on('cardRemoved', (card, status) => print(cardJson('removed', card, { status })));
+  watcher.on('error', error => process.stderr.write(`${error.message}\n`));
+  await watcher.start(controller.signal);
+  return 0;
+}
+
+async function runEndTag(device: NfcDevice): Promise<number> {
+  const result = await endTagCommunication(device);
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+  print(result.message);
+  return 0;
+}
+
+async function runRaw(device: NfcDevice, hex: string): Promise<number> {
+  const result = await sendCustomCommand(device, hex);
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+  print(result.hexData ?? '');
+  if (result.status && result.status.code !== CSC_STATUS.OK) {
+    process.stderr.write(`Status 0x${result.status.code.toString(16).padStart(2, '0')}: ${result.status.name}\n`);
+  }
+  return 0;
+}
+
+function parseCommandLine(args: string[]): { command: string; operands: string[]; options: CliOptions; verbose: boolean } {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      port: { type: 'string', short: 'p', default: DEFAULT_PORT },
+      baud: { type: 'string', short: 'b', default: String(DEFAULT_BAUD) },
+      isob: { type: 'boolean', default: false },
+      verbose: { type: 'boolean', short: 'v', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command = '', ...operands] = positionals;
+  if (values.help) {
+    return { command: 'help', operands, options: { port: '', baud: 0, isob: false }, verbose: false };
+  }
+
+  const baud = Number(values.baud);
+  if (!Number.isInteger(baud) || baud <= 0) {
+    throw new UsageError(`Invalid baud rate: ${values.baud}`);
+  }
+  const expected = command === 'raw' ? 1 : 0;
+  if (!['version', 'hunt', 'watch', 'end-tag', 'raw'].includes(command)) {
+    throw new UsageError(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+  if (operands.length !== expected) {
+    throw new UsageError(command === 'raw' ? 'raw takes one hex frame, quoted if it has spaces' : `${command} takes no argument`);
+  }
+  return {
+    command,
+    operands,
+    options: { port: values.port ?? DEFAULT_PORT, baud, isob: values.isob ?? false },
+    verbose: values.verbose ?? false,
+  };
+}
+
+async function main(args: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(args);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+  const { command, operands, options, verbose } = parsed;
+  if (command === 'help') {
+    print(USAGE);
+    return 0;
+  }
+
+  setLogConsole(verbose ? line => process.stderr.write(`${line}\n`) : null);
+  const transport = createNodeSerialTransport(options.port, { baudRate: options.baud });
+  await transport.open();
+  const device = createNfcDevice(transport);
+  try {
+    switch (command) {
+      case 'version':
+        return await runVersion(device);
+      case 'hunt':
+        return await runHunt(device, options);
+      case 'watch':
+        return await runWatch(device, options);
+      case 'end-tag':
+        return await runEndTag(device);
+      default:
+        return await runRaw(device, operands[0]);
+    }
+  } finally {
+    await closeNfcDevice(device);
+  }
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,141 @@
+/**
+ * Serial transport for Node.js on Linux
+ * Opens a tty device such as /dev/ttyACM0 (or a pseudo-terminal in tests)
+ * without a native addon: `stty` sets the line to raw mode at the wanted
+ * speed, then the device is read as a tty stream and written as a file.
+ */
+
+import { execFile } from 'node:child_process';
+import { FileHandle, open } from 'node:fs/promises';
+import { closeSync, constants, openSync } from 'node:fs';
+import { ReadStream, isatty } from 'node:tty';
+import { promisify } from 'node:util';
+import { NfcTransport, createTransportEvents } from '../lib/transport';
+import { createFrameDecoder, dropStaleFrames, readResponseFrame } from '../lib/frame';
+import { log } from '../lib/log';
+
+const execFileAsync = promisify(execFile);
+
+// Raw 8N1 without flow control, the same line as the browser defaults
+const STTY_RAW = ['raw', '-echo', 'cs8', '-cstopb', '-parenb', '-crtscts', 'clocal'];
+
+export interface NodeSerialOptions {
+  baudRate?: number;
+}
+
+export function createNodeSerialTransport(path: string, options: NodeSerialOptions = {}): NfcTransport {
+  const { baudRate = 115200 } = options;
+  const events = createTransportEvents();
+  const decoder = createFrameDecoder();
+  let input: ReadStream | null = null;
+  let output: FileHandle | null = null;
+  let closing = false;
+  // Chunks received while no read is waiting, and the read waiting for one
+  const chunks: Uint8Array[] = [];
+  let waiting: ((chunk: Uint8Array | null) => void) | null = null;
+
+  const receive = (data: Buffer) => {
+    const chunk = new Uint8Array(data);
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve(chunk);
+    } else {
+      chunks.push(chunk);
+    }
+  };
+
+  const received = (chunk: Uint8Array) => {
+    log('RX', `Chunk (${chunk.length} bytes)`, path);
+    return chunk;
+  };
+
+  const readChunk = (timeout: number): Promise<Uint8Array | null> => {
+    const queued = chunks.shift();
+    if (queued) return Promise.resolve(received(queued));
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        waiting = null;
+        log('INFO', 'Read timeout', path);
+        resolve(null);
+      }, timeout);
+      waiting = chunk => {
+        clearTimeout(timer);
+        resolve(chunk && received(chunk));
+      };
+    });
+  };
+
+  const release = async () => {
+    input?.destroy();
+    input = null;
+    await output?.close().catch(() => {});
+    output = null;
+    waiting?.(null);
+    chunks.length = 0;
+    decoder.reset();
+  };
+
+  return {
+    kind: 'serial',
+    name: path,
+    get isOpen() {
+      return input !== null && output !== null;
+    },
+    async open() {
+      if (input && output) return;
+      log('INFO', `Opening ${path} at ${baudRate} baud 8N1...`, path);
+      try {
+        await execFileAsync('stty', ['-F', path, String(baudRate), ...STTY_RAW]);
+      } catch (error) {
+        // stty explains the failure on stderr, e.g. "No such file or directory"
+        const reason = (error as { stderr?: string }).stderr?.trim() || (error instanceof Error ? error.message : String(error));
+        const message = `Cannot configure ${path}: ${reason}`;
+        events.emit('error', message);
+        throw new Error(message);
+      }
+      // The tty stream takes ownership of this descriptor and closes it
+      const readFd = openSync(path, constants.O_RDWR | constants.O_NOCTTY);
+      if (!isatty(readFd)) {
+        closeSync(readFd);
+        throw new Error(`${path} is not a terminal device`);
+      }
+      output = await open(path, constants.O_RDWR | constants.O_NOCTTY);
+      closing = false;
+      input = new ReadStream(readFd);
+      input.on('data', receive);
+      // The stream ends or fails when the reader is unplugged
+      const lost = () => {
+        if (closing) return;
+        closing = true;
+        log('INFO', `${path} was unplugged`, path);
+        release().then(() => events.emit('disconnect', path));
+      };
+      input.on('end', lost);
+      input.on('error', lost);
+      events.emit('open');
+    },
+    async close() {
+      closing = true;
+      await release();
+      log('INFO', 'Disconnected', path);
+      events.emit('close');
+    },
+    async write(data) {
+      if (!output) {
+        throw new Error('Serial port not ready');
+      }
+      // Bytes received since the last answer belong to an earlier command
+      chunks.splice(0).forEach(chunk => decoder.push(chunk));
+      dropStaleFrames(decoder, path);
+      await output.write(data);
+    },
+    readFrame(timeout, expect) {
+      if (!input) {
+        return Promise.reject(new Error('Serial port not ready'));
+      }
+      return readResponseFrame(decoder, readChunk, timeout, expect, path);
+    },
+    on: events.on,
+  };
+}
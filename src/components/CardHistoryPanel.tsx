@@ -0,0 +1,191 @@
+import { useEffect, useRef, useState } from 'react';
+import { comTypeName } from '../lib/nfc-device';
+import {
+  CardHistory,
+  CardHistoryEntry,
+  exportCardHistory,
+  searchCardHistory,
+} from '../lib/card-history';
+import { downloadFile } from '../lib/download';
+
+type PanelLogType = 'info' | 'success' | 'error' | 'command' | 'response';
+
+interface CardHistoryPanelProps {
+  history: CardHistory;
+  /**
+   * Bumped by the parent after each recorded read to reload the list
+   */
+  revision: number;
+  onLog: (type: PanelLogType, message: string) => void;
+}
+
+function CardHistoryPanel({ history, revision, onLog }: CardHistoryPanelProps) {
+  const [entries, setEntries] = useState<CardHistoryEntry[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [editing, setEditing] = useState<string | null>(null);
+  const [label, setLabel] = useState<string>('');
+  const [reload, setReload] = useState<number>(0);
+  // Enter and the blur that follows must not save the label twice
+  const editingRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    history.list()
+      .then(list => {
+        if (!cancelled) setEntries(list);
+      })
+      .catch(error => onLog('error', `Card history: ${error instanceof Error ? error.message : String(error)}`));
+    return () => {
+      cancelled = true;
+    };
+  }, [history, revision, reload, onLog]);
+
+  const run = async (action: () => Promise<void>, message: string) => {
+    try {
+      await action();
+      onLog('info', message);
+      setReload(r => r + 1);
+    } catch (error) {
+      onLog('error', `Card history: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const startEdit = (entry: CardHistoryEntry) => {
+    editingRef.current = entry.uid;
+    setEditing(entry.uid);
+    setLabel(entry.label ?? '');
+  };
+
+  const stopEdit = () => {
+    editingRef.current = null;
+    setEditing(null);
+  };
+
+  const saveLabel = async (uid: string) => {
+    if (editingRef.current !== uid) return;
+    stopEdit();
+    await run(() => history.setLabel(uid, label), label.trim() ? `Labelled ${uid} "${label.trim()}"` : `Removed label of ${uid}`);
+  };
+
+  const handleDelete = (uid: string) => run(() => history.remove(uid), `Removed ${uid} from card history`);
+
+  const handleClear = () => {
+    if (window.confirm(`Delete all ${entries.length} cards from the history?`)) {
+      run(() => history.clear(), 'Card history cleared');
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadFile(
+      `card-history-${stamp}.${format}`,
+      exportCardHistory(visible, format),
+      format === 'json' ? 'application/json' : 'text/csv'
+    );
+  };
+
+  const visible = searchCardHistory(entries, query);
+
+  return (
+    <section className="bg-gray-800 rounded-lg p-6 mb-6">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h2 className="text-xl font-semibold text-blue-300">Card History</h2>
+        <div className="flex gap-2 text-sm">
+          {(['csv', 'json'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={visible.length === 0}
+              className="text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed px-3 py-1 border border-gray-600 rounded hover:border-gray-500 transition-colors"
+            >
+              Export {format.toUpperCase()}
+            </button>
+          ))}
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="text-gray-400 hover:text-red-400 disabled:text-gray-600 disabled:cursor-not-allowed px-3 py-1 border border-gray-600 rounded hover:border-gray-500 transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search UID, label, SAK or type"
+        className="w-full mb-3 bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white text-sm"
+      />
+
+      {visible.length === 0 ? (
+        <p className="text-gray-500 text-sm">
+          {entries.length === 0 ? 'No cards recorded yet. Detected cards are kept here across reloads.' : 'No card matches the search.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-gray-400 text-left">
+              <tr>
+                <th className="py-1 pr-3">UID</th>
+                <th className="py-1 pr-3">Type</th>
+                <th className="py-1 pr-3">ATQA / SAK</th>
+                <th className="py-1 pr-3">Reads</th>
+                <th className="py-1 pr-3">First seen</th>
+                <th className="py-1 pr-3">Last seen</th>
+                <th className="py-1 pr-3">Label</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => (
+                <tr key={entry.uid} className="border-t border-gray-700">
+                  <td className="py-1 pr-3 font-mono text-green-400">{entry.uid}</td>
+                  <td className="py-1 pr-3 text-gray-300">{entry.comType !== undefined ? comTypeName(entry.comType) : '—'}</td>
+                  <td className="py-1 pr-3 font-mono text-gray-300">{entry.atqa ?? '—'} / {entry.sak ?? '—'}</td>
+                  <td className="py-1 pr-3 text-gray-300">{entry.readCount}</td>
+                  <td className="py-1 pr-3 text-gray-400">{formatTime(entry.firstSeen)}</td>
+                  <td className="py-1 pr-3 text-gray-400">{formatTime(entry.lastSeen)}</td>
+                  <td className="py-1 pr-3">
+                    {editing === entry.uid ? (
+                      <input
+                        autoFocus
+                        value={label}
+                        onChange={(e) => setLabel(e.target.value)}
+                        onBlur={() => saveLabel(entry.uid)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') saveLabel(entry.uid);
+                          if (e.key === 'Escape') stopEdit();
+                        }}
+                        className="bg-gray-700 border border-gray-600 rounded px-2 py-0.5 text-white"
+                      />
+                    ) : (
+                      <button
+                        onClick={() => startEdit(entry)}
+                        className={entry.label ? 'text-yellow-300 hover:underline' : 'text-gray-500 hover:text-gray-300'}
+                      >
+                        {entry.label ?? 'Add label'}
+                      </button>
+                    )}
+                  </td>
+                  <td className="py-1 text-right">
+                    <button onClick={() => handleDelete(entry.uid)} className="text-gray-500 hover:text-red-400">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { hour12: false });
+}
+
+export default CardHistoryPanel;
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { EMBED_MESSAGE_SOURCE, parseOrigin } from '../lib/reader-share';
+
+type PanelLogType = 'info' | 'success' | 'error' | 'command' | 'response';
+
+interface EmbedOriginsPanelProps {
+  origins: string[];
+  onChange: (origins: string[]) => void;
+  onLog: (type: PanelLogType, message: string) => void;
+}
+
+function EmbedOriginsPanel({ origins, onChange, onLog }: EmbedOriginsPanelProps) {
+  const [text, setText] = useState<string>('');
+
+  const handleAdd = () => {
+    const origin = parseOrigin(text);
+    if (!origin) {
+      onLog('error', `Not an http(s) origin: ${text}`);
+      return;
+    }
+    if (!origins.includes(origin)) {
+      onChange([...origins, origin]);
+      onLog('info', `Card events are now posted to embedding pages on ${origin}`);
+    }
+    setText('');
+  };
+
+  const handleRemove = (origin: string) => {
+    onChange(origins.filter(o => o !== origin));
+    onLog('info', `Stopped posting card events to ${origin}`);
+  };
+
+  return (
+    <section className="bg-gray-800 rounded-lg p-6 mb-6">
+      <details>
+        <summary className="cursor-pointer text-xl font-semibold text-blue-300">Embedding</summary>
+        <p className="mt-4 text-sm text-gray-400">
+          When this page runs in an iframe, each card arrival and departure is posted to the parent
+          window, if its origin is listed here:{' '}
+          <code className="text-gray-300">
+            {`{ source: '${EMBED_MESSAGE_SOURCE}', type: 'card' | 'removed', reader, uid, timestamp }`}
+          </code>
+        </p>
+
+        {origins.length > 0 ? (
+          <ul className="mt-3 text-sm space-y-1">
+            {origins.map(origin => (
+              <li key={origin} className="flex items-center gap-3">
+                <span className="font-mono text-green-400">{origin}</span>
+                <button onClick={() => handleRemove(origin)} className="text-gray-500 hover:text-red-400">
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-3 text-sm text-gray-500">No origin allowed: embedding pages receive nothing.</p>
+        )}
+
+        <div className="mt-3 flex gap-2">
+          <input
+            type="url"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+            placeholder="https://intranet.example.com"
+            className="flex-1 bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white text-sm"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!text.trim()}
+            className="bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            Allow
+          </button>
+        </div>
+      </details>
+    </section>
+  );
+}
+
+export default EmbedOriginsPanel;
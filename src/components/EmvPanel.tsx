@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { NfcDevice } from '../lib/nfc-device';
+import { COMMAND_PRIORITY } from '../lib/command-queue';
+import { TlvNode } from '../lib/tlv';
+import { EmvReadResult, emvTagName, formatEmvValue, maskPan, readEmvCard } from '../lib/emv';
+
+type PanelLogType = 'info' | 'success' | 'error' | 'command' | 'response';
+
+interface EmvPanelProps {
+  device: NfcDevice;
+  disabled: boolean;
+  onLog: (type: PanelLogType, message: string) => void;
+}
+
+function EmvPanel({ device, disabled, onLog }: EmvPanelProps) {
+  const [result, setResult] = useState<EmvReadResult | null>(null);
+  const [aid, setAid] = useState<string>('');
+  const [showPan, setShowPan] = useState<boolean>(false);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const handleRead = async () => {
+    setBusy(true);
+    try {
+      onLog('command', `EMV read${aid ? ` ${aid}` : ''}`);
+      const read = await readEmvCard(device, { priority: COMMAND_PRIORITY.USER, aid: aid || undefined });
+      setResult(read);
+      onLog(read.success ? 'success' : 'error', read.message);
+      if (!aid && read.selectedAid) {
+        setAid(read.selectedAid);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4 text-blue-300">EMV</h2>
+
+      {disabled && (
+        <p className="text-yellow-400 text-sm mb-3">
+          Stop the continuous hunt first: every hunt resets the selected application.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <label className="text-gray-400" htmlFor="emv-aid">Application</label>
+        <select
+          id="emv-aid"
+          value={aid}
+          onChange={(e) => setAid(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+        >
+          <option value="">Highest priority</option>
+          {result?.applications.map(app => (
+            <option key={app.aid} value={app.aid}>
+              {app.label ?? app.aid} ({app.aid})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleRead}
+          disabled={disabled || busy}
+          className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-1 rounded-lg font-medium transition-colors"
+        >
+          Read card
+        </button>
+        <label className="flex items-center gap-2 text-gray-400">
+          <input type="checkbox" checked={showPan} onChange={(e) => setShowPan(e.target.checked)} />
+          Show full PAN
+        </label>
+      </div>
+
+      {result && (
+        <>
+          {result.pan && (
+            <div className="mb-3 font-mono text-green-400">
+              PAN {showPan ? result.pan : maskPan(result.pan)}
+              {result.expiry && <span className="ml-4 text-gray-400">expires {result.expiry}</span>}
+            </div>
+          )}
+          <div className="space-y-2 font-mono text-sm">
+            {result.steps.map((step, i) => (
+              <details key={i} open={step.tlv.length > 0} className="bg-gray-900 rounded p-2">
+                <summary className="cursor-pointer text-gray-300">
+                  {step.label}
+                  {step.sw && <span className={`ml-2 ${step.error ? 'text-red-400' : 'text-gray-500'}`}>SW={step.sw}</span>}
+                </summary>
+                <div className="text-gray-500 text-xs mt-1 break-all">{step.apdu}</div>
+                {step.error && <div className="text-red-400 mt-1">{step.error}</div>}
+                <TlvTree nodes={step.tlv} showPan={showPan} />
+              </details>
+            ))}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+function TlvTree({ nodes, showPan }: { nodes: TlvNode[]; showPan: boolean }) {
+  return (
+    <ul className="pl-4">
+      {nodes.map((node, i) => (
+        <li key={i} className="mt-1">
+          {node.children ? (
+            <details open>
+              <summary className="cursor-pointer">
+                <span className="text-cyan-400">{node.tag}</span>{' '}
+                <span className="text-gray-400">{emvTagName(node.tag)}</span>
+              </summary>
+              <TlvTree nodes={node.children} showPan={showPan} />
+            </details>
+          ) : (
+            <div className="break-all">
+              <span className="text-cyan-400">{node.tag}</span>{' '}
+              <span className="text-gray-400">{emvTagName(node.tag)}:</span>{' '}
+              <span className="text-white">{formatEmvValue(node, showPan)}</span>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default EmvPanel;
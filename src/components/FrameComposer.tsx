@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CMD_EXECUTE, buildCommand, crc16X25, fromHex, toHex } from '../lib/nfc-device';
+import { KNOWN_CLASSES, KNOWN_COMMANDS, dissectFrame } from '../lib/dissector';
+
+// LEN is one byte and also counts CLASS and IDENT
+const MAX_DATA_LENGTH = 0xff - 2;
+
+interface FrameComposerProps {
+  /**
+   * Called with the frame to send, or null while the input is invalid
+   */
+  onChange: (frame: Uint8Array | null) => void;
+}
+
+interface ByteOption {
+  value: number;
+  label: string;
+}
+
+interface Composed {
+  frame: Uint8Array | null;
+  error?: string;
+}
+
+function FrameComposer({ onChange }: FrameComposerProps) {
+  const [cmd, setCmd] = useState<string>(hexByte(CMD_EXECUTE));
+  const [classId, setClassId] = useState<string>(hexByte(KNOWN_COMMANDS[0].classId));
+  const [ident, setIdent] = useState<string>(hexByte(KNOWN_COMMANDS[0].ident));
+  const [data, setData] = useState<string>('');
+  const [rawMode, setRawMode] = useState<boolean>(false);
+  const [raw, setRaw] = useState<string>('');
+
+  const identOptions = useMemo(() => KNOWN_COMMANDS
+    .filter(command => hexByte(command.classId) === classId)
+    .map(command => ({ value: command.ident, label: command.name })), [classId]);
+  const example = KNOWN_COMMANDS.find(command =>
+    hexByte(command.classId) === classId && hexByte(command.ident) === ident)?.example;
+
+  const composed = useMemo<Composed>(() => {
+    try {
+      const payload = parseHex('Data', data);
+      if (payload.length > MAX_DATA_LENGTH) {
+        return { frame: null, error: `Data is ${payload.length} bytes; LEN allows at most ${MAX_DATA_LENGTH}` };
+      }
+      return { frame: buildCommand(parseByte('CMD', cmd), parseByte('CLASS', classId), parseByte('IDENT', ident), payload) };
+    } catch (error) {
+      return { frame: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [cmd, classId, ident, data]);
+
+  const rawComposed = useMemo<Composed>(() => {
+    try {
+      const frame = parseHex('Frame', raw);
+      return frame.length > 0 ? { frame } : { frame: null, error: 'Enter a frame' };
+    } catch (error) {
+      return { frame: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [raw]);
+
+  const current = rawMode ? rawComposed : composed;
+
+  useEffect(() => {
+    onChange(current.frame);
+  }, [current, onChange]);
+
+  const handleRawMode = (enabled: boolean) => {
+    // Start the override from the composed frame so it only needs tweaking
+    if (enabled && composed.frame && !raw) {
+      setRaw(toHex(composed.frame));
+    }
+    setRawMode(enabled);
+  };
+
+  const handleClass = (value: string) => {
+    setClassId(value);
+    const first = KNOWN_COMMANDS.find(command => hexByte(command.classId) === value);
+    if (first) {
+      setIdent(hexByte(first.ident));
+    }
+  };
+
+  const dissected = current.frame ? dissectFrame(current.frame) : null;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {!rawMode && (
+        <div className="flex flex-wrap items-end gap-3">
+          <ByteField
+            label="CMD"
+            value={cmd}
+            options={[{ value: CMD_EXECUTE, label: 'Execute' }]}
+            onChange={setCmd}
+          />
+          <ByteField
+            label="CLASS"
+            value={classId}
+            options={KNOWN_CLASSES.map(({ name, classId }) => ({ value: classId, label: name }))}
+            onChange={handleClass}
+          />
+          <ByteField label="IDENT" value={ident} options={identOptions} onChange={setIdent} />
+          <label className="flex-1 min-w-64">
+            <span className="block text-gray-400 mb-1">Data</span>
+            <input
+              type="text"
+              value={data}
+              onChange={(e) => setData(e.target.value.toUpperCase())}
+              placeholder={example ?? 'No data'}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 font-mono text-white"
+            />
+          </label>
+        </div>
+      )}
+
+      {rawMode && (
+        <input
+          type="text"
+          value={raw}
+          onChange={(e) => setRaw(e.target.value.toUpperCase())}
+          placeholder="80 02 01 01 00 50 3F"
+          className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 font-mono text-white"
+        />
+      )}
+
+      <label className="flex items-center gap-2 text-gray-400">
+        <input type="checkbox" checked={rawMode} onChange={(e) => handleRawMode(e.target.checked)} />
+        Raw frame (sent as typed, LEN and CRC are not recomputed)
+      </label>
+
+      {current.error ? (
+        <p className="text-red-400">{current.error}</p>
+      ) : current.frame && (
+        <div className="font-mono bg-gray-900 rounded p-2">
+          <FramePreview frame={current.frame} />
+          {dissected && (
+            <div className={dissected.crcValid === false ? 'text-red-400' : 'text-gray-400'}>
+              {dissected.summary}
+              {rawMode && dissected.crcValid === false && ` (expected CRC ${expectedCrc(current.frame)})`}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ByteFieldProps {
+  label: string;
+  value: string;
+  options: ByteOption[];
+  onChange: (value: string) => void;
+}
+
+/**
+ * Known constant from a list, or any byte typed in hex
+ */
+function ByteField({ label, value, options, onChange }: ByteFieldProps) {
+  const known = options.some(option => hexByte(option.value) === value);
+  return (
+    <label>
+      <span className="block text-gray-400 mb-1">{label}</span>
+      <div className="flex gap-1">
+        <select
+          value={known ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded px-2 py-2 text-white"
+        >
+          {options.map(option => (
+            <option key={option.value} value={hexByte(option.value)}>
+              {hexByte(option.value)} {option.label}
+            </option>
+          ))}
+          <option value="">Other…</option>
+        </select>
+        {!known && (
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => onChange(e.target.value.toUpperCase())}
+            placeholder="00"
+            maxLength={2}
+            className="w-12 bg-gray-700 border border-gray-600 rounded px-2 py-2 font-mono text-white"
+          />
+        )}
+      </div>
+    </label>
+  );
+}
+
+/**
+ * Frame bytes coloured by field, with LEN, terminator and CRC highlighted
+ */
+function FramePreview({ frame }: { frame: Uint8Array }) {
+  const dataEnd = Math.max(4, frame.length - 3);
+  const parts: [string, Uint8Array][] = [
+    ['text-orange-400', frame.subarray(0, 1)],
+    ['text-yellow-300', frame.subarray(1, 2)],
+    ['text-cyan-400', frame.subarray(2, 4)],
+    ['text-white', frame.subarray(4, dataEnd)],
+    ['text-gray-500', frame.subarray(dataEnd, dataEnd + 1)],
+    ['text-green-400', frame.subarray(dataEnd + 1)],
+  ];
+  return (
+    <div className="break-all">
+      {parts.filter(([, bytes]) => bytes.length > 0).map(([color, bytes], i) => (
+        <span key={i} className={`${color} mr-2`}>{toHex(bytes)}</span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * fromHex with the field name in the error message
+ */
+function parseHex(name: string, text: string): Uint8Array {
+  try {
+    return fromHex(text);
+  } catch (error) {
+    throw new Error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function parseByte(name: string, text: string): number {
+  const bytes = parseHex(name, text);
+  if (bytes.length !== 1) {
+    throw new Error(`${name} must be exactly one byte (got ${bytes.length})`);
+  }
+  return bytes[0];
+}
+
+function expectedCrc(frame: Uint8Array): string {
+  const crc = crc16X25(frame.subarray(0, frame.length - 2));
+  return toHex(new Uint8Array([crc & 0xff, crc >> 8]));
+}
+
+function hexByte(b: number): string {
+  return b.toString(16).padStart(2, '0').toUpperCase();
+}
+
+export default FrameComposer;
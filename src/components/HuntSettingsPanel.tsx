@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { buildHuntCommand, toHex } from '../lib/nfc-device';
+import { dissectFrame } from '../lib/dissector';
+import {
+  DEFAULT_HUNT_SETTINGS,
+  HUNT_SETTING_RANGES,
+  HuntSettings,
+  huntSettingsErrors,
+} from '../lib/hunt-settings';
+
+interface HuntSettingsPanelProps {
+  settings: HuntSettings;
+  onChange: (settings: HuntSettings) => void;
+  /**
+   * A running continuous hunt keeps the settings it started with
+   */
+  disabled?: boolean;
+}
+
+function HuntSettingsPanel({ settings, onChange, disabled = false }: HuntSettingsPanelProps) {
+  // Bumped on reset so the hex inputs drop what was typed
+  const [revision, setRevision] = useState<number>(0);
+
+  const set = <K extends keyof HuntSettings>(name: K, value: HuntSettings[K]) => {
+    onChange({ ...settings, [name]: value });
+  };
+
+  const handleReset = () => {
+    onChange(DEFAULT_HUNT_SETTINGS);
+    setRevision(r => r + 1);
+  };
+
+  const errors = huntSettingsErrors(settings);
+  const dissected = errors.length === 0 ? dissectFrame(buildHuntCommand(settings)) : null;
+  const dataFields = dissected?.fields.find(field => field.name === 'DATA')?.children ?? [];
+
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 text-white disabled:text-gray-500';
+
+  return (
+    <details className="mt-4 text-sm">
+      <summary className="cursor-pointer text-gray-400 hover:text-gray-200">Hunt settings</summary>
+
+      <fieldset disabled={disabled} className="mt-3 space-y-4">
+        <div className="flex flex-wrap gap-4 text-gray-300">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.isoa} onChange={(e) => set('isoa', e.target.checked)} />
+            ISO 14443-A
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.isob} onChange={(e) => set('isob', e.target.checked)} />
+            ISO 14443-B
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.mifare} onChange={(e) => set('mifare', e.target.checked)} />
+            MIFARE
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <label className="text-gray-400">
+            Antenna
+            <select
+              value={settings.antenna}
+              onChange={(e) => set('antenna', Number(e.target.value))}
+              className={inputClass}
+            >
+              {[1, 2, 3, 4].map(antenna => (
+                <option key={antenna} value={antenna}>{antenna}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-gray-400">
+            Search timeout (ms)
+            <input
+              type="number"
+              min={0}
+              max={HUNT_SETTING_RANGES.timeout10ms[1] * 10}
+              step={10}
+              value={settings.timeout10ms * 10}
+              onChange={(e) => set('timeout10ms', Math.round(Number(e.target.value) / 10))}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-gray-400">
+            Previous card
+            <select
+              value={settings.forget ? 'forget' : 'remember'}
+              onChange={(e) => set('forget', e.target.value === 'forget')}
+              className={inputClass}
+            >
+              <option value="forget">Forget</option>
+              <option value="remember">Remember</option>
+            </select>
+          </label>
+          <label className="text-gray-400">
+            Poll interval (ms)
+            <input
+              type="number"
+              min={HUNT_SETTING_RANGES.pollInterval[0]}
+              max={HUNT_SETTING_RANGES.pollInterval[1]}
+              step={10}
+              value={settings.pollInterval}
+              onChange={(e) => set('pollInterval', Number(e.target.value))}
+              className={inputClass}
+            />
+          </label>
+          <HexByteInput key={`contact-${revision}`} label="CONT" value={settings.contact} onChange={(value) => set('contact', value)} />
+          <HexByteInput key={`config-${revision}`} label="CONFIG" value={settings.config} onChange={(value) => set('config', value)} />
+          <HexByteInput key={`flags-${revision}`} label="FLAGS" value={settings.flags} onChange={(value) => set('flags', value)} />
+          <div className="flex items-end">
+            <button
+              type="button"
+              onClick={handleReset}
+              className="text-gray-400 hover:text-white px-3 py-1 border border-gray-600 rounded hover:border-gray-500 transition-colors"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+
+        <p className="text-gray-500">
+          Manual hunts use these values as they are. A continuous hunt sets FORGET itself, so a card
+          that stays in the field is reported once, and polls less often while nothing changes.
+        </p>
+      </fieldset>
+
+      {errors.length > 0 ? (
+        <ul className="mt-3 text-red-400">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      ) : dissected && (
+        <div className="mt-3 font-mono bg-gray-900 rounded p-2">
+          <div className="text-white break-all">{toHex(buildHuntCommand(settings))}</div>
+          <div className="text-gray-400">{dissected.summary}</div>
+          <ul className="mt-1 grid grid-cols-2 md:grid-cols-4 gap-x-4 text-gray-300">
+            {dataFields.map(field => (
+              <li key={field.name}>
+                <span className="text-cyan-400">{field.name}</span> {field.hex}
+                {field.value && <span className="text-gray-500"> {field.value}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </details>
+  );
+}
+
+interface HexByteInputProps {
+  label: string;
+  value: number;
+  /**
+   * NaN while the text is not a single hex byte
+   */
+  onChange: (value: number) => void;
+}
+
+function HexByteInput({ label, value, onChange }: HexByteInputProps) {
+  const [text, setText] = useState<string>(hexByte(value));
+
+  const handleChange = (next: string) => {
+    const upper = next.toUpperCase();
+    setText(upper);
+    onChange(/^[0-9A-F]{1,2}$/.test(upper) ? parseInt(upper, 16) : NaN);
+  };
+
+  return (
+    <label className="text-gray-400">
+      {label} (hex)
+      <input
+        type="text"
+        value={text}
+        maxLength={2}
+        onChange={(e) => handleChange(e.target.value)}
+        className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 font-mono text-white disabled:text-gray-500"
+      />
+    </label>
+  );
+}
+
+function hexByte(b: number): string {
+  return b.toString(16).padStart(2, '0').toUpperCase();
+}
+
+export default HuntSettingsPanel;
@@ -0,0 +1,319 @@
+import { useState } from 'react';
+import { NfcDevice, NfcCommandResult, fromHex, toHex } from '../lib/nfc-device';
+import { COMMAND_PRIORITY } from '../lib/command-queue';
+import {
+  MifareKeyType,
+  DEFAULT_MIFARE_KEYS,
+  authenticateSector,
+  blocksInSector,
+  decodeAccessBits,
+  decodeValueBlock,
+  decrementValue,
+  firstBlockOfSector,
+  incrementValue,
+  isTrailerBlock,
+  loadMifareKey,
+  mifareSectorCount,
+  readBlock,
+  restoreValue,
+  writeBlock,
+} from '../lib/mifare';
+
+type PanelLogType = 'info' | 'success' | 'error' | 'command' | 'response';
+
+interface MifarePanelProps {
+  device: NfcDevice;
+  sak: string;
+  disabled: boolean;
+  onLog: (type: PanelLogType, message: string) => void;
+}
+
+// Reader key slot used by the editor
+const EDITOR_KEY_SLOT = 0;
+
+const USER = { priority: COMMAND_PRIORITY.USER };
+
+function MifarePanel({ device, sak, disabled, onLog }: MifarePanelProps) {
+  const [key, setKey] = useState<string>(DEFAULT_MIFARE_KEYS[0]);
+  const [keyType, setKeyType] = useState<MifareKeyType>('A');
+  const [sector, setSector] = useState<number>(0);
+  const [blocks, setBlocks] = useState<Record<number, string>>({});
+  const [busy, setBusy] = useState<boolean>(false);
+  const [valueAmount, setValueAmount] = useState<string>('1');
+
+  const sectorCount = mifareSectorCount(parseInt(sak, 16));
+  const firstBlock = firstBlockOfSector(sector);
+  const blockNumbers = Array.from({ length: blocksInSector(sector) }, (_, i) => firstBlock + i);
+
+  // Log a result, with the status catalogue hint on failure
+  const report = (result: NfcCommandResult) => {
+    onLog(result.success ? 'success' : 'error', result.message);
+    if (!result.success && result.status?.hint) {
+      onLog('info', `Hint: ${result.status.hint}`);
+    }
+  };
+
+  // Load the key and authenticate the current sector
+  const authenticate = async (): Promise<boolean> => {
+    const loaded = await loadMifareKey(device, EDITOR_KEY_SLOT, key, USER);
+    if (!loaded.success) {
+      report(loaded);
+      return false;
+    }
+    const auth = await authenticateSector(device, sector, keyType, EDITOR_KEY_SLOT, USER);
+    report(auth);
+    return auth.success;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReadSector = () => run(async () => {
+    onLog('command', `MIFARE read sector ${sector} with key ${keyType}`);
+    if (!(await authenticate())) return;
+
+    const next: Record<number, string> = {};
+    for (const block of blockNumbers) {
+      const result = await readBlock(device, block, USER);
+      if (!result.success || !result.hexData) {
+        report(result);
+        return;
+      }
+      next[block] = result.hexData;
+      onLog('response', `Block ${block}: ${result.hexData}`);
+    }
+    setBlocks(prev => ({ ...prev, ...next }));
+  });
+
+  const handleWriteBlock = (block: number) => run(async () => {
+    const bytes = parseBlock(blocks[block]);
+    if (!bytes) {
+      onLog('error', `Block ${block}: enter exactly 16 hex bytes`);
+      return;
+    }
+    const trailer = isTrailerBlock(block);
+    if (trailer && !window.confirm(`Block ${block} is a sector trailer. Wrong keys or access bits lock the sector permanently. Write anyway?`)) {
+      return;
+    }
+    onLog('command', `MIFARE write block ${block}: ${toHex(bytes)}`);
+    if (!(await authenticate())) return;
+    const result = await writeBlock(device, block, bytes, { ...USER, allowTrailer: trailer });
+    report(result);
+  });
+
+  const handleValue = (block: number, operation: 'increment' | 'decrement' | 'restore') => run(async () => {
+    const amount = parseInt(valueAmount, 10);
+    if (operation !== 'restore' && (!Number.isInteger(amount) || amount < 0)) {
+      onLog('error', 'Value amount must be a positive integer');
+      return;
+    }
+    onLog('command', `MIFARE ${operation} block ${block}${operation === 'restore' ? '' : ` by ${amount}`}`);
+    if (!(await authenticate())) return;
+
+    const result = operation === 'increment'
+      ? await incrementValue(device, block, amount, block, USER)
+      : operation === 'decrement'
+      ? await decrementValue(device, block, amount, block, USER)
+      : await restoreValue(device, block, block, USER);
+    report(result);
+    if (!result.success) return;
+
+    const reread = await readBlock(device, block, USER);
+    if (reread.success && reread.hexData) {
+      setBlocks(prev => ({ ...prev, [block]: reread.hexData! }));
+    }
+  });
+
+  const updateBlock = (block: number, hex: string) => {
+    setBlocks(prev => ({ ...prev, [block]: hex.toUpperCase() }));
+  };
+
+  const updateAscii = (block: number, ascii: string) => {
+    const current = parseBlock(blocks[block]);
+    if (!current) return;
+    // Only characters the user changed are written back, so '.' placeholders
+    // for unprintable bytes keep their original value
+    const shown = toAscii(current);
+    const next = current.slice();
+    for (let i = 0; i < Math.min(ascii.length, 16); i++) {
+      const code = ascii.charCodeAt(i);
+      if (ascii[i] !== shown[i] && code >= 0x20 && code < 0x7f) {
+        next[i] = code;
+      }
+    }
+    updateBlock(block, toHex(next));
+  };
+
+  const locked = disabled || busy;
+
+  return (
+    <section className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4 text-blue-300">MIFARE Classic</h2>
+
+      {disabled && (
+        <p className="text-yellow-400 text-sm mb-3">
+          Stop the continuous hunt first: every hunt ends the authenticated session.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <label className="text-gray-400" htmlFor="mifare-sector">Sector</label>
+        <select
+          id="mifare-sector"
+          value={sector}
+          onChange={(e) => setSector(Number(e.target.value))}
+          className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+        >
+          {Array.from({ length: sectorCount }, (_, i) => (
+            <option key={i} value={i}>{i}</option>
+          ))}
+        </select>
+        <label className="text-gray-400" htmlFor="mifare-key">Key</label>
+        <input
+          id="mifare-key"
+          type="text"
+          value={key}
+          list="mifare-default-keys"
+          onChange={(e) => setKey(e.target.value.toUpperCase())}
+          className="w-48 bg-gray-700 border border-gray-600 rounded px-2 py-1 font-mono text-white"
+        />
+        <datalist id="mifare-default-keys">
+          {DEFAULT_MIFARE_KEYS.map(k => <option key={k} value={k} />)}
+        </datalist>
+        <select
+          value={keyType}
+          onChange={(e) => setKeyType(e.target.value as MifareKeyType)}
+          className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+        >
+          <option value="A">Key A</option>
+          <option value="B">Key B</option>
+        </select>
+        <button
+          onClick={handleReadSector}
+          disabled={locked}
+          className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-1 rounded-lg font-medium transition-colors"
+        >
+          Read sector
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full font-mono text-sm">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="pr-3 font-normal">Block</th>
+              <th className="pr-3 font-normal">Hex</th>
+              <th className="pr-3 font-normal">ASCII</th>
+              <th className="font-normal"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {blockNumbers.map(block => {
+              const hex = blocks[block] ?? '';
+              const bytes = parseBlock(hex);
+              const trailer = isTrailerBlock(block);
+              const access = trailer && bytes ? decodeAccessBits(bytes) : null;
+              const value = !trailer && bytes ? decodeValueBlock(bytes) : null;
+
+              return (
+                <tr key={block} className="align-top">
+                  <td className={`pr-3 py-1 ${trailer ? 'text-yellow-400' : 'text-gray-400'}`}>
+                    {block}{trailer && ' T'}
+                  </td>
+                  <td className="pr-3 py-1">
+                    <input
+                      type="text"
+                      value={hex}
+                      onChange={(e) => updateBlock(block, e.target.value)}
+                      placeholder="-- not read --"
+                      className={`w-full min-w-96 bg-gray-700 border rounded px-2 py-1 text-white ${
+                        hex && !bytes ? 'border-red-500' : 'border-gray-600'
+                      }`}
+                    />
+                    {access && (
+                      <div className={`mt-1 text-xs ${access.valid ? 'text-gray-400' : 'text-red-400'}`}>
+                        {!access.valid && <div>Access bits are inconsistent</div>}
+                        {access.blocks.map((condition, i) => (
+                          <div key={i}>
+                            {i === 3 ? 'Trailer' : accessGroupLabel(sector, i)} [C1C2C3={condition.bits}]: {condition.description}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {value && (
+                      <div className="mt-1 text-xs text-cyan-400 flex items-center gap-2">
+                        <span>Value block: {value.value} (addr {value.address})</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={valueAmount}
+                          onChange={(e) => setValueAmount(e.target.value)}
+                          className="w-20 bg-gray-700 border border-gray-600 rounded px-1 text-white"
+                        />
+                        <button onClick={() => handleValue(block, 'increment')} disabled={locked} className="px-2 border border-gray-600 rounded hover:border-gray-400">+</button>
+                        <button onClick={() => handleValue(block, 'decrement')} disabled={locked} className="px-2 border border-gray-600 rounded hover:border-gray-400">−</button>
+                        <button onClick={() => handleValue(block, 'restore')} disabled={locked} className="px-2 border border-gray-600 rounded hover:border-gray-400">Restore</button>
+                      </div>
+                    )}
+                  </td>
+                  <td className="pr-3 py-1">
+                    <input
+                      type="text"
+                      value={bytes ? toAscii(bytes) : ''}
+                      onChange={(e) => updateAscii(block, e.target.value)}
+                      disabled={!bytes}
+                      maxLength={16}
+                      className="w-40 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white disabled:opacity-50"
+                    />
+                  </td>
+                  <td className="py-1">
+                    <button
+                      onClick={() => handleWriteBlock(block)}
+                      disabled={locked || !bytes || block === 0}
+                      className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed"
+                    >
+                      Write
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+/**
+ * Data blocks covered by one access condition: a single block, or a group of
+ * five on the 16-block sectors of 4K cards
+ */
+function accessGroupLabel(sector: number, group: number): string {
+  const first = firstBlockOfSector(sector);
+  if (blocksInSector(sector) === 4) {
+    return `Block ${first + group}`;
+  }
+  return `Blocks ${first + group * 5}-${first + group * 5 + 4}`;
+}
+
+function parseBlock(hex: string | undefined): Uint8Array | null {
+  if (!hex) return null;
+  const clean = hex.replace(/\s+/g, '');
+  if (!/^[0-9a-fA-F]{32}$/.test(clean)) return null;
+  return fromHex(clean);
+}
+
+function toAscii(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'))
+    .join('');
+}
+
+export default MifarePanel;
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { NfcDevice } from '../lib/nfc-device';
+import { COMMAND_PRIORITY } from '../lib/command-queue';
+import { createTextRecord, createUriRecord, describeNdefRecord } from '../lib/ndef';
+import { NdefReadResult, writeNdef } from '../lib/ndef-tag';
+
+type PanelLogType = 'info' | 'success' | 'error' | 'command' | 'response';
+
+interface NdefPanelProps {
+  device: NfcDevice;
+  ndef: NdefReadResult;
+  disabled: boolean;
+  onLog: (type: PanelLogType, message: string) => void;
+  onWritten: () => void;
+}
+
+function NdefPanel({ device, ndef, disabled, onLog, onWritten }: NdefPanelProps) {
+  const [recordType, setRecordType] = useState<'uri' | 'text'>('uri');
+  const [value, setValue] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const handleWrite = async () => {
+    setBusy(true);
+    try {
+      const record = recordType === 'uri' ? createUriRecord(value) : createTextRecord(value);
+      onLog('command', `NDEF write ${recordType === 'uri' ? 'URI' : 'Text'}: ${value}`);
+      const result = await writeNdef(device, [record], { priority: COMMAND_PRIORITY.USER });
+      onLog(result.success ? 'success' : 'error', result.message);
+      if (result.success) {
+        onWritten();
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const tagLabel = ndef.tagType === 'type2' ? 'Type 2' : 'Type 4';
+
+  return (
+    <div className="mt-4 pt-4 border-t border-green-500/30 text-sm">
+      <div className="text-gray-400 mb-1">
+        NDEF ({tagLabel}): {ndef.info}
+        {ndef.success && !ndef.writable && <span className="ml-2 text-yellow-400">read-only</span>}
+      </div>
+      {ndef.records && ndef.records.length > 0 && (
+        <ul className="font-mono text-green-300 mb-3 space-y-1">
+          {ndef.records.map((record, i) => (
+            <li key={i} className="break-all">{describeNdefRecord(record)}</li>
+          ))}
+        </ul>
+      )}
+      {ndef.success && ndef.writable && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={recordType}
+            onChange={(e) => setRecordType(e.target.value as 'uri' | 'text')}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+          >
+            <option value="uri">URL</option>
+            <option value="text">Text</option>
+          </select>
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={recordType === 'uri' ? 'https://example.com' : 'Hello'}
+            className="flex-1 min-w-48 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+          />
+          <button
+            onClick={handleWrite}
+            disabled={disabled || busy || !value}
+            className="bg-green-700 hover:bg-green-600 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-1 rounded-lg font-medium transition-colors"
+          >
+            Write NDEF
+          </button>
+          {disabled && <span className="text-yellow-400">Stop the continuous hunt to write</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NdefPanel;
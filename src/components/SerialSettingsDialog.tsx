@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import {
+  AUTO_DETECT_BAUD_RATES,
+  SERIAL_BAUD_RATES,
+  SerialSettings,
+  describeSerialOptions,
+} from '../lib/web-serial';
+
+// Chrome opens ports with a 255-byte buffer unless told otherwise
+const DEFAULT_BUFFER_SIZE = 255;
+
+interface SerialSettingsDialogProps {
+  initial: SerialSettings;
+  /**
+   * Called from the Connect click, so the port chooser can open
+   */
+  onConnect: (settings: SerialSettings) => void;
+  onCancel: () => void;
+}
+
+function SerialSettingsDialog({ initial, onConnect, onCancel }: SerialSettingsDialogProps) {
+  const [settings, setSettings] = useState<SerialSettings>(initial);
+  const { options, autoDetect } = settings;
+
+  const setOption = <K extends keyof SerialOptions>(name: K, value: SerialOptions[K]) => {
+    setSettings(current => ({ ...current, options: { ...current.options, [name]: value } }));
+  };
+
+  const bufferValid = options.bufferSize === undefined || (Number.isInteger(options.bufferSize) && options.bufferSize > 0);
+
+  const selectClass = 'w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 text-white';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-10" onClick={onCancel}>
+      <div
+        role="dialog"
+        aria-labelledby="serial-settings-title"
+        className="bg-gray-800 rounded-lg p-6 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onCancel();
+        }}
+      >
+        <h2 id="serial-settings-title" className="text-xl font-semibold mb-4 text-blue-300">Serial Connection</h2>
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <label className="text-gray-400">
+            Baud rate
+            <select
+              value={options.baudRate}
+              disabled={autoDetect}
+              onChange={(e) => setOption('baudRate', Number(e.target.value))}
+              className={`${selectClass} disabled:text-gray-500`}
+            >
+              {SERIAL_BAUD_RATES.map(rate => (
+                <option key={rate} value={rate}>{rate}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-end gap-2 pb-1 text-gray-300">
+            <input
+              type="checkbox"
+              checked={autoDetect}
+              onChange={(e) => setSettings(current => ({ ...current, autoDetect: e.target.checked }))}
+            />
+            Auto-detect
+          </label>
+
+          <label className="text-gray-400">
+            Data bits
+            <select
+              value={options.dataBits ?? 8}
+              onChange={(e) => setOption('dataBits', Number(e.target.value) as 7 | 8)}
+              className={selectClass}
+            >
+              <option value={8}>8</option>
+              <option value={7}>7</option>
+            </select>
+          </label>
+          <label className="text-gray-400">
+            Parity
+            <select
+              value={options.parity ?? 'none'}
+              onChange={(e) => setOption('parity', e.target.value as SerialOptions['parity'])}
+              className={selectClass}
+            >
+              <option value="none">None</option>
+              <option value="even">Even</option>
+              <option value="odd">Odd</option>
+            </select>
+          </label>
+
+          <label className="text-gray-400">
+            Stop bits
+            <select
+              value={options.stopBits ?? 1}
+              onChange={(e) => setOption('stopBits', Number(e.target.value) as 1 | 2)}
+              className={selectClass}
+            >
+              <option value={1}>1</option>
+              <option value={2}>2</option>
+            </select>
+          </label>
+          <label className="text-gray-400">
+            Flow control
+            <select
+              value={options.flowControl ?? 'none'}
+              onChange={(e) => setOption('flowControl', e.target.value as SerialOptions['flowControl'])}
+              className={selectClass}
+            >
+              <option value="none">None</option>
+              <option value="hardware">Hardware (RTS/CTS)</option>
+            </select>
+          </label>
+
+          <label className="text-gray-400 col-span-2">
+            Buffer size (bytes)
+            <input
+              type="number"
+              min={1}
+              value={options.bufferSize ?? ''}
+              placeholder={String(DEFAULT_BUFFER_SIZE)}
+              onChange={(e) => setOption('bufferSize', e.target.value === '' ? undefined : Number(e.target.value))}
+              className={`${selectClass} ${bufferValid ? '' : 'border-red-500'}`}
+            />
+          </label>
+        </div>
+
+        <p className="mt-4 text-sm text-gray-400">
+          {autoDetect
+            ? `Tries ${AUTO_DETECT_BAUD_RATES.join(', ')} baud until the reader answers GET_VERSION.`
+            : describeSerialOptions(options)}
+        </p>
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConnect(settings)}
+            disabled={!bufferValid}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-6 py-2 rounded-lg font-medium transition-colors"
+          >
+            Choose port
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SerialSettingsDialog;
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { COM_TYPE, cardHunt, createNfcDevice, fromHex } from './nfc-device';
+import { VirtualCard, createSimulatedTransport } from './simulated-reader';
+import { MAX_APDU_LENGTH, buildIsoCommand, sendCardApdu, supportsIsoDep } from './apdu';
+
+async function deviceWithCard(card: VirtualCard) {
+  const transport = createSimulatedTransport({ cards: [card], latency: 1 });
+  await transport.open();
+  transport.presentCard(card);
+  const device = createNfcDevice(transport);
+  expect((await cardHunt(device, { timeout10ms: 1 })).success).toBe(true);
+  return { transport, device };
+}
+
+const isoCard = (apdu: (apdu: Uint8Array) => Uint8Array): VirtualCard => ({
+  label: 'Test card',
+  uid: '12 34 56 78',
+  atqa: '00 04',
+  sak: 0x20,
+  comType: COM_TYPE.ISOA,
+  ats: '05 78 80 70 02',
+  apdu,
+});
+
+describe('buildIsoCommand', () => {
+  it('rejects empty and oversized APDUs', () => {
+    expect(() => buildIsoCommand(new Uint8Array(0))).toThrow();
+    expect(() => buildIsoCommand(new Uint8Array(MAX_APDU_LENGTH + 1))).toThrow();
+    expect(buildIsoCommand(new Uint8Array(MAX_APDU_LENGTH))[1]).toBe(0xff);
+  });
+});
+
+describe('supportsIsoDep', () => {
+  it('reads the ISO 14443-4 bit of the SAK, and accepts every ISO-B card', () => {
+    expect(supportsIsoDep({ comType: COM_TYPE.ISOA, sak: '20' })).toBe(true);
+    expect(supportsIsoDep({ comType: COM_TYPE.MIFARE, sak: '08' })).toBe(false);
+    expect(supportsIsoDep({ comType: COM_TYPE.ISOB })).toBe(true);
+  });
+});
+
+describe('sendCardApdu', () => {
+  it('returns the card data and status word', async () => {
+    const { device } = await deviceWithCard(isoCard(() => fromHex('CA FE 90 00')));
+    const result = await sendCardApdu(device, '00 A4 04 00 00');
+    expect(result.success).toBe(true);
+    expect(result.sw).toBe('9000');
+    expect(result.hexData).toBe('CA FE');
+  });
+
+  it('follows 61xx with GET RESPONSE and concatenates the parts', async () => {
+    const seen: string[] = [];
+    const { device } = await deviceWithCard(isoCard(apdu => {
+      seen.push(Array.from(apdu.subarray(0, 2), b => b.toString(16)).join(' '));
+      return apdu[1] === 0xc0 ? fromHex('03 04 90 00') : fromHex('01 02 61 02');
+    }));
+
+    const result = await sendCardApdu(device, '00 B2 01 0C 00');
+    expect(result.hexData).toBe('01 02 03 04');
+    expect(result.sw).toBe('9000');
+    expect(seen).toEqual(['0 b2', '0 c0']);
+  });
+
+  it('repeats the command with the Le asked for by 6Cxx', async () => {
+    const { device } = await deviceWithCard(isoCard(apdu =>
+      apdu[4] === 0x02 ? fromHex('AA BB 90 00') : fromHex('6C 02')
+    ));
+
+    const result = await sendCardApdu(device, '00 B0 00 00 00');
+    expect(result.hexData).toBe('AA BB');
+    expect(result.sw).toBe('9000');
+  });
+
+  it('reports a non-9000 status word as a failure', async () => {
+    const { device } = await deviceWithCard(isoCard(() => fromHex('6A 82')));
+    const result = await sendCardApdu(device, '00 A4 04 00 02 3F 00');
+    expect(result.success).toBe(false);
+    expect(result.sw).toBe('6A82');
+  });
+
+  it('refuses to send without a card or with a malformed APDU', async () => {
+    const transport = createSimulatedTransport({ latency: 1 });
+    await transport.open();
+    const device = createNfcDevice(transport);
+    expect((await sendCardApdu(device, '00 A4')).message).toMatch(/No card selected/);
+
+    const { device: withCard } = await deviceWithCard(isoCard(() => fromHex('90 00')));
+    expect((await sendCardApdu(withCard, '00 A4')).message).toMatch(/Invalid APDU/);
+  });
+
+  it('clears the selected card when it left the field', async () => {
+    const { transport, device } = await deviceWithCard(isoCard(() => fromHex('90 00')));
+    transport.removeCard();
+    const result = await sendCardApdu(device, '00 A4 04 00 00');
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/no longer in field/);
+    expect(device.selectedCard).toBeNull();
+  });
+});
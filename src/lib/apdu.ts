@@ -0,0 +1,262 @@
+/**
+ * ISO 14443-4 transparent APDU exchange with the card selected by the last hunt
+ * APDUs are wrapped in the ASK CSC ISO command class; the reader handles the
+ * ISO-DEP block protocol and returns the card's answer after a status byte.
+ * The same class also carries raw ISO 14443-3 frames for non-ISO-DEP tags.
+ */
+
+import {
+  NfcDevice,
+  CMD_EXECUTE,
+  CLASS_ISO,
+  COM_TYPE,
+  ISO_EXCHANGE_APDU,
+  ISO_EXCHANGE_RAW,
+  NfcCommandResult,
+  STATUS_OK,
+  buildCommand,
+  fromHex,
+  responseData,
+  toHex,
+  transceive,
+} from './nfc-device';
+import { CommandOptions } from './command-queue';
+import { FrameError } from './frame';
+import { CSC_STATUS, formatStatus } from './status-codes';
+
+// Largest APDU that fits in one frame: LEN is one byte and counts CLASS + IDENT
+export const MAX_APDU_LENGTH = 0xff - 2;
+
+// Guard against cards that keep answering 61xx forever
+const MAX_GET_RESPONSE = 32;
+
+export interface ApduResult {
+  success: boolean;
+  /**
+   * Response data without SW1/SW2, with chained GET RESPONSE parts concatenated
+   */
+  data?: Uint8Array;
+  sw1?: number;
+  sw2?: number;
+  /**
+   * SW1SW2 as a 4-digit hex string, e.g. "9000"
+   */
+  sw?: string;
+  hexData?: string;
+  message: string;
+}
+
+/**
+ * Build the reader frame carrying an APDU to the selected card
+ */
+export function buildIsoCommand(apdu: Uint8Array): Uint8Array {
+  if (apdu.length === 0 || apdu.length > MAX_APDU_LENGTH) {
+    throw new Error(`APDU length must be 1..${MAX_APDU_LENGTH} bytes (got ${apdu.length})`);
+  }
+  return buildCommand(CMD_EXECUTE, CLASS_ISO, ISO_EXCHANGE_APDU, apdu);
+}
+
+/**
+ * Build the reader frame carrying a raw ISO 14443-3 frame (the reader adds CRC_A)
+ */
+export function buildTransparentCommand(frame: Uint8Array): Uint8Array {
+  if (frame.length === 0 || frame.length > MAX_APDU_LENGTH) {
+    throw new Error(`Frame length must be 1..${MAX_APDU_LENGTH} bytes (got ${frame.length})`);
+  }
+  return buildCommand(CMD_EXECUTE, CLASS_ISO, ISO_EXCHANGE_RAW, frame);
+}
+
+/**
+ * Split the reader's answer into the card response, or report the reader status
+ */
+export function parseIsoResponse(response: Uint8Array): { status: number; card: Uint8Array } {
+  const data = responseData(response);
+  if (data.length === 0) {
+    return { status: -1, card: data };
+  }
+  return { status: data[0], card: data.subarray(1) };
+}
+
+/**
+ * Whether a hunt result describes a card that speaks ISO 14443-4
+ */
+export function supportsIsoDep(card: { comType?: number; sak?: string }): boolean {
+  if (card.comType === COM_TYPE.ISOB) {
+    return true;
+  }
+  // SAK bit 6 (0x20) announces ISO 14443-4 compliance on ISO-A cards
+  const sak = card.sak ? parseInt(card.sak, 16) : 0;
+  return (sak & 0x20) !== 0;
+}
+
+/**
+ * Send an ISO 7816 APDU to the card found by the last hunt.
+ * Follows 61xx (GET RESPONSE) and 6Cxx (wrong Le) so long answers come back whole.
+ */
+export async function sendCardApdu(
+  device: NfcDevice,
+  apdu: Uint8Array | string,
+  options: CommandOptions = {}
+): Promise<ApduResult> {
+  const card = device.selectedCard;
+  if (!card) {
+    return { success: false, message: 'No card selected. Run a card hunt first.' };
+  }
+  if (!supportsIsoDep(card)) {
+    return { success: false, message: `Card ${card.hexData} does not support ISO 14443-4` };
+  }
+
+  let command: Uint8Array;
+  try {
+    command = typeof apdu === 'string' ? fromHex(apdu) : apdu;
+    if (command.length < 4) {
+      throw new Error('an APDU needs at least CLA INS P1 P2');
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: `Invalid APDU: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const chunks: Uint8Array[] = [];
+  let next: Uint8Array | null = command;
+
+  try {
+    for (let round = 0; next && round <= MAX_GET_RESPONSE; round++) {
+      const card = await exchangeApdu(device, next, options);
+      if (card.length < 2) {
+        return {
+          success: false,
+          hexData: toHex(card),
+          message: `Card answer too short (${card.length} bytes)`,
+        };
+      }
+
+      const sw1 = card[card.length - 2];
+      const sw2 = card[card.length - 1];
+      chunks.push(card.subarray(0, card.length - 2));
+      next = null;
+
+      if (sw1 === 0x61) {
+        // More data available: fetch it with GET RESPONSE
+        next = new Uint8Array([command[0] & 0x03, 0xc0, 0x00, 0x00, sw2]);
+        continue;
+      }
+      if (sw1 === 0x6c) {
+        // Wrong Le: repeat the command with the length the card asked for
+        chunks.pop();
+        next = withLe(command, sw2);
+        continue;
+      }
+
+      const data = concat(chunks);
+      const sw = `${hexByte(sw1)}${hexByte(sw2)}`;
+      return {
+        success: sw1 === 0x90 && sw2 === 0x00,
+        data,
+        sw1,
+        sw2,
+        sw,
+        hexData: toHex(data),
+        message: `SW=${sw}${data.length > 0 ? ` (${data.length} bytes)` : ''}`,
+      };
+    }
+
+    return { success: false, message: `Card kept chaining after ${MAX_GET_RESPONSE} GET RESPONSE commands` };
+  } catch (error) {
+    return {
+      success: false,
+      hexData: error instanceof FrameError ? toHex(error.bytes) : undefined,
+      message: `APDU exchange failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Exchange a raw ISO 14443-3 frame with the selected card, e.g. Type 2 READ (30 xx)
+ */
+export async function sendCardFrame(
+  device: NfcDevice,
+  frame: Uint8Array,
+  options: CommandOptions = {}
+): Promise<NfcCommandResult> {
+  if (!device.selectedCard) {
+    return { success: false, message: 'No card selected. Run a card hunt first.' };
+  }
+  try {
+    const card = await exchangeFrame(device, buildTransparentCommand(frame), options);
+    return { success: true, data: card, hexData: toHex(card), message: 'OK' };
+  } catch (error) {
+    return {
+      success: false,
+      hexData: error instanceof FrameError ? toHex(error.bytes) : undefined,
+      message: `Card exchange failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * One APDU round trip. Returns the card answer including SW1/SW2.
+ */
+async function exchangeApdu(
+  device: NfcDevice,
+  apdu: Uint8Array,
+  options: CommandOptions
+): Promise<Uint8Array> {
+  return exchangeFrame(device, buildIsoCommand(apdu), options);
+}
+
+/**
+ * Send an ISO class command and return the card bytes after the reader status
+ */
+async function exchangeFrame(
+  device: NfcDevice,
+  command: Uint8Array,
+  options: CommandOptions
+): Promise<Uint8Array> {
+  const response = await transceive(device, command, 2000, options);
+  if (response.length === 0) {
+    throw new Error('No response from reader');
+  }
+
+  const { status, card } = parseIsoResponse(response);
+  if (status !== STATUS_OK) {
+    if (status === CSC_STATUS.NO_CARD) {
+      device.selectedCard = null;
+      throw new Error('Card no longer in field');
+    }
+    throw new Error(`Reader status: ${formatStatus(status & 0xff)}`);
+  }
+  return card;
+}
+
+/**
+ * Replace or append the Le byte of a short APDU
+ */
+function withLe(apdu: Uint8Array, le: number): Uint8Array {
+  // Case 2 (CLA INS P1 P2 Le) or case 4 (... Lc data Le): drop the old Le
+  const hasLc = apdu.length > 5;
+  const body = hasLc
+    ? apdu.subarray(0, Math.min(apdu.length, 5 + apdu[4]))
+    : apdu.subarray(0, 4);
+  const result = new Uint8Array(body.length + 1);
+  result.set(body);
+  result[body.length] = le;
+  return result;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function hexByte(b: number): string {
+  return b.toString(16).padStart(2, '0').toUpperCase();
+}
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildCommand, cardHunt, createNfcDevice, fromHex, toHex } from './nfc-device';
+import { DEFAULT_VIRTUAL_CARDS, createSimulatedTransport } from './simulated-reader';
+import { setSerialLogCallback } from './log';
+import { readEmvCard } from './emv';
+import { dissectFrame } from './dissector';
+import { maskCardData, maskCardDataInText, maskCardFrame } from './card-data-mask';
+
+const PAN = '47 61 73 90 01 01 00 10';
+const MASKED_PAN = '47 61 73 FF FF FF 00 10';
+
+afterEach(() => setSerialLogCallback(null));
+
+describe('maskCardData', () => {
+  it('keeps the first six and last four digits of tag 5A', () => {
+    expect(toHex(maskCardData(fromHex(`5A 08 ${PAN}`)))).toBe(`5A 08 ${MASKED_PAN}`);
+    // 19-digit PAN padded with F
+    expect(toHex(maskCardData(fromHex('5A 0A 12 34 56 78 90 12 34 56 78 9F'))))
+      .toBe('5A 0A 12 34 56 FF FF FF FF F6 78 9F');
+  });
+
+  it('masks the PAN of track 2 data and keeps the expiry', () => {
+    const track2 = `57 11 ${PAN} D3 01 22 01 11 43 87 80 89`;
+    expect(toHex(maskCardData(fromHex(track2)))).toBe(`57 11 ${MASKED_PAN} D3 01 22 01 11 43 87 80 89`);
+    expect(toHex(maskCardData(fromHex(`9F 6B 12 ${PAN} D3 01 22 01 11 43 87 80 89 1F`))))
+      .toBe(`9F 6B 12 ${MASKED_PAN} D3 01 22 01 11 43 87 80 89 1F`);
+  });
+
+  it('masks the PAN of track 1 data', () => {
+    const track1 = new TextEncoder().encode('B4761739001010010^TEST/CARD^3012');
+    const masked = maskCardData(new Uint8Array([0x56, track1.length, ...track1]));
+    expect(new TextDecoder().decode(masked.subarray(2))).toBe('B476173******0010^TEST/CARD^3012');
+  });
+
+  it('leaves bytes that merely contain a 5A or 57 tag byte untouched', () => {
+    const block = fromHex('5A 08 DE AD BE EF 00 11 22 33 57 02 01 02');
+    expect(maskCardData(block)).toBe(block);
+  });
+});
+
+describe('maskCardFrame', () => {
+  it('recomputes the CRC of a masked response frame', () => {
+    const response = buildCommand(0x01, 0x01, 0x02, fromHex(`01 70 0A 5A 08 ${PAN} 90 00`));
+    response[0] = 0x01;
+    const masked = maskCardFrame(response);
+    expect(toHex(masked)).toContain(MASKED_PAN);
+    expect(dissectFrame(masked).crcValid).toBe(true);
+  });
+
+  it('returns the frame itself when it holds no PAN', () => {
+    const frame = fromHex('01 0B 01 03 00 08 06 00 08 DE AD BE EF 00 EF 8B');
+    expect(maskCardFrame(frame)).toBe(frame);
+  });
+});
+
+describe('maskCardDataInText', () => {
+  it('masks hex dumps inside a log line', () => {
+    expect(maskCardDataInText(`Data: 70 0A 5A 08 ${PAN} (SW=9000)`)).toBe(`Data: 70 0A 5A 08 ${MASKED_PAN} (SW=9000)`);
+    expect(maskCardDataInText('UID: DE AD BE EF')).toBe('UID: DE AD BE EF');
+  });
+});
+
+describe('EMV read', () => {
+  it('never logs the PAN in clear', async () => {
+    const lines: string[] = [];
+    const frames: string[] = [];
+    setSerialLogCallback((_direction, data, frame) => {
+      lines.push(data);
+      if (frame) frames.push(toHex(frame));
+    });
+
+    const card = DEFAULT_VIRTUAL_CARDS.find(c => c.label.startsWith('Contactless payment'))!;
+    const transport = createSimulatedTransport({ latency: 1, chunkSize: 16 });
+    await transport.open();
+    transport.presentCard(card);
+    const device = createNfcDevice(transport);
+    await cardHunt(device, { timeout10ms: 1 });
+
+    const result = await readEmvCard(device);
+    expect(result.success).toBe(true);
+    // The panel still gets the PAN and masks it for display itself
+    expect(result.pan).toBe('4761739001010010');
+
+    expect(lines.some(line => line.includes('(card number masked)'))).toBe(true);
+    expect([...lines, ...frames].filter(text => text.includes(PAN))).toEqual([]);
+    expect(frames.some(frame => frame.includes(MASKED_PAN))).toBe(true);
+  });
+});
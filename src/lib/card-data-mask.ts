@@ -0,0 +1,161 @@
+/**
+ * Masking of payment card numbers in logged bytes
+ * EMV answers carry the PAN in tag 5A and inside the track data (57, 9F6B, 56).
+ * Only the first six and last four digits are kept, as in the EMV panel, before
+ * a frame reaches the TX/RX log, the dissector or a session export.
+ */
+
+import { crc16X25, fromHex, toHex } from './nfc-device';
+
+// Digits kept in clear at each end of the PAN (the PCI DSS display rule)
+const KEEP_FIRST = 6;
+const KEEP_LAST = 4;
+
+// Masked BCD digits become the padding nibble; masked track 1 digits become '*'
+const MASK_NIBBLE = 0x0f;
+const MASK_CHAR = 0x2a;
+
+const MIN_PAN_DIGITS = 12;
+const MAX_PAN_DIGITS = 19;
+
+// Runs of space-separated hex bytes, as written by toHex
+const HEX_RUN = /\b[0-9A-F]{2}(?: [0-9A-F]{2})+\b/g;
+
+interface PanField {
+  /**
+   * Offset just past the field value
+   */
+  end: number;
+  mask(bytes: Uint8Array): void;
+}
+
+/**
+ * Copy of `bytes` with every PAN masked, or `bytes` itself if it holds none
+ */
+export function maskCardData(bytes: Uint8Array): Uint8Array {
+  let masked: Uint8Array | null = null;
+  for (let offset = 0; offset < bytes.length - 1; offset++) {
+    const field = findPanField(bytes, offset);
+    if (!field) continue;
+    masked ??= bytes.slice();
+    field.mask(masked);
+    offset = field.end - 1;
+  }
+  return masked ?? bytes;
+}
+
+/**
+ * Mask the PANs in a reader frame and recompute its CRC so the masked frame
+ * still dissects cleanly. Returns `frame` itself if it holds no PAN.
+ */
+export function maskCardFrame(frame: Uint8Array): Uint8Array {
+  const masked = maskCardData(frame);
+  if (masked === frame) {
+    return frame;
+  }
+
+  let start = 0;
+  while (start < masked.length && masked[start] === 0x10) start++;
+  const total = masked[start + 1] + 5;
+  if (start + total <= masked.length) {
+    const crc = crc16X25(masked.subarray(start, start + total - 2));
+    masked[start + total - 2] = crc & 0xff;
+    masked[start + total - 1] = crc >> 8;
+  }
+  return masked;
+}
+
+/**
+ * Mask the PANs found in the hex dumps of a log line
+ */
+export function maskCardDataInText(text: string): string {
+  return text.replace(HEX_RUN, run => {
+    const bytes = fromHex(run);
+    const masked = maskCardData(bytes);
+    return masked === bytes ? run : toHex(masked);
+  });
+}
+
+function findPanField(bytes: Uint8Array, offset: number): PanField | null {
+  if (bytes[offset] === 0x5a) {
+    return bcdPan(bytes, offset + 1, false);
+  }
+  if (bytes[offset] === 0x57) {
+    return bcdPan(bytes, offset + 1, true);
+  }
+  if (bytes[offset] === 0x9f && bytes[offset + 1] === 0x6b) {
+    return bcdPan(bytes, offset + 2, true);
+  }
+  if (bytes[offset] === 0x56) {
+    return track1Pan(bytes, offset + 1);
+  }
+  return null;
+}
+
+/**
+ * Tag 5A (PAN, padded with F) or track 2 data (PAN, separator D, expiry...)
+ */
+function bcdPan(bytes: Uint8Array, lengthOffset: number, track2: boolean): PanField | null {
+  const length = bytes[lengthOffset];
+  const start = lengthOffset + 1;
+  const end = start + length;
+  if (length === 0 || end > bytes.length) {
+    return null;
+  }
+
+  const nibble = (index: number) => (index % 2 === 0 ? bytes[start + (index >> 1)] >> 4 : bytes[start + (index >> 1)] & 0x0f);
+  let digits = 0;
+  while (digits < length * 2 && nibble(digits) <= 9) digits++;
+  if (digits < MIN_PAN_DIGITS || digits > MAX_PAN_DIGITS) {
+    return null;
+  }
+
+  // What follows the PAN must be the track 2 separator, or only padding
+  if (track2) {
+    if (digits === length * 2 || nibble(digits) !== 0x0d) return null;
+    for (let i = digits + 1; i < length * 2; i++) {
+      if (nibble(i) > 9 && !(nibble(i) === 0x0f && i === length * 2 - 1)) return null;
+    }
+  } else {
+    for (let i = digits; i < length * 2; i++) {
+      if (nibble(i) !== 0x0f) return null;
+    }
+  }
+
+  return {
+    end,
+    mask(target) {
+      for (let i = KEEP_FIRST; i < digits - KEEP_LAST; i++) {
+        const index = start + (i >> 1);
+        target[index] = i % 2 === 0
+          ? (MASK_NIBBLE << 4) | (target[index] & 0x0f)
+          : (target[index] & 0xf0) | MASK_NIBBLE;
+      }
+    },
+  };
+}
+
+/**
+ * Track 1 format B: "B" PAN "^" name "^" expiry...
+ */
+function track1Pan(bytes: Uint8Array, lengthOffset: number): PanField | null {
+  const length = bytes[lengthOffset];
+  const start = lengthOffset + 1;
+  const end = start + length;
+  if (end > bytes.length || bytes[start] !== 0x42) {
+    return null;
+  }
+
+  let digits = 0;
+  while (start + 1 + digits < end && bytes[start + 1 + digits] >= 0x30 && bytes[start + 1 + digits] <= 0x39) digits++;
+  if (digits < MIN_PAN_DIGITS || digits > MAX_PAN_DIGITS || start + 1 + digits >= end || bytes[start + 1 + digits] !== 0x5e) {
+    return null;
+  }
+
+  return {
+    end,
+    mask(target) {
+      target.fill(MASK_CHAR, start + 1 + KEEP_FIRST, start + 1 + digits - KEEP_LAST);
+    },
+  };
+}
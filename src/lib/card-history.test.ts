@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { COM_TYPE } from './nfc-device';
+import { CardHistoryEntry, exportCardHistory, searchCardHistory } from './card-history';
+
+const entries: CardHistoryEntry[] = [
+  {
+    uid: 'DE AD BE EF',
+    atqa: '00 04',
+    sak: '08',
+    comType: COM_TYPE.MIFARE,
+    firstSeen: '2024-05-01T10:00:00.000Z',
+    lastSeen: '2024-05-02T10:00:00.000Z',
+    readCount: 3,
+    label: 'Office badge, "blue"',
+  },
+  {
+    uid: '04 A1 B2 C3 D4 E5 80',
+    atqa: '00 44',
+    sak: '00',
+    comType: COM_TYPE.ISOA,
+    firstSeen: '2024-05-03T10:00:00.000Z',
+    lastSeen: '2024-05-03T10:00:00.000Z',
+    readCount: 1,
+  },
+];
+
+describe('searchCardHistory', () => {
+  it('matches the UID with or without spaces', () => {
+    expect(searchCardHistory(entries, 'adbe')).toEqual([entries[0]]);
+    expect(searchCardHistory(entries, 'B2 C3')).toEqual([entries[1]]);
+  });
+
+  it('matches the label, the exact SAK and the COM type name', () => {
+    expect(searchCardHistory(entries, 'office')).toEqual([entries[0]]);
+    expect(searchCardHistory(entries, '00')).toEqual([entries[1]]);
+    expect(searchCardHistory(entries, 'mifare')).toEqual([entries[0]]);
+    expect(searchCardHistory(entries, 'isoa')).toEqual([entries[1]]);
+  });
+
+  it('returns every entry for a blank query', () => {
+    expect(searchCardHistory(entries, '  ')).toBe(entries);
+  });
+});
+
+describe('exportCardHistory', () => {
+  it('writes one CSV row per entry with quoted labels', () => {
+    expect(exportCardHistory(entries, 'csv').split('\n')).toEqual([
+      'uid,atqa,sak,com_type,first_seen,last_seen,read_count,label',
+      'DE AD BE EF,00 04,08,MIFARE,2024-05-01T10:00:00.000Z,2024-05-02T10:00:00.000Z,3,"Office badge, ""blue"""',
+      '04 A1 B2 C3 D4 E5 80,00 44,00,ISOA,2024-05-03T10:00:00.000Z,2024-05-03T10:00:00.000Z,1,',
+      '',
+    ]);
+  });
+
+  it('writes JSON that reads back to the same entries', () => {
+    expect(JSON.parse(exportCardHistory(entries, 'json'))).toEqual(entries);
+  });
+});
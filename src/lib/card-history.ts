@@ -0,0 +1,155 @@
+/**
+ * Persistent history of detected cards, stored in IndexedDB
+ * One record per UID: identification bytes, first/last seen, read count and
+ * an optional user label.
+ */
+
+import { NfcCommandResult, comTypeName } from './nfc-device';
+import { csvRow } from './session-log';
+
+const DB_NAME = 'nfc-card-history';
+const DB_VERSION = 1;
+const STORE = 'cards';
+
+export interface CardHistoryEntry {
+  uid: string;
+  atqa?: string;
+  sak?: string;
+  comType?: number;
+  /**
+   * ISO timestamps
+   */
+  firstSeen: string;
+  lastSeen: string;
+  readCount: number;
+  label?: string;
+}
+
+export interface CardHistory {
+  /**
+   * Add a read of the card from a hunt result: creates the entry or bumps
+   * its read count and last-seen time
+   */
+  recordRead(card: NfcCommandResult): Promise<CardHistoryEntry | null>;
+  /**
+   * All entries, most recently seen first
+   */
+  list(): Promise<CardHistoryEntry[]>;
+  setLabel(uid: string, label: string): Promise<void>;
+  remove(uid: string): Promise<void>;
+  clear(): Promise<void>;
+  close(): void;
+}
+
+export function isIndexedDbSupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Open (and create on first use) the card history database
+ */
+export async function openCardHistory(name: string = DB_NAME): Promise<CardHistory> {
+  if (!isIndexedDbSupported()) {
+    throw new Error('IndexedDB is not available in this browser');
+  }
+
+  const open = indexedDB.open(name, DB_VERSION);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore(STORE, { keyPath: 'uid' });
+  };
+  const db = await request(open);
+
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE, mode).objectStore(STORE);
+
+  return {
+    async recordRead(card) {
+      if (!card.hexData) return null;
+      const now = new Date().toISOString();
+      const objects = store('readwrite');
+      const existing = await request<CardHistoryEntry | undefined>(objects.get(card.hexData));
+      const entry: CardHistoryEntry = existing
+        ? {
+          ...existing,
+          atqa: card.atqa ?? existing.atqa,
+          sak: card.sak ?? existing.sak,
+          comType: card.comType ?? existing.comType,
+          lastSeen: now,
+          readCount: existing.readCount + 1,
+        }
+        : {
+          uid: card.hexData,
+          atqa: card.atqa,
+          sak: card.sak,
+          comType: card.comType,
+          firstSeen: now,
+          lastSeen: now,
+          readCount: 1,
+        };
+      await request(objects.put(entry));
+      return entry;
+    },
+    async list() {
+      const entries = await request<CardHistoryEntry[]>(store('readonly').getAll());
+      return entries.sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+    },
+    async setLabel(uid, label) {
+      const objects = store('readwrite');
+      const existing = await request<CardHistoryEntry | undefined>(objects.get(uid));
+      if (!existing) return;
+      await request(objects.put({ ...existing, label: label.trim() || undefined }));
+    },
+    async remove(uid) {
+      await request(store('readwrite').delete(uid));
+    },
+    async clear() {
+      await request(store('readwrite').clear());
+    },
+    close() {
+      db.close();
+    },
+  };
+}
+
+/**
+ * Entries whose UID, label, SAK or COM type contain the query (case-insensitive)
+ */
+export function searchCardHistory(entries: CardHistoryEntry[], query: string): CardHistoryEntry[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  const compact = needle.replace(/\s+/g, '');
+  return entries.filter(entry =>
+    entry.uid.toLowerCase().replace(/\s+/g, '').includes(compact) ||
+    entry.label?.toLowerCase().includes(needle) ||
+    entry.sak?.toLowerCase() === needle ||
+    (entry.comType !== undefined && comTypeName(entry.comType).toLowerCase().includes(needle))
+  );
+}
+
+export function exportCardHistory(entries: CardHistoryEntry[], format: 'csv' | 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify(entries, null, 2);
+  }
+  return [
+    csvRow(['uid', 'atqa', 'sak', 'com_type', 'first_seen', 'last_seen', 'read_count', 'label']),
+    ...entries.map(entry => csvRow([
+      entry.uid,
+      entry.atqa ?? '',
+      entry.sak ?? '',
+      entry.comType !== undefined ? comTypeName(entry.comType) : '',
+      entry.firstSeen,
+      entry.lastSeen,
+      String(entry.readCount),
+      entry.label ?? '',
+    ])),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Promise for an IDBRequest
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+  });
+}
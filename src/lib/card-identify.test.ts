@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { COM_TYPE, cardHunt, createNfcDevice, fromHex } from './nfc-device';
+import { DEFAULT_VIRTUAL_CARDS, createSimulatedTransport } from './simulated-reader';
+import { parseAts } from './iso14443a';
+import { identifyCard } from './card-identify';
+
+const ats = (hex: string) => parseAts(fromHex(hex)) ?? undefined;
+
+async function huntCard(label: string) {
+  const card = DEFAULT_VIRTUAL_CARDS.find(c => c.label === label)!;
+  const transport = createSimulatedTransport({ latency: 1 });
+  await transport.open();
+  transport.presentCard(card);
+  const result = await cardHunt(createNfcDevice(transport), { isob: card.comType === COM_TYPE.ISOB, timeout10ms: 1 });
+  expect(result.success).toBe(true);
+  return result;
+}
+
+describe('identifyCard from a hunt answer', () => {
+  it('recognises MIFARE Classic 1K and 4K from SAK and ATQA', async () => {
+    const classic1k = identifyCard(await huntCard('MIFARE Classic 1K'));
+    expect(classic1k.candidates[0]).toEqual({ name: 'MIFARE Classic 1K', confidence: 'high', reason: 'SAK 08, ATQA 00 04' });
+    expect(classic1k.uidKind).toBe('unique');
+
+    expect(identifyCard(await huntCard('MIFARE Classic 4K')).candidates[0].name).toBe('MIFARE Classic 4K');
+  });
+
+  it('confirms an NTAG with the NXP manufacturer byte of its 7-byte UID', async () => {
+    const ntag = identifyCard(await huntCard('NTAG213 (7-byte UID, NDEF text)'));
+    expect(ntag.manufacturer).toBe('NXP Semiconductors');
+    expect(ntag.candidates).toEqual([
+      { name: 'MIFARE Ultralight / NTAG', confidence: 'high', reason: 'SAK 00, ATQA 00 44, NXP UID' },
+    ]);
+  });
+
+  it('recognises DESFire from its ATS without listing it twice', async () => {
+    const desfire = identifyCard(await huntCard('MIFARE DESFire EV1 (7-byte UID)'));
+    expect(desfire.candidates).toEqual([
+      { name: 'MIFARE DESFire EV1/EV2/EV3', confidence: 'high', reason: 'ATS 06 75 77 81 02 80' },
+    ]);
+  });
+
+  it('reports the random UID of a payment card and its ISO 7816-4 historical bytes', async () => {
+    const payment = identifyCard(await huntCard('Contactless payment card (Visa test)'));
+    expect(payment.uidKind).toBe('random');
+    expect(payment.candidates.map(c => c.name)).toEqual(['Java Card / JCOP smart card', 'ISO 14443-4 card']);
+  });
+
+  it('does not apply Type A rules to an ISO-B card', async () => {
+    const isoB = identifyCard(await huntCard('ISO-B card'));
+    expect(isoB.candidates).toHaveLength(1);
+    expect(isoB.candidates[0].name).toMatch(/^ISO 14443-B/);
+    expect(isoB.uidKind).toBeUndefined();
+  });
+});
+
+describe('identifyCard', () => {
+  it('identifies Calypso from the Innovatron protocol or the card issuer data', () => {
+    expect(identifyCard({ comType: COM_TYPE.INNOVATRON }).candidates[0]).toMatchObject({ name: 'Calypso', confidence: 'high' });
+
+    const isoA = identifyCard({ hexData: '11 22 33 44', sak: '20', atqa: '00 04', ats: ats('08 78 80 70 02 80 5A 01 02') });
+    expect(isoA.candidates[0]).toMatchObject({ name: 'Calypso', confidence: 'medium' });
+  });
+
+  it('keeps ATS candidates ahead of the SAK rule', () => {
+    const plus = identifyCard({ hexData: '11 22 33 44', sak: '20', atqa: '00 04', ats: ats('0C 75 77 80 02 C1 05 2F 2F 01 BC D6') });
+    expect(plus.candidates.map(c => c.name)).toEqual(['MIFARE Plus in SL3', 'ISO 14443-4 card']);
+
+    const jcop = identifyCard({ hexData: '11 22 33 44', sak: '28', atqa: '00 04', ats: ats('09 78 77 94 02 4A 43 4F 50') });
+    expect(jcop.candidates.map(c => c.name)).toEqual(['NXP JCOP', 'JCOP / SmartMX with MIFARE Classic 1K emulation']);
+  });
+
+  it('classifies 4-byte UIDs and falls back to an unknown card', () => {
+    const card = identifyCard({ hexData: '3F 01 02 03', sak: '7F' });
+    expect(card.uidKind).toBe('non-unique');
+    expect(card.candidates).toEqual([{ name: 'Unknown ISO 14443-A card', confidence: 'low', reason: 'SAK 7F' }]);
+    expect(card.manufacturer).toBeUndefined();
+  });
+
+  it('names the manufacturer of a 7-byte UID and leaves unknown codes out', () => {
+    expect(identifyCard({ hexData: '05 01 02 03 04 05 06', sak: '88' }).manufacturer).toBe('Infineon Technologies');
+    expect(identifyCard({ hexData: '7E 01 02 03 04 05 06', sak: '88' }).manufacturer).toBeUndefined();
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Likely card product from the hunt answer: SAK and ATQA (NXP AN10833),
+ * ATS historical bytes, and the IC manufacturer byte of the UID (ISO/IEC 7816-6)
+ * Identification is a best guess: several products share the same answers,
+ * and only a product-specific command (GET_VERSION, SELECT) can confirm them.
+ */
+
+import { NfcCommandResult, COM_TYPE, fromHex } from './nfc-device';
+
+export type IdentificationConfidence = 'high' | 'medium' | 'low';
+
+export interface CardCandidate {
+  name: string;
+  confidence: IdentificationConfidence;
+  /**
+   * Values that led to this candidate, e.g. "SAK 08, ATQA 00 04"
+   */
+  reason: string;
+}
+
+export type UidKind = 'unique' | 'random' | 'non-unique';
+
+export interface CardIdentification {
+  /**
+   * Most likely first
+   */
+  candidates: CardCandidate[];
+  manufacturer?: string;
+  uidKind?: UidKind;
+}
+
+type CardAnswer = Pick<NfcCommandResult, 'hexData' | 'atqa' | 'sak' | 'ats' | 'comType' | 'isoB'>;
+
+interface SakRule {
+  sak: number;
+  /**
+   * ATQA values (MSB first) that confirm the rule; any ATQA matches when omitted
+   */
+  atqa?: number[];
+  name: string;
+  confidence: IdentificationConfidence;
+}
+
+// Ordered: the first rule matching SAK and ATQA wins the confidence given here
+const SAK_RULES: SakRule[] = [
+  { sak: 0x09, atqa: [0x0004], name: 'MIFARE Mini', confidence: 'high' },
+  { sak: 0x08, atqa: [0x0004, 0x0044], name: 'MIFARE Classic 1K', confidence: 'high' },
+  { sak: 0x08, name: 'MIFARE Plus 2K/4K in SL1', confidence: 'low' },
+  { sak: 0x18, atqa: [0x0002, 0x0042], name: 'MIFARE Classic 4K', confidence: 'high' },
+  { sak: 0x18, name: 'MIFARE Plus 4K in SL1', confidence: 'low' },
+  { sak: 0x88, name: 'MIFARE Classic 1K (Infineon)', confidence: 'medium' },
+  { sak: 0x10, name: 'MIFARE Plus 2K in SL2', confidence: 'medium' },
+  { sak: 0x11, name: 'MIFARE Plus 4K in SL2', confidence: 'medium' },
+  { sak: 0x00, atqa: [0x0044], name: 'MIFARE Ultralight / NTAG', confidence: 'medium' },
+  { sak: 0x00, name: 'NFC Forum Type 2 tag', confidence: 'low' },
+  { sak: 0x28, name: 'JCOP / SmartMX with MIFARE Classic 1K emulation', confidence: 'medium' },
+  { sak: 0x38, name: 'JCOP / SmartMX with MIFARE Classic 4K emulation', confidence: 'medium' },
+  { sak: 0x98, name: 'SmartMX with MIFARE Classic 4K emulation', confidence: 'medium' },
+  { sak: 0x20, atqa: [0x0344], name: 'MIFARE DESFire EV1/EV2/EV3', confidence: 'medium' },
+  { sak: 0x20, name: 'ISO 14443-4 card', confidence: 'low' },
+];
+
+// ISO/IEC 7816-6 IC manufacturer codes, first byte of 7- and 10-byte UIDs
+const MANUFACTURERS: Record<number, string> = {
+  0x01: 'Motorola',
+  0x02: 'STMicroelectronics',
+  0x03: 'Hitachi',
+  0x04: 'NXP Semiconductors',
+  0x05: 'Infineon Technologies',
+  0x06: 'Cylink',
+  0x07: 'Texas Instruments',
+  0x08: 'Fujitsu',
+  0x09: 'Matsushita',
+  0x0a: 'NEC',
+  0x0b: 'Oki Electric',
+  0x0c: 'Toshiba',
+  0x0d: 'Mitsubishi Electric',
+  0x0e: 'Samsung Electronics',
+  0x0f: 'Hynix',
+  0x10: 'LG Semiconductors',
+  0x11: 'Emosyn-EM Microelectronics',
+  0x12: 'INSIDE Technology',
+  0x13: 'ORGA Kartensysteme',
+  0x14: 'Sharp',
+  0x15: 'Atmel',
+  0x16: 'EM Microelectronic-Marin',
+};
+
+// First byte of a single-size UID that marks a random ID (ISO 14443-3, 6.4.4)
+const RANDOM_UID_PREFIX = 0x08;
+
+// DESFire answers T0 75, TA 77, TB 81, TC 02 and one historical byte 80
+const DESFIRE_ATS_BODY = '75 77 81 02 80';
+
+/**
+ * Identify the card behind a hunt answer
+ */
+export function identifyCard(card: CardAnswer): CardIdentification {
+  const uid = card.hexData ? fromHex(card.hexData) : new Uint8Array(0);
+  const identification: CardIdentification = { candidates: [] };
+
+  if (card.comType === COM_TYPE.INNOVATRON) {
+    identification.candidates.push({ name: 'Calypso', confidence: 'high', reason: 'Innovatron (ISO 14443-B prime) protocol' });
+    return identification;
+  }
+  if (card.isoB || card.comType === COM_TYPE.ISOB) {
+    identification.candidates.push({
+      name: card.isoB?.protocolInfo.isoDep ? 'ISO 14443-B smart card' : 'ISO 14443-B card',
+      confidence: 'low',
+      reason: card.isoB ? `ATQB protocol info ${card.isoB.protocolInfo.raw}` : 'Type B answer',
+    });
+    return identification;
+  }
+
+  // Type A UIDs only: a PUPI carries neither flag
+  if (uid.length === 4) {
+    identification.uidKind = uid[0] === RANDOM_UID_PREFIX
+      ? 'random'
+      : (uid[0] & 0x0f) === 0x0f ? 'non-unique' : 'unique';
+  } else if (uid.length === 7 || uid.length === 10) {
+    identification.uidKind = 'unique';
+    identification.manufacturer = MANUFACTURERS[uid[0]];
+  }
+
+  const historical = card.ats?.historicalBytes ? fromHex(card.ats.historicalBytes) : new Uint8Array(0);
+  identification.candidates.push(...atsCandidates(card, historical));
+
+  if (card.sak) {
+    const sak = parseInt(card.sak, 16);
+    const atqa = card.atqa ? fromHex(card.atqa) : new Uint8Array(0);
+    const atqaValue = atqa.length === 2 ? (atqa[0] << 8) | atqa[1] : undefined;
+    const reason = `SAK ${card.sak}${card.atqa ? `, ATQA ${card.atqa}` : ''}`;
+    const rule = SAK_RULES.find(r => r.sak === sak && (!r.atqa || (atqaValue !== undefined && r.atqa.includes(atqaValue))));
+    if (rule && !identification.candidates.some(c => c.name === rule.name)) {
+      // The ATS is more specific than SAK/ATQA: keep its candidates first
+      const confidence = identification.candidates.length > 0 && rule.confidence === 'high' ? 'medium' : rule.confidence;
+      identification.candidates.push({ name: rule.name, confidence, reason });
+    }
+    if (!rule) {
+      identification.candidates.push({ name: 'Unknown ISO 14443-A card', confidence: 'low', reason });
+    }
+  }
+
+  // NXP Type 2 tags all answer SAK 00 / ATQA 00 44 with an NXP UID
+  const ultralight = identification.candidates.find(c => c.name === 'MIFARE Ultralight / NTAG');
+  if (ultralight && identification.manufacturer === MANUFACTURERS[0x04]) {
+    ultralight.confidence = 'high';
+    ultralight.reason += ', NXP UID';
+  }
+
+  return identification;
+}
+
+/**
+ * Candidates suggested by the ATS of an ISO-DEP card
+ */
+function atsCandidates(card: CardAnswer, historical: Uint8Array): CardCandidate[] {
+  const ats = card.ats;
+  if (!ats) return [];
+  const candidates: CardCandidate[] = [];
+
+  if (ats.raw.slice(3) === DESFIRE_ATS_BODY) {
+    candidates.push({
+      name: 'MIFARE DESFire EV1/EV2/EV3',
+      confidence: card.atqa === '03 44' ? 'high' : 'medium',
+      reason: `ATS ${ats.raw}`,
+    });
+  }
+  if (historical[0] === 0xc1 && historical[1] === 0x05) {
+    candidates.push({
+      name: card.sak === '20' ? 'MIFARE Plus in SL3' : 'MIFARE Plus',
+      confidence: 'high',
+      reason: `Historical bytes ${ats.historicalBytes}`,
+    });
+  }
+  if (asciiIncludes(historical, 'JCOP')) {
+    candidates.push({ name: 'NXP JCOP', confidence: 'high', reason: 'Historical bytes contain "JCOP"' });
+  }
+
+  const headers = compactTlvHeaders(historical);
+  if (headers.includes(0x5a)) {
+    // Calypso puts its startup information in the card issuer's data object
+    candidates.push({ name: 'Calypso', confidence: 'medium', reason: 'Card issuer data (5A) in the historical bytes' });
+  } else if (headers.some(header => header >> 4 === 0x7) && candidates.length === 0) {
+    candidates.push({
+      name: 'Java Card / JCOP smart card',
+      confidence: 'low',
+      reason: 'ISO 7816-4 card capabilities (7x) in the historical bytes',
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Compact-TLV header bytes (tag << 4 | length) of historical bytes in the
+ * ISO 7816-4 formats 00 and 80
+ */
+function compactTlvHeaders(historical: Uint8Array): number[] {
+  const category = historical[0];
+  if (category !== 0x00 && category !== 0x80) return [];
+  // Category 00 ends with a 3-byte status indicator outside the TLV objects
+  const end = category === 0x00 ? historical.length - 3 : historical.length;
+  const headers: number[] = [];
+  for (let i = 1; i < end;) {
+    headers.push(historical[i]);
+    i += 1 + (historical[i] & 0x0f);
+  }
+  return headers;
+}
+
+function asciiIncludes(bytes: Uint8Array, text: string): boolean {
+  return String.fromCharCode(...bytes).includes(text);
+}
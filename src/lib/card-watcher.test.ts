@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { cardHunt, createNfcDevice } from './nfc-device';
+import { createCardWatcher } from './card-watcher';
+import { DEFAULT_VIRTUAL_CARDS, createSimulatedTransport } from './simulated-reader';
+
+const card = DEFAULT_VIRTUAL_CARDS[0];
+
+// Index of the FORGET byte in a hunt command: header, LEN, CLASS, IDENT, then the data block
+const FORGET_OFFSET = 4 + 6;
+
+async function simulatedDevice(reportOnce: boolean = false) {
+  const transport = createSimulatedTransport({ latency: 1, leadingDle: false, reportOnce });
+  await transport.open();
+  // FORGET byte of every hunt sent
+  const forgets: number[] = [];
+  const write = transport.write.bind(transport);
+  transport.write = data => {
+    if (data[2] === 0x01 && data[3] === 0x03) forgets.push(data[FORGET_OFFSET]);
+    return write(data);
+  };
+  return { transport, device: createNfcDevice(transport), forgets };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('simulated reader FORGET', () => {
+  it('does not report a remembered card again unless the hunt forgets it', async () => {
+    const { transport, device } = await simulatedDevice(true);
+    transport.presentCard(card);
+    const hunt = { forget: false, timeout10ms: 1 };
+
+    expect((await cardHunt(device, hunt)).hexData).toBe(card.uid);
+    expect((await cardHunt(device, hunt)).message).toBe('No card in field');
+    expect((await cardHunt(device, { ...hunt, forget: true })).hexData).toBe(card.uid);
+  });
+
+  it('reports the card to every hunt by default', async () => {
+    const { transport, device } = await simulatedDevice();
+    transport.presentCard(card);
+    const hunt = { forget: false, timeout10ms: 1 };
+
+    expect((await cardHunt(device, hunt)).hexData).toBe(card.uid);
+    expect((await cardHunt(device, hunt)).hexData).toBe(card.uid);
+  });
+});
+
+describe.each([
+  ['a reader that answers every hunt', false],
+  ['a reader that stays silent about a reported card', true],
+])('createCardWatcher with %s', (_name, reportOnce) => {
+  it('reports a card left on the reader once, and its removal', async () => {
+    const { transport, device, forgets } = await simulatedDevice(reportOnce);
+    const events: string[] = [];
+    const watcher = createCardWatcher(device, { timeout10ms: 1, minInterval: 2, maxInterval: 5 });
+    watcher.on('cardPresent', found => { events.push(`present ${found.hexData}`); });
+    watcher.on('cardRemoved', removed => { events.push(`removed ${removed.hexData}`); });
+
+    transport.presentCard(card);
+    const running = watcher.start();
+    await wait(150);
+    expect(events).toEqual([`present ${card.uid}`]);
+    // The first hunt forgets any earlier card, the next ones are presence checks
+    expect(forgets[0]).toBe(0x01);
+    expect(forgets[1]).toBe(0x00);
+
+    transport.removeCard();
+    await wait(100);
+    watcher.stop();
+    await running;
+    expect(events).toEqual([`present ${card.uid}`, `removed ${card.uid}`]);
+  });
+});
+
+describe('createCardWatcher', () => {
+  it('stops with the caller signal and lets go of it afterwards', async () => {
+    const { device } = await simulatedDevice();
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const watcher = createCardWatcher(device, { timeout10ms: 1, minInterval: 2 });
+
+    const running = watcher.start(controller.signal);
+    expect(watcher.running).toBe(true);
+    await wait(20);
+    watcher.stop();
+    await running;
+
+    expect(watcher.running).toBe(false);
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
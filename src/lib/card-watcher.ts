@@ -0,0 +1,236 @@
+/**
+ * Card presence watcher
+ * Polls a reader with card hunts and turns the answers into cardPresent and
+ * cardRemoved events. A card has to be seen `presentAfter` hunts in a row to
+ * be reported, and missed `removeAfter` hunts in a row to be reported gone, so
+ * a card at the edge of the field does not flap. While a card is present the
+ * hunts keep it remembered (FORGET 0x00) and an answer with the same UID is a
+ * presence check, not a new card. Readers that stay silent about a card they
+ * already reported answer such a check with "no card", so a miss is only
+ * counted once a hunt with FORGET 0x01 confirms the field is empty.
+ */
+
+import { HuntOptions, NfcCommandResult, NfcDevice, cardHunt } from './nfc-device';
+import { COMMAND_PRIORITY } from './command-queue';
+import { CSC_STATUS } from './status-codes';
+
+// Poll interval right after a change, and its upper bound while nothing happens
+const MIN_INTERVAL = 100;
+const MAX_INTERVAL = 1000;
+
+// Growth of the interval per unchanged poll; errors double it
+const INTERVAL_GROWTH = 1.25;
+
+/**
+ * Hunt parameters of every poll; FORGET is set by the watcher itself
+ */
+export interface CardWatcherOptions extends Omit<HuntOptions, 'forget'> {
+  minInterval?: number;
+  maxInterval?: number;
+  /**
+   * Hunts in a row that must return the same new card before cardPresent
+   */
+  presentAfter?: number;
+  /**
+   * Hunts in a row without the card before cardRemoved
+   */
+  removeAfter?: number;
+}
+
+export interface CardWatcherEvents {
+  /**
+   * Listeners may return a promise: the next hunt waits for it, so they can
+   * exchange commands with the card first
+   */
+  cardPresent: (card: NfcCommandResult) => void | Promise<void>;
+  /**
+   * `status` is the message of the hunt that confirmed the removal
+   */
+  cardRemoved: (card: NfcCommandResult, status: string) => void | Promise<void>;
+  error: (error: CardWatcherError) => void;
+}
+
+export type CardWatcherEvent = keyof CardWatcherEvents;
+
+/**
+ * A hunt that failed for another reason than an empty field
+ */
+export class CardWatcherError extends Error {
+  readonly result?: NfcCommandResult;
+
+  constructor(message: string, result?: NfcCommandResult) {
+    super(message);
+    this.name = 'CardWatcherError';
+    this.result = result;
+  }
+}
+
+export interface CardWatcher {
+  readonly running: boolean;
+  /**
+   * Card last reported present, null when the field is empty
+   */
+  readonly card: NfcCommandResult | null;
+  /**
+   * Poll until stop() is called or the signal aborts. Resolves once the last
+   * hunt has finished; calling it while running returns the same promise.
+   */
+  start(signal?: AbortSignal): Promise<void>;
+  stop(): void;
+  /**
+   * Subscribe to an event. Returns an unsubscribe function.
+   */
+  on<E extends CardWatcherEvent>(event: E, listener: CardWatcherEvents[E]): () => void;
+}
+
+export function createCardWatcher(device: NfcDevice, options: CardWatcherOptions = {}): CardWatcher {
+  const {
+    minInterval = MIN_INTERVAL,
+    maxInterval: maxOption = MAX_INTERVAL,
+    presentAfter = 1,
+    removeAfter = 2,
+    ...hunt
+  } = options;
+  const maxInterval = Math.max(maxOption, minInterval);
+
+  const listeners: { [E in CardWatcherEvent]: Set<CardWatcherEvents[E]> } = {
+    cardPresent: new Set(),
+    cardRemoved: new Set(),
+    error: new Set(),
+  };
+  let card: NfcCommandResult | null = null;
+  let controller: AbortController | null = null;
+  let running: Promise<void> | null = null;
+
+  const emit = async <E extends CardWatcherEvent>(event: E, ...args: Parameters<CardWatcherEvents[E]>) => {
+    for (const listener of listeners[event]) {
+      try {
+        await (listener as (...values: Parameters<CardWatcherEvents[E]>) => unknown)(...args);
+      } catch (error) {
+        console.error(`Card watcher ${event} listener failed`, error);
+      }
+    }
+  };
+
+  const poll = async (signal: AbortSignal) => {
+    let interval = minInterval;
+    // New UID being confirmed, and how many hunts in a row returned it
+    let candidate: string | null = null;
+    let sightings = 0;
+    let misses = 0;
+    // Background priority: manual commands are scheduled ahead of the next hunt
+    const search = (forget: boolean) => cardHunt(device, {
+      ...hunt,
+      forget,
+      priority: COMMAND_PRIORITY.BACKGROUND,
+      signal,
+    });
+
+    while (!signal.aborted) {
+      let changed = false;
+      let failure: CardWatcherError | null = null;
+      try {
+        let result = await search(card === null);
+        if (card && !signal.aborted && result.status?.code === CSC_STATUS.NO_CARD) {
+          result = await search(true);
+        }
+        if (signal.aborted) break;
+
+        if (result.success && result.hexData) {
+          misses = 0;
+          if (result.hexData === card?.hexData) {
+            candidate = null;
+          } else {
+            sightings = result.hexData === candidate ? sightings + 1 : 1;
+            candidate = result.hexData;
+            if (sightings >= presentAfter) {
+              const previous = card;
+              card = result;
+              candidate = null;
+              changed = true;
+              if (previous) await emit('cardRemoved', previous, 'Replaced by another card');
+              await emit('cardPresent', result);
+            }
+          }
+        } else if (result.status?.code === CSC_STATUS.NO_CARD) {
+          candidate = null;
+          if (card && ++misses >= removeAfter) {
+            const removed = card;
+            card = null;
+            misses = 0;
+            changed = true;
+            await emit('cardRemoved', removed, result.message);
+          }
+        } else {
+          failure = new CardWatcherError(result.message, result);
+        }
+      } catch (error) {
+        failure = new CardWatcherError(error instanceof Error ? error.message : String(error));
+      }
+      if (signal.aborted) break;
+
+      if (failure) {
+        await emit('error', failure);
+        // Back off while the reader keeps failing
+        interval = Math.min(interval * 2, maxInterval);
+      } else {
+        // Poll fast around changes and while a new card or a removal awaits confirmation
+        interval = changed || candidate !== null || misses > 0
+          ? minInterval
+          : Math.min(interval * INTERVAL_GROWTH, maxInterval);
+      }
+      await sleep(interval, signal);
+    }
+  };
+
+  return {
+    get running() {
+      return running !== null;
+    },
+    get card() {
+      return card;
+    },
+    start(signal) {
+      if (running) return running;
+      const current = new AbortController();
+      controller = current;
+      const onAbort = () => current.abort();
+      if (signal) {
+        if (signal.aborted) current.abort();
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+      running = poll(current.signal).finally(() => {
+        signal?.removeEventListener('abort', onAbort);
+        // The field is unknown once polling stops: a restart reports the card again
+        card = null;
+        controller = null;
+        running = null;
+      });
+      return running;
+    },
+    stop() {
+      controller?.abort();
+    },
+    on(event, listener) {
+      listeners[event].add(listener);
+      return () => {
+        listeners[event].delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Wait `ms`, or less if the signal aborts
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
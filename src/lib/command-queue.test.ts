@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { COMMAND_PRIORITY, CommandCancelledError, createCommandQueue } from './command-queue';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('createCommandQueue', () => {
+  it('never runs two tasks at the same time', async () => {
+    const queue = createCommandQueue();
+    let active = 0;
+    let maxActive = 0;
+    const task = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(r => setTimeout(r, 5));
+      active--;
+    };
+
+    await Promise.all([queue.run(task), queue.run(task), queue.run(task)]);
+    expect(maxActive).toBe(1);
+    expect(queue.busy).toBe(false);
+  });
+
+  it('runs waiting user commands before background hunts, in order within a priority', async () => {
+    const queue = createCommandQueue();
+    const gate = deferred();
+    const order: string[] = [];
+    const record = (name: string) => async () => {
+      order.push(name);
+    };
+
+    const first = queue.run(() => gate.promise);
+    const runs = [
+      queue.run(record('hunt 1'), { priority: COMMAND_PRIORITY.BACKGROUND }),
+      queue.run(record('user 1'), { priority: COMMAND_PRIORITY.USER }),
+      queue.run(record('hunt 2'), { priority: COMMAND_PRIORITY.BACKGROUND }),
+      queue.run(record('user 2'), { priority: COMMAND_PRIORITY.USER }),
+    ];
+    expect(queue.size).toBe(4);
+
+    gate.resolve();
+    await Promise.all([first, ...runs]);
+    expect(order).toEqual(['user 1', 'user 2', 'hunt 1', 'hunt 2']);
+  });
+
+  it('rejects a queued task when its signal aborts, without running it', async () => {
+    const queue = createCommandQueue();
+    const gate = deferred();
+    const controller = new AbortController();
+    let ran = false;
+
+    const first = queue.run(() => gate.promise);
+    const second = queue.run(async () => {
+      ran = true;
+    }, { signal: controller.signal });
+
+    controller.abort('Stopped by user');
+    await expect(second).rejects.toBeInstanceOf(CommandCancelledError);
+    await expect(second).rejects.toThrow('Stopped by user');
+    expect(queue.size).toBe(0);
+
+    gate.resolve();
+    await first;
+    expect(ran).toBe(false);
+  });
+
+  it('rejects a task whose signal is already aborted', async () => {
+    const queue = createCommandQueue();
+    const reason = new Error('stopped');
+    await expect(queue.run(async () => 1, { signal: AbortSignal.abort(reason) })).rejects.toBe(reason);
+  });
+
+  it('drain cancels queued tasks and waits for the running one', async () => {
+    const queue = createCommandQueue();
+    const gate = deferred();
+    let finished = false;
+
+    const first = queue.run(async () => {
+      await gate.promise;
+      finished = true;
+      return 'done';
+    });
+    const queued = queue.run(async () => 'never');
+
+    const drained = queue.drain('Disconnected');
+    await expect(queued).rejects.toThrow('Disconnected');
+
+    gate.resolve();
+    await drained;
+    expect(finished).toBe(true);
+    await expect(first).resolves.toBe('done');
+  });
+
+  it('passes task errors to the caller and keeps serving', async () => {
+    const queue = createCommandQueue();
+    await expect(queue.run(async () => {
+      throw new Error('timeout');
+    })).rejects.toThrow('timeout');
+    await expect(queue.run(async () => 42)).resolves.toBe(42);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Per-device command scheduler
+ * Serialises transceive calls so background hunts and user commands never
+ * share the reader at the same time. Higher priority commands run first.
+ */
+
+export const COMMAND_PRIORITY = {
+  BACKGROUND: 0,
+  NORMAL: 1,
+  USER: 2,
+} as const;
+
+export interface CommandOptions {
+  priority?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A command was removed from the queue before or while it ran
+ */
+export class CommandCancelledError extends Error {
+  constructor(message: string = 'Command cancelled') {
+    super(message);
+    this.name = 'CommandCancelledError';
+  }
+}
+
+export interface CommandQueue {
+  /**
+   * Run a task once every earlier task of equal or higher priority has finished.
+   * Aborting the signal rejects immediately; a task already talking to the reader
+   * still holds the queue until it settles so its response cannot be misattributed.
+   */
+  run<T>(task: () => Promise<T>, options?: CommandOptions): Promise<T>;
+  /**
+   * Reject all queued tasks and wait for the running one to finish
+   */
+  drain(reason?: string): Promise<void>;
+  readonly size: number;
+  readonly busy: boolean;
+}
+
+interface QueueEntry {
+  priority: number;
+  execute: () => Promise<void>;
+  cancel: (error: Error) => void;
+}
+
+export function createCommandQueue(): CommandQueue {
+  const pending: QueueEntry[] = [];
+  let running: Promise<void> | null = null;
+
+  const pump = () => {
+    if (running) return;
+    const entry = pending.shift();
+    if (!entry) return;
+    running = entry.execute().finally(() => {
+      running = null;
+      pump();
+    });
+  };
+
+  const enqueue = (entry: QueueEntry) => {
+    // Stable insert: after every entry of the same or higher priority
+    const index = pending.findIndex(e => e.priority < entry.priority);
+    if (index < 0) {
+      pending.push(entry);
+    } else {
+      pending.splice(index, 0, entry);
+    }
+  };
+
+  return {
+    run<T>(task: () => Promise<T>, options: CommandOptions = {}): Promise<T> {
+      const { priority = COMMAND_PRIORITY.NORMAL, signal } = options;
+
+      return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(abortError(signal));
+          return;
+        }
+
+        const onAbort = () => {
+          const index = pending.indexOf(entry);
+          if (index >= 0) {
+            pending.splice(index, 1);
+          }
+          reject(abortError(signal));
+        };
+
+        const entry: QueueEntry = {
+          priority,
+          async execute() {
+            if (signal?.aborted) return;
+            try {
+              resolve(await task());
+            } catch (error) {
+              reject(error);
+            } finally {
+              signal?.removeEventListener('abort', onAbort);
+            }
+          },
+          cancel(error) {
+            signal?.removeEventListener('abort', onAbort);
+            reject(error);
+          },
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        enqueue(entry);
+        pump();
+      });
+    },
+
+    async drain(reason = 'Command queue drained') {
+      const dropped = pending.splice(0);
+      dropped.forEach(entry => entry.cancel(new CommandCancelledError(reason)));
+      if (running) {
+        await running;
+      }
+    },
+
+    get size() {
+      return pending.length;
+    },
+
+    get busy() {
+      return running !== null;
+    },
+  };
+}
+
+function abortError(signal?: AbortSignal): Error {
+  const reason: unknown = signal?.reason;
+  if (reason instanceof Error) {
+    return reason;
+  }
+  return new CommandCancelledError(typeof reason === 'string' ? reason : 'Command aborted');
+}
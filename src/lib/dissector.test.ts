@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { buildCommand, fromHex } from './nfc-device';
+import { DissectorField, KNOWN_COMMANDS, commandName, dissectFrame } from './dissector';
+
+function findField(fields: DissectorField[], name: string): DissectorField | undefined {
+  for (const f of fields) {
+    if (f.name === name) return f;
+    const nested = f.children && findField(f.children, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+function invalidFields(fields: DissectorField[]): string[] {
+  return fields.flatMap(f => [...(f.valid === false ? [f.name] : []), ...invalidFields(f.children ?? [])]);
+}
+
+describe('dissectFrame', () => {
+  it('decodes the hunt command parameters', () => {
+    const frame = dissectFrame(fromHex('80 0A 01 03 00 00 02 11 03 01 01 14 00 9C F8'));
+    expect(frame.crcValid).toBe(true);
+    expect(frame.summary).toBe('SYS_ENTER_HUNT_PHASE with ISOA antenna 2, MIFARE, timeout 200ms');
+    expect(findField(frame.fields, 'FORGET')?.value).toBe('forget previous card');
+  });
+
+  it('shows the UID of the captured RDR-518 hunt answer without flagging its 0x00 byte', () => {
+    const frame = dissectFrame(fromHex('01 0B 01 03 00 08 06 00 08 DE AD BE EF 00 EF 8B'));
+    expect(frame.crcValid).toBe(true);
+    expect(frame.summary).toBe('SYS_ENTER_HUNT_PHASE → MIFARE UID DE AD BE EF');
+    expect(findField(frame.fields, 'UID')?.hex).toBe('DE AD BE EF');
+    expect(findField(frame.fields, 'SAK')?.hex).toBe('08');
+    expect(invalidFields(frame.fields)).toEqual([]);
+  });
+
+  it('decodes a 7-byte UID with its ATQA and ATS', () => {
+    const atr = '07 20 04 31 5C 22 9A 3B 80 03 44 06 75 77 81 02 80';
+    const data = fromHex(`00 04 11 ${atr}`);
+    const response = buildCommand(0x01, 0x01, 0x03, data);
+    const frame = dissectFrame(response);
+    expect(frame.summary).toBe('SYS_ENTER_HUNT_PHASE → ISOA UID 04 31 5C 22 9A 3B 80');
+    expect(findField(frame.fields, 'ATQA')?.hex).toBe('03 44');
+    expect(findField(frame.fields, 'ATS')?.value).toBe('max frame 64, historical 80');
+    expect(invalidFields(frame.fields)).toEqual([]);
+  });
+
+  it('reports an empty field as the search result', () => {
+    const frame = dissectFrame(fromHex('01 04 01 03 01 6F 00 C1 91'));
+    expect(frame.summary).toBe('SYS_ENTER_HUNT_PHASE → No card in field');
+    expect(findField(frame.fields, 'Search result')?.value).toBe('NO_CARD: No card in field');
+  });
+
+  it('marks a failing status on other answers', () => {
+    const frame = dissectFrame(buildCommand(0x01, 0x07, 0x02, fromHex('6D')));
+    expect(frame.summary).toBe('MIFARE_AUTHENTICATE → AUTH_FAILED');
+    expect(invalidFields(frame.fields)).toEqual(['Status']);
+  });
+
+  it('decodes APDUs and their status word', () => {
+    const command = dissectFrame(buildCommand(0x80, 0x03, 0x01, fromHex('00 A4 04 00 02 3F 00 00')));
+    expect(command.summary).toBe('ISO_EXCHANGE_APDU SELECT 00 A4 04 00 02 3F 00 00');
+    expect(findField(command.fields, 'Lc')?.value).toBe('2');
+
+    const response = dissectFrame(buildCommand(0x01, 0x03, 0x01, fromHex('01 CA FE 90 00')));
+    expect(response.summary).toBe('ISO_EXCHANGE_APDU → SW=9000');
+    expect(findField(response.fields, 'Response data')?.hex).toBe('CA FE');
+  });
+
+  it('flags a bad CRC, a truncated frame and a leading DLE', () => {
+    const bad = dissectFrame(fromHex('01 04 01 03 01 6F 00 C1 92'));
+    expect(bad.crcValid).toBe(false);
+    expect(bad.summary).toContain('[BAD CRC]');
+
+    expect(dissectFrame(fromHex('01 0B 01 03 00 08 06')).summary).toContain('[TRUNCATED]');
+    expect(dissectFrame(fromHex('10 01 04 01 03 01 6F 00 C1 91')).fields[0].name).toBe('DLE');
+    expect(dissectFrame(fromHex('FF FF')).crcValid).toBeNull();
+  });
+});
+
+describe('KNOWN_COMMANDS', () => {
+  it('builds every composer example into a frame the dissector names', () => {
+    for (const command of KNOWN_COMMANDS) {
+      const frame = dissectFrame(buildCommand(0x80, command.classId, command.ident, fromHex(command.example ?? '')));
+      expect(frame.crcValid).toBe(true);
+      expect(frame.summary.startsWith(command.name)).toBe(true);
+      expect(invalidFields(frame.fields)).toEqual([]);
+    }
+  });
+});
+
+describe('commandName', () => {
+  it('falls back to the raw CLASS and IDENT', () => {
+    expect(commandName(0x01, 0x03)).toBe('SYS_ENTER_HUNT_PHASE');
+    expect(commandName(0x42, 0x07)).toBe('CLASS 0x42 IDENT 0x07');
+  });
+});
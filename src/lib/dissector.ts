@@ -0,0 +1,438 @@
+/**
+ * ASK CSC frame dissector for the TX/RX log
+ * Splits a raw frame into CMD/ACK, LEN, CLASS, IDENT, data, terminator and CRC,
+ * then names the command and decodes its data field by field.
+ */
+
+import {
+  CMD_EXECUTE,
+  CLASS_SYSTEM,
+  CLASS_ISO,
+  ISO_EXCHANGE_APDU,
+  ISO_EXCHANGE_RAW,
+  SYS_SOFTWARE_VERSION,
+  SYS_ENTER_HUNT_PHASE,
+  SYS_END_TAG_COMMUNICATION,
+  comTypeName,
+  crc16X25,
+  parseHuntResponse,
+  toHex,
+} from './nfc-device';
+import { ACK, DLE } from './frame';
+import {
+  CLASS_MIFARE,
+  MIFARE_AUTHENTICATE,
+  MIFARE_DECREMENT,
+  MIFARE_INCREMENT,
+  MIFARE_KEY_A,
+  MIFARE_LOAD_KEY,
+  MIFARE_READ_BLOCK,
+  MIFARE_RESTORE,
+  MIFARE_TRANSFER,
+  MIFARE_WRITE_BLOCK,
+} from './mifare';
+import { CSC_STATUS, describeStatus } from './status-codes';
+
+export interface DissectorField {
+  name: string;
+  /**
+   * Position in the logged bytes
+   */
+  offset: number;
+  length: number;
+  hex: string;
+  value?: string;
+  /**
+   * false when the field fails a check (CRC, terminator, length)
+   */
+  valid?: boolean;
+  children?: DissectorField[];
+}
+
+export interface DissectedFrame {
+  summary: string;
+  /**
+   * null when the frame is too short to carry a CRC
+   */
+  crcValid: boolean | null;
+  fields: DissectorField[];
+}
+
+export interface KnownCommand {
+  name: string;
+  classId: number;
+  ident: number;
+  /**
+   * Example data field, used as a hint when composing the command
+   */
+  example?: string;
+}
+
+export const KNOWN_CLASSES: { name: string; classId: number }[] = [
+  { name: 'CLASS_SYSTEM', classId: CLASS_SYSTEM },
+  { name: 'CLASS_ISO', classId: CLASS_ISO },
+  { name: 'CLASS_MIFARE', classId: CLASS_MIFARE },
+];
+
+export const KNOWN_COMMANDS: KnownCommand[] = [
+  { name: 'SYS_SOFTWARE_VERSION', classId: CLASS_SYSTEM, ident: SYS_SOFTWARE_VERSION },
+  { name: 'SYS_ENTER_HUNT_PHASE', classId: CLASS_SYSTEM, ident: SYS_ENTER_HUNT_PHASE, example: '00 00 02 11 03 01 01 14' },
+  { name: 'SYS_END_TAG_COMMUNICATION', classId: CLASS_SYSTEM, ident: SYS_END_TAG_COMMUNICATION, example: '01' },
+  { name: 'ISO_EXCHANGE_APDU', classId: CLASS_ISO, ident: ISO_EXCHANGE_APDU, example: '00 84 00 00 08' },
+  { name: 'ISO_EXCHANGE_RAW', classId: CLASS_ISO, ident: ISO_EXCHANGE_RAW, example: '30 04' },
+  { name: 'MIFARE_LOAD_KEY', classId: CLASS_MIFARE, ident: MIFARE_LOAD_KEY, example: '00 FF FF FF FF FF FF' },
+  { name: 'MIFARE_AUTHENTICATE', classId: CLASS_MIFARE, ident: MIFARE_AUTHENTICATE, example: '04 60 00' },
+  { name: 'MIFARE_READ_BLOCK', classId: CLASS_MIFARE, ident: MIFARE_READ_BLOCK, example: '04' },
+  { name: 'MIFARE_WRITE_BLOCK', classId: CLASS_MIFARE, ident: MIFARE_WRITE_BLOCK, example: '04 00 11 22 33 44 55 66 77 88 99 AA BB CC DD EE FF' },
+  { name: 'MIFARE_INCREMENT', classId: CLASS_MIFARE, ident: MIFARE_INCREMENT, example: '05 01 00 00 00' },
+  { name: 'MIFARE_DECREMENT', classId: CLASS_MIFARE, ident: MIFARE_DECREMENT, example: '05 01 00 00 00' },
+  { name: 'MIFARE_RESTORE', classId: CLASS_MIFARE, ident: MIFARE_RESTORE, example: '05' },
+  { name: 'MIFARE_TRANSFER', classId: CLASS_MIFARE, ident: MIFARE_TRANSFER, example: '05' },
+];
+
+const CLASS_NAMES: Record<number, string> = Object.fromEntries(
+  KNOWN_CLASSES.map(({ name, classId }) => [classId, name])
+);
+
+const COMMAND_NAMES: Record<string, string> = Object.fromEntries(
+  KNOWN_COMMANDS.map(({ name, classId, ident }) => [key(classId, ident), name])
+);
+
+// ISO 7816-4 and EMV instructions seen through ISO_EXCHANGE_APDU
+const INS_NAMES: Record<number, string> = {
+  0x82: 'EXTERNAL AUTHENTICATE',
+  0x84: 'GET CHALLENGE',
+  0x88: 'INTERNAL AUTHENTICATE',
+  0xa4: 'SELECT',
+  0xa8: 'GET PROCESSING OPTIONS',
+  0xb0: 'READ BINARY',
+  0xb2: 'READ RECORD',
+  0xc0: 'GET RESPONSE',
+  0xca: 'GET DATA',
+  0xd6: 'UPDATE BINARY',
+};
+
+// ISO 14443-3 commands seen through ISO_EXCHANGE_RAW
+const RAW_NAMES: Record<number, string> = {
+  0x30: 'READ',
+  0x60: 'GET_VERSION',
+  0xa2: 'WRITE',
+};
+
+/**
+ * `response` is the frame from LEN onwards, as the nfc-device parsers take it
+ */
+type DataDecoder = (
+  data: Uint8Array,
+  offset: number,
+  response: Uint8Array
+) => { summary?: string; fields: DissectorField[] };
+
+/**
+ * Name of a command, or its raw CLASS/IDENT when unknown
+ */
+export function commandName(classId: number, ident: number): string {
+  return COMMAND_NAMES[key(classId, ident)] ?? `CLASS 0x${hexByte(classId)} IDENT 0x${hexByte(ident)}`;
+}
+
+/**
+ * Decode one logged frame. Works on commands (0x80) and responses (0x01,
+ * optionally preceded by DLE), valid or not.
+ */
+export function dissectFrame(bytes: Uint8Array): DissectedFrame {
+  const fields: DissectorField[] = [];
+  let offset = 0;
+
+  if (bytes[offset] === DLE) {
+    fields.push(field('DLE', bytes, offset, 1, 'Link-level byte sent before the first response'));
+    offset++;
+  }
+
+  const start = offset;
+  const header = bytes[offset];
+  const isCommand = header === CMD_EXECUTE;
+  const isResponse = header === ACK;
+  if (!isCommand && !isResponse || bytes.length - offset < 4) {
+    fields.push({ ...field('Unrecognised bytes', bytes, offset, bytes.length - offset), valid: false });
+    return { summary: `Unrecognised frame (${bytes.length} bytes)`, crcValid: null, fields };
+  }
+
+  fields.push(field(isCommand ? 'CMD' : 'ACK', bytes, offset++, 1, isCommand ? 'Execute command' : 'Response'));
+
+  const len = bytes[offset];
+  const dataLength = Math.max(0, len - 2);
+  const declaredEnd = offset + 1 + len; // index of the terminator
+  const complete = declaredEnd + 3 <= bytes.length;
+  fields.push({
+    ...field('LEN', bytes, offset++, 1, `${len} bytes (CLASS + IDENT + ${dataLength} data)`),
+    valid: complete ? undefined : false,
+  });
+
+  const classId = bytes[offset];
+  fields.push(field('CLASS', bytes, offset++, 1, CLASS_NAMES[classId] ?? 'Unknown class'));
+  const ident = bytes[offset];
+  const name = commandName(classId, ident);
+  fields.push(field('IDENT', bytes, offset++, 1, COMMAND_NAMES[key(classId, ident)] ?? 'Unknown command'));
+
+  const data = bytes.subarray(offset, Math.min(offset + dataLength, bytes.length));
+  const decoder = (isCommand ? COMMAND_DECODERS : RESPONSE_DECODERS)[key(classId, ident)]
+    ?? (isCommand ? undefined : decodeStatusResponse);
+  const decoded = decoder ? decoder(data, offset, bytes.subarray(start + 1)) : { fields: [] };
+  if (data.length > 0) {
+    fields.push({
+      ...field('DATA', bytes, offset, data.length),
+      children: decoded.fields.length > 0 ? decoded.fields : undefined,
+    });
+  }
+  offset += data.length;
+
+  let crcValid: boolean | null = null;
+  if (complete) {
+    const terminator = bytes[offset];
+    fields.push({
+      ...field('Terminator', bytes, offset++, 1, terminator === 0x00 ? 'OK' : 'Expected 00'),
+      valid: terminator === 0x00,
+    });
+    const expected = crc16X25(bytes.subarray(start, offset));
+    const received = bytes[offset] | (bytes[offset + 1] << 8);
+    crcValid = expected === received;
+    fields.push({
+      ...field(
+        'CRC',
+        bytes,
+        offset,
+        2,
+        crcValid
+          ? `0x${received.toString(16).padStart(4, '0').toUpperCase()} (valid)`
+          : `0x${received.toString(16).padStart(4, '0').toUpperCase()} (invalid, expected 0x${expected.toString(16).padStart(4, '0').toUpperCase()})`
+      ),
+      valid: crcValid,
+    });
+    offset += 2;
+    if (offset < bytes.length) {
+      fields.push({ ...field('Trailing bytes', bytes, offset, bytes.length - offset), valid: false });
+    }
+  }
+
+  const detail = decoded.summary ? ` ${decoded.summary}` : '';
+  const arrow = isCommand ? '' : '→';
+  const summary = `${name}${arrow ? ` ${arrow}` : ''}${detail}${crcValid === false ? ' [BAD CRC]' : ''}${complete ? '' : ' [TRUNCATED]'}`;
+  return { summary, crcValid, fields };
+}
+
+// ============================================================================
+// Command data
+// ============================================================================
+
+const COMMAND_DECODERS: Record<string, DataDecoder> = {
+  [key(CLASS_SYSTEM, SYS_ENTER_HUNT_PHASE)]: (data, offset) => {
+    const names = ['CONT', 'ISOB', 'ISOA', 'CONFIG', 'MIFARE', 'FLAGS', 'FORGET', 'TIMEOUT'];
+    const values = [
+      (b: number) => (b ? `antenna ${b}` : 'disabled'),
+      (b: number) => (b ? `antenna ${b}` : 'disabled'),
+      (b: number) => (b ? `antenna ${b}` : 'disabled'),
+      () => 'Protocol configuration',
+      (b: number) => (b ? 'enabled' : 'disabled'),
+      () => 'Search flags',
+      (b: number) => (b ? 'forget previous card' : 'remember previous card'),
+      (b: number) => `${b * 10} ms`,
+    ];
+    const fields = Array.from(data.subarray(0, names.length), (b, i) => field(names[i], data, i, 1, values[i](b), offset));
+
+    const parts: string[] = [];
+    if (data[2]) parts.push(`ISOA antenna ${data[2]}`);
+    if (data[1]) parts.push(`ISOB antenna ${data[1]}`);
+    if (data[4]) parts.push('MIFARE');
+    if (data[0]) parts.push(`contact ${data[0]}`);
+    if (data.length > 7) parts.push(`timeout ${data[7] * 10}ms`);
+    return { summary: parts.length > 0 ? `with ${parts.join(', ')}` : undefined, fields };
+  },
+  [key(CLASS_SYSTEM, SYS_END_TAG_COMMUNICATION)]: (data, offset) => ({
+    summary: data[0] ? '(disconnect)' : '(keep field)',
+    fields: [field('Disconnect', data, 0, 1, data[0] ? 'yes' : 'no', offset)],
+  }),
+  [key(CLASS_ISO, ISO_EXCHANGE_APDU)]: (data, offset) => {
+    const ins = INS_NAMES[data[1]];
+    return { summary: `${ins ?? 'APDU'} ${toHex(data)}`, fields: apduFields(data, offset) };
+  },
+  [key(CLASS_ISO, ISO_EXCHANGE_RAW)]: (data, offset) => {
+    const name = RAW_NAMES[data[0]] ?? 'Frame';
+    const fields = [field('Command', data, 0, 1, name, offset)];
+    if (data.length > 1) fields.push(field('Page', data, 1, 1, `${data[1]}`, offset));
+    if (data.length > 2) fields.push(field('Data', data, 2, data.length - 2, undefined, offset));
+    return { summary: data.length > 1 ? `${name} page ${data[1]}` : name, fields };
+  },
+  [key(CLASS_MIFARE, MIFARE_LOAD_KEY)]: (data, offset) => ({
+    summary: `slot ${data[0]}`,
+    fields: [field('Key slot', data, 0, 1, `${data[0]}`, offset), field('Key', data, 1, data.length - 1, undefined, offset)],
+  }),
+  [key(CLASS_MIFARE, MIFARE_AUTHENTICATE)]: (data, offset) => {
+    const keyType = data[1] === MIFARE_KEY_A ? 'A' : 'B';
+    return {
+      summary: `block ${data[0]} with key ${keyType} from slot ${data[2]}`,
+      fields: [
+        field('Block', data, 0, 1, `${data[0]}`, offset),
+        field('Key type', data, 1, 1, `Key ${keyType}`, offset),
+        field('Key slot', data, 2, 1, `${data[2]}`, offset),
+      ],
+    };
+  },
+  [key(CLASS_MIFARE, MIFARE_READ_BLOCK)]: blockOnly,
+  [key(CLASS_MIFARE, MIFARE_RESTORE)]: blockOnly,
+  [key(CLASS_MIFARE, MIFARE_TRANSFER)]: blockOnly,
+  [key(CLASS_MIFARE, MIFARE_WRITE_BLOCK)]: (data, offset) => ({
+    summary: `block ${data[0]}`,
+    fields: [field('Block', data, 0, 1, `${data[0]}`, offset), field('Block data', data, 1, data.length - 1, undefined, offset)],
+  }),
+  [key(CLASS_MIFARE, MIFARE_INCREMENT)]: valueOperation,
+  [key(CLASS_MIFARE, MIFARE_DECREMENT)]: valueOperation,
+};
+
+function blockOnly(data: Uint8Array, offset: number) {
+  return { summary: `block ${data[0]}`, fields: [field('Block', data, 0, 1, `${data[0]}`, offset)] };
+}
+
+function valueOperation(data: Uint8Array, offset: number) {
+  const amount = data.length >= 5 ? new DataView(data.buffer, data.byteOffset + 1, 4).getInt32(0, true) : 0;
+  return {
+    summary: `block ${data[0]} by ${amount}`,
+    fields: [field('Block', data, 0, 1, `${data[0]}`, offset), field('Amount', data, 1, 4, `${amount} (little-endian)`, offset)],
+  };
+}
+
+function apduFields(apdu: Uint8Array, offset: number): DissectorField[] {
+  const fields = [
+    field('CLA', apdu, 0, 1, undefined, offset),
+    field('INS', apdu, 1, 1, INS_NAMES[apdu[1]], offset),
+    field('P1', apdu, 2, 1, undefined, offset),
+    field('P2', apdu, 3, 1, undefined, offset),
+  ].filter(f => f.length > 0 && f.offset < offset + apdu.length);
+  if (apdu.length === 5) {
+    fields.push(field('Le', apdu, 4, 1, `${apdu[4] || 256}`, offset));
+  } else if (apdu.length > 5) {
+    const lc = apdu[4];
+    fields.push(field('Lc', apdu, 4, 1, `${lc}`, offset));
+    fields.push(field('Data', apdu, 5, Math.min(lc, apdu.length - 5), undefined, offset));
+    if (apdu.length > 5 + lc) {
+      fields.push(field('Le', apdu, 5 + lc, 1, `${apdu[5 + lc] || 256}`, offset));
+    }
+  }
+  return fields;
+}
+
+// ============================================================================
+// Response data
+// ============================================================================
+
+const RESPONSE_DECODERS: Record<string, DataDecoder> = {
+  [key(CLASS_SYSTEM, SYS_SOFTWARE_VERSION)]: (data, offset) => {
+    const text = Array.from(data).filter(b => b !== 0).map(b => String.fromCharCode(b)).join('').trim();
+    return { summary: `"${text}"`, fields: [field('Version', data, 0, data.length, text, offset)] };
+  },
+  // Decoded with parseHuntResponse so the log and the device agree on every answer layout
+  [key(CLASS_SYSTEM, SYS_ENTER_HUNT_PHASE)]: (data, offset, response) => {
+    const hunt = parseHuntResponse(response);
+    if (!hunt.success) {
+      const fields = [statusField(data, offset)];
+      if (data.length === 2) {
+        const result = describeStatus(data[1]);
+        fields.push(field('Search result', data, 1, 1, `${result.name}: ${result.description}`, offset));
+      }
+      return { summary: hunt.message, fields };
+    }
+
+    const comType = data[1];
+    const atrLength = data[2];
+    const atr = data.subarray(3, 3 + atrLength);
+    const atrOffset = offset + 3;
+    const fields = [
+      field('Status', data, 0, 1, 'Card found (a hunt answer carries no status here)', offset),
+      field('COM', data, 1, 1, comTypeName(comType), offset),
+      field('ATR length', data, 2, 1, `${atrLength}`, offset),
+    ];
+
+    const children: DissectorField[] = [];
+    if (hunt.isoB) {
+      const { isoB } = hunt;
+      children.push(
+        field('ATQB', atr, 0, 12, undefined, atrOffset),
+        field('PUPI', atr, 1, 4, undefined, atrOffset),
+        field('Application data', atr, 5, 4, undefined, atrOffset),
+        field('Protocol info', atr, 9, 3, `max frame ${isoB.protocolInfo.maxFrameSize}, FWT ${isoB.protocolInfo.fwtMs} ms`, atrOffset),
+      );
+      if (atr.length > 12) children.push(field('ATTRIB response', atr, 12, atr.length - 12, undefined, atrOffset));
+    } else if (hunt.atqa) {
+      const n = hunt.uidLength ?? 0;
+      children.push(
+        field('UID length', atr, 0, 1, `${n} bytes`, atrOffset),
+        field('SAK', atr, 1, 1, undefined, atrOffset),
+        field('UID', atr, 2, n, undefined, atrOffset),
+        field('ATQA', atr, 2 + n, 2, undefined, atrOffset),
+      );
+      if (hunt.ats) {
+        children.push(field('ATS', atr, 4 + n, atr.length - 4 - n, `max frame ${hunt.ats.maxFrameSize}, historical ${hunt.ats.historicalBytes || 'none'}`, atrOffset));
+      }
+    } else {
+      // Short RDR-518 answer for 4-byte UIDs: 00, SAK, UID, without ATQA
+      children.push(
+        field('UID length', atr, 0, 1, 'not given', atrOffset),
+        field('SAK', atr, 1, 1, undefined, atrOffset),
+        field('UID', atr, 2, 4, undefined, atrOffset),
+      );
+    }
+    fields.push({ ...field('ATR', data, 3, atr.length, undefined, offset), children });
+
+    const summary = hunt.isoB ? `ISOB card PUPI ${hunt.uid}` : `${comTypeName(comType)} UID ${hunt.uid}`;
+    return { summary, fields };
+  },
+  [key(CLASS_ISO, ISO_EXCHANGE_APDU)]: (data, offset) => {
+    const fields = [statusField(data, offset)];
+    if (data[0] !== CSC_STATUS.OK || data.length < 3) {
+      return { summary: describeStatus(data[0]).description, fields };
+    }
+    const sw = data.subarray(data.length - 2);
+    if (data.length > 3) fields.push(field('Response data', data, 1, data.length - 3, undefined, offset));
+    fields.push(field('SW1 SW2', data, data.length - 2, 2, sw[0] === 0x90 && sw[1] === 0 ? 'Success' : undefined, offset));
+    return { summary: `SW=${toHex(sw).replace(' ', '')}`, fields };
+  },
+};
+
+function decodeStatusResponse(data: Uint8Array, offset: number) {
+  if (data.length === 0) return { fields: [] };
+  const fields = [statusField(data, offset)];
+  if (data.length > 1) fields.push(field('Payload', data, 1, data.length - 1, undefined, offset));
+  const status = describeStatus(data[0]);
+  return { summary: status.known ? status.name : status.description, fields };
+}
+
+function statusField(data: Uint8Array, offset: number): DissectorField {
+  const status = describeStatus(data[0]);
+  return {
+    ...field('Status', data, 0, 1, status.known ? `${status.name}: ${status.description}` : status.description, offset),
+    valid: status.code === CSC_STATUS.OK ? undefined : false,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function field(
+  name: string,
+  bytes: Uint8Array,
+  at: number,
+  length: number,
+  value?: string,
+  base: number = 0
+): DissectorField {
+  const slice = bytes.subarray(at, at + Math.max(0, length));
+  return { name, offset: base + at, length: slice.length, hex: toHex(slice), value };
+}
+
+function key(classId: number, ident: number): string {
+  return `${classId}:${ident}`;
+}
+
+function hexByte(b: number): string {
+  return b.toString(16).padStart(2, '0').toUpperCase();
+}
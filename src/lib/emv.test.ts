@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { cardHunt, createNfcDevice, fromHex } from './nfc-device';
+import { DEFAULT_VIRTUAL_CARDS, createSimulatedTransport } from './simulated-reader';
+import { parseTlv } from './tlv';
+import { buildGetProcessingOptions, formatEmvValue, maskPan, parseAfl, readEmvCard, selectPpse } from './emv';
+
+async function paymentCardDevice() {
+  const card = DEFAULT_VIRTUAL_CARDS.find(c => c.label.startsWith('Contactless payment'))!;
+  const transport = createSimulatedTransport({ latency: 1 });
+  await transport.open();
+  transport.presentCard(card);
+  const device = createNfcDevice(transport);
+  expect((await cardHunt(device, { timeout10ms: 1 })).success).toBe(true);
+  return device;
+}
+
+describe('EMV helpers', () => {
+  it('masks all but the first six and last four digits', () => {
+    expect(maskPan('4761739001010010')).toBe('476173******0010');
+    expect(maskPan('1234567890')).toBe('**********');
+  });
+
+  it('splits the AFL into SFI record ranges', () => {
+    expect(parseAfl(fromHex('08 01 01 00 10 01 03 01'))).toEqual([
+      { sfi: 1, first: 1, last: 1, offlineAuth: 0 },
+      { sfi: 2, first: 1, last: 3, offlineAuth: 1 },
+    ]);
+  });
+
+  it('fills the PDOL with terminal data, right-aligning numeric values', () => {
+    const apdu = buildGetProcessingOptions([
+      { tag: '9F66', length: 4 },
+      { tag: '5F2A', length: 2 },
+      { tag: '9C', length: 2 },
+    ]);
+    expect(apdu).toBe('80A800000A8308B62040000978000000');
+  });
+
+  it('formats track 2, dates and text, masking the PAN unless asked', () => {
+    const [track2] = parseTlv(fromHex('57 11 47 61 73 90 01 01 00 10 D3 01 22 01 11 43 87 80 89'));
+    expect(formatEmvValue(track2)).toBe('476173******0010=30122011143878089 (expires 2030-12)');
+    expect(formatEmvValue(track2, true)).toMatch(/^4761739001010010=/);
+
+    const [expiry, label] = parseTlv(fromHex('5F 24 03 30 12 31 50 04 56 49 53 41'));
+    expect(formatEmvValue(expiry)).toBe('2030-12-31');
+    expect(formatEmvValue(label)).toBe('"VISA"');
+  });
+});
+
+describe('readEmvCard', () => {
+  it('lists the PPSE applications by priority', async () => {
+    const device = await paymentCardDevice();
+    const { applications } = await selectPpse(device);
+    expect(applications).toEqual([
+      { aid: 'A0000000031010', label: 'VISA CREDIT', priority: 1 },
+      { aid: 'A0000000032010', label: 'VISA ELECTRON', priority: 2 },
+    ]);
+  });
+
+  it('reads the PAN and expiry through GPO and READ RECORD', async () => {
+    const device = await paymentCardDevice();
+    const result = await readEmvCard(device);
+    expect(result.success).toBe(true);
+    expect(result.selectedAid).toBe('A0000000031010');
+    expect(result.steps.map(step => step.label)).toEqual([
+      'SELECT PPSE',
+      'SELECT A0000000031010',
+      'GET PROCESSING OPTIONS',
+      'READ RECORD SFI 1 #1',
+    ]);
+    expect(result.pan).toBe('4761739001010010');
+    expect(result.expiry).toBe('2030-12-31');
+    expect(result.message).toContain('476173******0010');
+  });
+
+  it('reports an unknown AID', async () => {
+    const device = await paymentCardDevice();
+    const result = await readEmvCard(device, { aid: 'A0000000041010' });
+    expect(result.success).toBe(false);
+    expect(result.steps[1].sw).toBe('6A82');
+  });
+});
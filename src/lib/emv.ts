@@ -0,0 +1,414 @@
+/**
+ * Contactless EMV card inspection
+ * Selects the PPSE (2PAY.SYS.DDF01), lists the payment applications, then
+ * selects one and runs GET PROCESSING OPTIONS and READ RECORD over the AFL.
+ * Every answer is kept as a BER-TLV tree for display.
+ */
+
+import { NfcDevice, fromHex, toHex } from './nfc-device';
+import { CommandOptions } from './command-queue';
+import { sendCardApdu } from './apdu';
+import { DolEntry, TlvNode, encodeTlv, findAllTlv, findTlv, parseDol, parseTlv } from './tlv';
+
+export const PPSE_NAME = '2PAY.SYS.DDF01';
+
+// Value formats from EMV Book 3, Annex A
+export type EmvTagFormat = 'b' | 'an' | 'n' | 'cn' | 'date' | 'dol' | 'afl' | 'track2' | 'track1';
+
+export interface EmvTagInfo {
+  name: string;
+  format: EmvTagFormat;
+}
+
+/**
+ * Tags seen on contactless payment cards and in the terminal data they request
+ */
+export const EMV_TAGS: Record<string, EmvTagInfo> = {
+  '42': { name: 'Issuer Identification Number', format: 'n' },
+  '4F': { name: 'Application Identifier (AID)', format: 'b' },
+  '50': { name: 'Application Label', format: 'an' },
+  '56': { name: 'Track 1 Data', format: 'track1' },
+  '57': { name: 'Track 2 Equivalent Data', format: 'track2' },
+  '5A': { name: 'Application PAN', format: 'cn' },
+  '5F20': { name: 'Cardholder Name', format: 'an' },
+  '5F24': { name: 'Application Expiration Date', format: 'date' },
+  '5F25': { name: 'Application Effective Date', format: 'date' },
+  '5F28': { name: 'Issuer Country Code', format: 'n' },
+  '5F2A': { name: 'Transaction Currency Code', format: 'n' },
+  '5F2D': { name: 'Language Preference', format: 'an' },
+  '5F30': { name: 'Service Code', format: 'n' },
+  '5F34': { name: 'PAN Sequence Number', format: 'n' },
+  '61': { name: 'Application Template', format: 'b' },
+  '6F': { name: 'FCI Template', format: 'b' },
+  '70': { name: 'READ RECORD Response Template', format: 'b' },
+  '77': { name: 'Response Message Template Format 2', format: 'b' },
+  '80': { name: 'Response Message Template Format 1', format: 'b' },
+  '82': { name: 'Application Interchange Profile', format: 'b' },
+  '83': { name: 'Command Template', format: 'b' },
+  '84': { name: 'Dedicated File (DF) Name', format: 'b' },
+  '87': { name: 'Application Priority Indicator', format: 'b' },
+  '88': { name: 'Short File Identifier (SFI)', format: 'b' },
+  '8C': { name: 'CDOL1', format: 'dol' },
+  '8D': { name: 'CDOL2', format: 'dol' },
+  '8E': { name: 'CVM List', format: 'b' },
+  '8F': { name: 'CA Public Key Index', format: 'b' },
+  '90': { name: 'Issuer Public Key Certificate', format: 'b' },
+  '92': { name: 'Issuer Public Key Remainder', format: 'b' },
+  '94': { name: 'Application File Locator (AFL)', format: 'afl' },
+  '95': { name: 'Terminal Verification Results', format: 'b' },
+  '9A': { name: 'Transaction Date', format: 'date' },
+  '9C': { name: 'Transaction Type', format: 'n' },
+  '9F02': { name: 'Amount, Authorised', format: 'n' },
+  '9F03': { name: 'Amount, Other', format: 'n' },
+  '9F07': { name: 'Application Usage Control', format: 'b' },
+  '9F08': { name: 'Application Version Number', format: 'b' },
+  '9F0D': { name: 'Issuer Action Code - Default', format: 'b' },
+  '9F0E': { name: 'Issuer Action Code - Denial', format: 'b' },
+  '9F0F': { name: 'Issuer Action Code - Online', format: 'b' },
+  '9F10': { name: 'Issuer Application Data', format: 'b' },
+  '9F11': { name: 'Issuer Code Table Index', format: 'n' },
+  '9F12': { name: 'Application Preferred Name', format: 'an' },
+  '9F19': { name: 'Token Requestor ID', format: 'n' },
+  '9F1A': { name: 'Terminal Country Code', format: 'n' },
+  '9F1F': { name: 'Track 1 Discretionary Data', format: 'an' },
+  '9F24': { name: 'Payment Account Reference', format: 'an' },
+  '9F25': { name: 'Last 4 Digits of PAN', format: 'n' },
+  '9F26': { name: 'Application Cryptogram', format: 'b' },
+  '9F27': { name: 'Cryptogram Information Data', format: 'b' },
+  '9F32': { name: 'Issuer Public Key Exponent', format: 'b' },
+  '9F33': { name: 'Terminal Capabilities', format: 'b' },
+  '9F35': { name: 'Terminal Type', format: 'n' },
+  '9F36': { name: 'Application Transaction Counter', format: 'b' },
+  '9F37': { name: 'Unpredictable Number', format: 'b' },
+  '9F38': { name: 'PDOL', format: 'dol' },
+  '9F40': { name: 'Additional Terminal Capabilities', format: 'b' },
+  '9F42': { name: 'Application Currency Code', format: 'n' },
+  '9F44': { name: 'Application Currency Exponent', format: 'n' },
+  '9F46': { name: 'ICC Public Key Certificate', format: 'b' },
+  '9F47': { name: 'ICC Public Key Exponent', format: 'b' },
+  '9F48': { name: 'ICC Public Key Remainder', format: 'b' },
+  '9F49': { name: 'DDOL', format: 'dol' },
+  '9F4A': { name: 'Static Data Authentication Tag List', format: 'b' },
+  '9F4B': { name: 'Signed Dynamic Application Data', format: 'b' },
+  '9F4E': { name: 'Merchant Name and Location', format: 'an' },
+  '9F5D': { name: 'Available Offline Spending Amount', format: 'n' },
+  '9F66': { name: 'Terminal Transaction Qualifiers', format: 'b' },
+  '9F69': { name: 'Card Authentication Related Data', format: 'b' },
+  '9F6B': { name: 'Track 2 Data', format: 'track2' },
+  '9F6C': { name: 'Card Transaction Qualifiers', format: 'b' },
+  '9F6E': { name: 'Form Factor Indicator / Third Party Data', format: 'b' },
+  '9F7C': { name: 'Customer Exclusive Data', format: 'b' },
+  A5: { name: 'FCI Proprietary Template', format: 'b' },
+  BF0C: { name: 'FCI Issuer Discretionary Data', format: 'b' },
+};
+
+// Terminal data offered to PDOL requests: a zero-amount contactless purchase
+const TERMINAL_DATA: Record<string, string> = {
+  '9F66': 'B6204000', // TTQ: EMV mode, online capable, CVM supported
+  '9F02': '000000000000',
+  '9F03': '000000000000',
+  '9F1A': '0250',
+  '5F2A': '0978',
+  '95': '0000000000',
+  '9C': '00',
+  '9F35': '22',
+  '9F33': 'E0F8C8',
+  '9F40': '6000F0A001',
+  '9F4E': '4E46432043444320524541444552', // "NFC CDC READER"
+};
+
+// Reading stops after this many records even if the AFL asks for more
+const MAX_RECORDS = 64;
+
+export interface EmvApplication {
+  aid: string;
+  label?: string;
+  priority?: number;
+}
+
+/**
+ * One command of the flow with the card's decoded answer
+ */
+export interface EmvStep {
+  label: string;
+  apdu: string;
+  sw?: string;
+  tlv: TlvNode[];
+  error?: string;
+}
+
+export interface EmvReadResult {
+  success: boolean;
+  applications: EmvApplication[];
+  selectedAid?: string;
+  steps: EmvStep[];
+  /**
+   * PAN in clear from tag 5A or the track 2 equivalent data; mask before display
+   */
+  pan?: string;
+  expiry?: string;
+  message: string;
+}
+
+/**
+ * Select the PPSE and list the applications it advertises, highest priority first
+ */
+export async function selectPpse(
+  device: NfcDevice,
+  options: CommandOptions = {}
+): Promise<{ step: EmvStep; applications: EmvApplication[] }> {
+  const name = toHex(new TextEncoder().encode(PPSE_NAME));
+  const step = await runStep(device, 'SELECT PPSE', buildSelect(name), options);
+  const applications = findAllTlv(step.tlv, '61').flatMap(template => {
+    const aid = template.children && findTlv(template.children, '4F');
+    if (!aid) return [];
+    const label = findTlv(template.children!, '50');
+    const priority = findTlv(template.children!, '87');
+    return [{
+      aid: hexString(aid.value),
+      label: label ? ascii(label.value) : undefined,
+      priority: priority ? priority.value[0] & 0x0f : undefined,
+    }];
+  });
+  // Priority 1 is the highest; applications without one go last
+  applications.sort((a, b) => (a.priority || 16) - (b.priority || 16));
+  return { step, applications };
+}
+
+/**
+ * Full read: PPSE, then the chosen (or highest priority) application
+ */
+export async function readEmvCard(
+  device: NfcDevice,
+  options: CommandOptions & { aid?: string } = {}
+): Promise<EmvReadResult> {
+  const { step: ppse, applications } = await selectPpse(device, options);
+  const steps = [ppse];
+  const aid = options.aid ?? applications[0]?.aid;
+  if (!aid) {
+    return {
+      success: false,
+      applications,
+      steps,
+      message: ppse.error ?? 'No payment application listed in the PPSE',
+    };
+  }
+
+  const result = await readEmvApplication(device, aid, options);
+  return { ...result, applications, steps: [...steps, ...result.steps] };
+}
+
+/**
+ * SELECT an application, GET PROCESSING OPTIONS and READ RECORD every AFL entry
+ */
+export async function readEmvApplication(
+  device: NfcDevice,
+  aid: string,
+  options: CommandOptions = {}
+): Promise<EmvReadResult> {
+  const steps: EmvStep[] = [];
+  const fail = (message: string): EmvReadResult => ({ success: false, applications: [], selectedAid: aid, steps, message });
+
+  const select = await runStep(device, `SELECT ${aid}`, buildSelect(aid), options);
+  steps.push(select);
+  if (select.error) return fail(select.error);
+
+  const pdol = findTlv(select.tlv, '9F38');
+  const gpo = await runStep(
+    device,
+    'GET PROCESSING OPTIONS',
+    buildGetProcessingOptions(pdol ? parseDol(pdol.value) : []),
+    options
+  );
+  steps.push(gpo);
+  if (gpo.error) return fail(gpo.error);
+
+  // Format 1 (80) packs AIP and AFL together; format 2 (77) tags them
+  const format1 = findTlv(gpo.tlv, '80');
+  const afl = format1 ? format1.value.subarray(2) : findTlv(gpo.tlv, '94')?.value ?? new Uint8Array(0);
+
+  let records = 0;
+  for (const entry of parseAfl(afl)) {
+    for (let record = entry.first; record <= entry.last && records < MAX_RECORDS; record++, records++) {
+      const apdu = `00B2${hexByte(record)}${hexByte((entry.sfi << 3) | 0x04)}00`;
+      steps.push(await runStep(device, `READ RECORD SFI ${entry.sfi} #${record}`, apdu, options));
+    }
+  }
+
+  const all = steps.flatMap(step => step.tlv);
+  const track2 = findTlv(all, '57') ?? findTlv(all, '9F6B');
+  const panTag = findTlv(all, '5A');
+  const pan = panTag ? digits(panTag.value) : track2 ? digits(track2.value).split('D')[0] : undefined;
+  const expiryTag = findTlv(all, '5F24');
+  const expiry = expiryTag
+    ? formatDate(digits(expiryTag.value))
+    : track2 ? track2Expiry(digits(track2.value)) : undefined;
+
+  return {
+    success: true,
+    applications: [],
+    selectedAid: aid,
+    steps,
+    pan,
+    expiry,
+    message: `Read ${aid}: ${records} record${records === 1 ? '' : 's'}${pan ? `, PAN ${maskPan(pan)}` : ''}`,
+  };
+}
+
+/**
+ * Build the GPO command, filling the PDOL from the terminal data table
+ */
+export function buildGetProcessingOptions(pdol: DolEntry[]): string {
+  const data = pdol.map(entry => dolValue(entry));
+  const body = encodeTlv('83', data);
+  return `80A80000${hexByte(body.length)}${hexString(body)}00`;
+}
+
+export interface AflEntry {
+  sfi: number;
+  first: number;
+  last: number;
+  /**
+   * Records from first that take part in offline data authentication
+   */
+  offlineAuth: number;
+}
+
+export function parseAfl(afl: Uint8Array): AflEntry[] {
+  const entries: AflEntry[] = [];
+  for (let i = 0; i + 4 <= afl.length; i += 4) {
+    entries.push({ sfi: afl[i] >> 3, first: afl[i + 1], last: afl[i + 2], offlineAuth: afl[i + 3] });
+  }
+  return entries;
+}
+
+/**
+ * Keep the first six and last four digits (the PCI DSS display rule)
+ */
+export function maskPan(pan: string): string {
+  if (pan.length <= 10) {
+    return '*'.repeat(pan.length);
+  }
+  return pan.slice(0, 6) + '*'.repeat(pan.length - 10) + pan.slice(-4);
+}
+
+/**
+ * Dictionary name of a tag, or a generic label for unknown and proprietary tags
+ */
+export function emvTagName(tag: string): string {
+  return EMV_TAGS[tag]?.name ?? 'Unknown tag';
+}
+
+/**
+ * Human readable value of a primitive tag. PANs are masked unless showPan is set.
+ */
+export function formatEmvValue(node: TlvNode, showPan: boolean = false): string {
+  const format = EMV_TAGS[node.tag]?.format ?? 'b';
+  const hex = toHex(node.value);
+  switch (format) {
+    case 'an':
+      return `"${ascii(node.value)}"`;
+    case 'n':
+      return digits(node.value);
+    case 'cn': {
+      const pan = digits(node.value).replace(/F+$/, '');
+      return showPan ? pan : maskPan(pan);
+    }
+    case 'date':
+      return formatDate(digits(node.value));
+    case 'dol':
+      return parseDol(node.value).map(e => `${e.tag} (${e.length}) ${emvTagName(e.tag)}`).join(', ');
+    case 'afl':
+      return parseAfl(node.value)
+        .map(e => `SFI ${e.sfi} records ${e.first}-${e.last}${e.offlineAuth ? ` (${e.offlineAuth} for ODA)` : ''}`)
+        .join(', ');
+    case 'track2': {
+      const track = digits(node.value).replace(/F$/, '');
+      const [pan, rest = ''] = track.split('D');
+      return `${showPan ? pan : maskPan(pan)}=${rest} (expires ${track2Expiry(track) ?? '?'})`;
+    }
+    case 'track1': {
+      // Format B: B<PAN>^<NAME>^<YYMM><service code>...
+      const [pan, ...rest] = ascii(node.value).split('^');
+      const clear = pan.replace(/^B/, '');
+      return [showPan ? clear : maskPan(clear), ...rest].join('^');
+    }
+    default:
+      return hex;
+  }
+}
+
+async function runStep(device: NfcDevice, label: string, apdu: string, options: CommandOptions): Promise<EmvStep> {
+  const result = await sendCardApdu(device, apdu, options);
+  const step: EmvStep = { label, apdu, sw: result.sw, tlv: [] };
+  if (!result.success) {
+    step.error = `${label} failed: ${result.message}`;
+    return step;
+  }
+  try {
+    step.tlv = result.data ? parseTlv(result.data) : [];
+  } catch (error) {
+    step.error = `${label}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return step;
+}
+
+function buildSelect(name: string): string {
+  const clean = name.replace(/\s+/g, '');
+  return `00A40400${hexByte(clean.length / 2)}${clean}00`;
+}
+
+function dolValue(entry: DolEntry): Uint8Array {
+  const value = new Uint8Array(entry.length);
+  if (entry.tag === '9F37') {
+    crypto.getRandomValues(value);
+    return value;
+  }
+  const known = entry.tag === '9A' ? todayYYMMDD() : TERMINAL_DATA[entry.tag];
+  if (known) {
+    // Numeric data is right-aligned, everything else left-aligned (EMV Book 3, 5.4)
+    const bytes = fromHex(known);
+    const numeric = EMV_TAGS[entry.tag]?.format === 'n';
+    value.set(
+      numeric ? bytes.subarray(Math.max(0, bytes.length - entry.length)) : bytes.subarray(0, entry.length),
+      numeric ? Math.max(0, entry.length - bytes.length) : 0
+    );
+  }
+  return value;
+}
+
+function todayYYMMDD(): string {
+  const now = new Date();
+  return [now.getFullYear() % 100, now.getMonth() + 1, now.getDate()]
+    .map(n => n.toString().padStart(2, '0'))
+    .join('');
+}
+
+function formatDate(yymmdd: string): string {
+  if (!/^\d{6}$/.test(yymmdd)) return yymmdd;
+  return `20${yymmdd.slice(0, 2)}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+}
+
+function track2Expiry(track: string): string | undefined {
+  const rest = track.split('D')[1];
+  if (!rest || rest.length < 4) return undefined;
+  return `20${rest.slice(0, 2)}-${rest.slice(2, 4)}`;
+}
+
+function digits(bytes: Uint8Array): string {
+  return hexString(bytes);
+}
+
+function ascii(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'))
+    .join('');
+}
+
+function hexString(bytes: Uint8Array): string {
+  return toHex(bytes).replace(/ /g, '');
+}
+
+function hexByte(b: number): string {
+  return b.toString(16).padStart(2, '0').toUpperCase();
+}
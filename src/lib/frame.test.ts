@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { crc16X25, fromHex } from './nfc-device';
+import { DecoderOutput, FrameDecoder, FrameError, createFrameDecoder, readResponseFrame } from './frame';
+
+const CARD = fromHex('01 0B 01 03 00 08 06 00 08 DE AD BE EF 00 EF 8B');
+const NO_CARD = fromHex('01 04 01 03 01 6F 00 C1 91');
+
+function drain(decoder: FrameDecoder): DecoderOutput[] {
+  const outputs: DecoderOutput[] = [];
+  let output: DecoderOutput | undefined;
+  while ((output = decoder.shift())) {
+    outputs.push(output);
+  }
+  return outputs;
+}
+
+describe('createFrameDecoder', () => {
+  it('skips DLE filler ahead of a frame', () => {
+    const decoder = createFrameDecoder();
+    decoder.push(new Uint8Array([0x10, 0x10, ...CARD]));
+    expect(drain(decoder)).toEqual([{ type: 'frame', frame: CARD }]);
+  });
+
+  it('reports noise before a frame as garbage and resynchronises', () => {
+    const decoder = createFrameDecoder();
+    decoder.push(new Uint8Array([0xff, 0x42, ...NO_CARD]));
+    expect(drain(decoder)).toEqual([
+      { type: 'garbage', bytes: new Uint8Array([0xff, 0x42]) },
+      { type: 'frame', frame: NO_CARD },
+    ]);
+  });
+
+  it('reassembles a frame split across chunks', () => {
+    const decoder = createFrameDecoder();
+    decoder.push(CARD.subarray(0, 1));
+    decoder.push(CARD.subarray(1, 7));
+    expect(drain(decoder)).toEqual([]);
+    expect(decoder.buffered).toBe(7);
+
+    decoder.push(CARD.subarray(7));
+    expect(drain(decoder)).toEqual([{ type: 'frame', frame: CARD }]);
+    expect(decoder.buffered).toBe(0);
+  });
+
+  it('splits two frames delivered in one chunk', () => {
+    const decoder = createFrameDecoder();
+    decoder.push(new Uint8Array([...CARD, ...NO_CARD]));
+    expect(drain(decoder)).toEqual([
+      { type: 'frame', frame: CARD },
+      { type: 'frame', frame: NO_CARD },
+    ]);
+  });
+
+  it('reports a bad CRC as a FrameError and keeps decoding', () => {
+    const corrupt = CARD.slice();
+    corrupt[corrupt.length - 1] ^= 0xff;
+    const decoder = createFrameDecoder();
+    decoder.push(new Uint8Array([...corrupt, ...NO_CARD]));
+
+    const [first, second] = drain(decoder);
+    expect(first.type).toBe('error');
+    const error = (first as { error: FrameError }).error;
+    expect(error).toBeInstanceOf(FrameError);
+    expect(error.kind).toBe('crc');
+    expect(error.bytes).toEqual(corrupt);
+    expect(second).toEqual({ type: 'frame', frame: NO_CARD });
+  });
+
+  it('drops a false header announcing a long frame once a valid frame follows', () => {
+    const decoder = createFrameDecoder();
+    decoder.push(new Uint8Array([0x01, 0x40, ...NO_CARD]));
+    expect(drain(decoder)).toEqual([
+      { type: 'garbage', bytes: new Uint8Array([0x01, 0x40]) },
+      { type: 'frame', frame: NO_CARD },
+    ]);
+  });
+
+  it('returns the partial frame on reset', () => {
+    const decoder = createFrameDecoder();
+    decoder.push(CARD.subarray(0, 5));
+    expect(decoder.reset()).toEqual(CARD.subarray(0, 5));
+    expect(decoder.buffered).toBe(0);
+  });
+});
+
+describe('readResponseFrame', () => {
+  it('drops a stray answer to another command', async () => {
+    // Late answer to a Get Version (class 01, ident 01) still in the buffer
+    const body = [0x01, 0x03, 0x01, 0x01, 0x42, 0x00];
+    const crc = crc16X25(new Uint8Array(body));
+    const stray = new Uint8Array([...body, crc & 0xff, crc >> 8]);
+    const decoder = createFrameDecoder();
+    const chunks = [stray, NO_CARD];
+
+    const frame = await readResponseFrame(decoder, async () => chunks.shift() ?? null, 100, { classId: 0x01, ident: 0x03 });
+    expect(frame).toEqual(NO_CARD);
+  });
+
+  it('throws the FrameError of a corrupt frame', async () => {
+    const corrupt = CARD.slice();
+    corrupt[9] ^= 0x01;
+    const decoder = createFrameDecoder();
+    const chunks = [corrupt];
+
+    await expect(readResponseFrame(decoder, async () => chunks.shift() ?? null, 100)).rejects.toBeInstanceOf(FrameError);
+  });
+
+  it('returns an empty frame when nothing arrives', async () => {
+    const decoder = createFrameDecoder();
+    const frame = await readResponseFrame(decoder, async () => null, 20);
+    expect(frame.length).toBe(0);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * ASK CSC response frame decoding shared by all transports
+ *
+ * Response frame: 0x01, LEN, CLASS, IDENT, DATA, 0x00 (terminator), CRC-16 (LE)
+ * LEN counts CLASS + IDENT + DATA. The CRC covers 0x01 through the terminator.
+ * The reader may send DLE (0x10) bytes before a frame, typically after connect.
+ */
+
+import { log } from './log';
+import { crc16X25, toHex } from './nfc-device';
+import { maskCardData, maskCardFrame } from './card-data-mask';
+
+// Prefix bytes sent by the reader ahead of a response frame
+export const DLE = 0x10;
+export const ACK = 0x01;
+
+// Header + LEN + terminator + CRC around the LEN-counted payload
+const FRAME_OVERHEAD = 5;
+
+export type FrameErrorKind = 'crc' | 'truncated';
+
+/**
+ * A response frame that could not be decoded
+ */
+export class FrameError extends Error {
+  readonly kind: FrameErrorKind;
+  readonly bytes: Uint8Array;
+
+  constructor(kind: FrameErrorKind, message: string, bytes: Uint8Array) {
+    super(message);
+    this.name = 'FrameError';
+    this.kind = kind;
+    this.bytes = bytes;
+  }
+}
+
+export interface FrameExpectation {
+  classId: number;
+  ident: number;
+}
+
+export type DecoderOutput =
+  | { type: 'frame'; frame: Uint8Array }
+  | { type: 'error'; error: FrameError }
+  | { type: 'garbage'; bytes: Uint8Array };
+
+export interface FrameDecoder {
+  /**
+   * Feed received bytes, in whatever chunks the link delivers them
+   */
+  push(chunk: Uint8Array): void;
+  /**
+   * Take the next decoded frame, error or discarded byte run
+   */
+  shift(): DecoderOutput | undefined;
+  /**
+   * Drop buffered bytes and pending outputs. Returns the bytes of any partial frame.
+   */
+  reset(): Uint8Array;
+  readonly buffered: number;
+}
+
+/**
+ * Create an incremental decoder that resynchronises on the frame header,
+ * splits back-to-back frames and verifies the trailing CRC.
+ */
+export function createFrameDecoder(): FrameDecoder {
+  let buffer: number[] = [];
+  let garbage: number[] = [];
+  const outputs: DecoderOutput[] = [];
+
+  const flushGarbage = () => {
+    if (garbage.length > 0) {
+      outputs.push({ type: 'garbage', bytes: new Uint8Array(garbage) });
+      garbage = [];
+    }
+  };
+
+  const decode = () => {
+    while (buffer.length > 0) {
+      // Hunting for a header: DLE bytes are expected filler, anything else is noise
+      if (buffer[0] !== ACK) {
+        const byte = buffer.shift()!;
+        if (byte !== DLE) {
+          garbage.push(byte);
+        }
+        continue;
+      }
+
+      if (buffer.length < 2) return;
+      const total = buffer[1] + FRAME_OVERHEAD;
+      if (buffer.length < total) {
+        // A noise byte that looks like a header can announce a long frame;
+        // a valid frame starting later in the buffer proves it was a false start
+        const next = findValidFrame(buffer, 1);
+        if (next < 0) return;
+        garbage.push(...buffer.splice(0, next));
+        continue;
+      }
+
+      // A header whose terminator is not 0x00 was a false start: resynchronise
+      if (buffer[total - 3] !== 0x00) {
+        garbage.push(buffer.shift()!);
+        continue;
+      }
+
+      const frame = new Uint8Array(buffer.slice(0, total));
+      const crc = crc16X25(frame.subarray(0, total - 2));
+      const received = frame[total - 2] | (frame[total - 1] << 8);
+
+      flushGarbage();
+      if (crc === received) {
+        buffer = buffer.slice(total);
+        outputs.push({ type: 'frame', frame });
+      } else {
+        buffer = buffer.slice(total);
+        outputs.push({
+          type: 'error',
+          error: new FrameError(
+            'crc',
+            `CRC mismatch (expected 0x${crc.toString(16).padStart(4, '0')}, got 0x${received.toString(16).padStart(4, '0')})`,
+            frame
+          ),
+        });
+      }
+    }
+  };
+
+  return {
+    push(chunk) {
+      for (const byte of chunk) {
+        buffer.push(byte);
+      }
+      decode();
+      flushGarbage();
+    },
+    shift() {
+      return outputs.shift();
+    },
+    reset() {
+      const partial = new Uint8Array(buffer);
+      buffer = [];
+      garbage = [];
+      outputs.length = 0;
+      return partial;
+    },
+    get buffered() {
+      return buffer.length;
+    },
+  };
+}
+
+/**
+ * Offset of the first complete, CRC-valid frame at or after `from`, or -1
+ */
+function findValidFrame(buffer: number[], from: number): number {
+  for (let i = from; i < buffer.length - 1; i++) {
+    if (buffer[i] !== ACK) continue;
+    const total = buffer[i + 1] + FRAME_OVERHEAD;
+    if (i + total > buffer.length || buffer[i + total - 3] !== 0x00) continue;
+    const frame = new Uint8Array(buffer.slice(i, i + total));
+    const received = frame[total - 2] | (frame[total - 1] << 8);
+    if (crc16X25(frame.subarray(0, total - 2)) === received) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Read chunks into the decoder until a frame answering the expected command arrives.
+ * Frames for other commands are dropped; corrupt frames are thrown as FrameError.
+ * Returns an empty array if nothing arrived before the timeout.
+ *
+ * @param readChunk - resolves with the next chunk, or null on timeout or end of stream
+ */
+export async function readResponseFrame(
+  decoder: FrameDecoder,
+  readChunk: (timeout: number) => Promise<Uint8Array | null>,
+  timeout: number,
+  expect?: FrameExpectation,
+  source?: string
+): Promise<Uint8Array> {
+  const startTime = Date.now();
+
+  for (;;) {
+    let output: DecoderOutput | undefined;
+    while ((output = decoder.shift())) {
+      if (output.type === 'error') {
+        throw output.error;
+      }
+      if (output.type === 'garbage') {
+        log('INFO', `Discarded ${output.bytes.length} bytes outside a frame: ${toHex(maskCardData(output.bytes))}`, source);
+        continue;
+      }
+      if (!expect || matchesExpectation(output.frame, expect)) {
+        return output.frame;
+      }
+      log('INFO', `Dropped stray response to ${describeFrame(output.frame)}`, source);
+    }
+
+    const remaining = timeout - (Date.now() - startTime);
+    if (remaining <= 0) break;
+
+    const chunk = await readChunk(remaining);
+    if (!chunk) break;
+    decoder.push(chunk);
+  }
+
+  if (decoder.buffered > 0) {
+    const partial = decoder.reset();
+    throw new FrameError('truncated', `Incomplete frame (${partial.length} bytes) at timeout`, partial);
+  }
+
+  return new Uint8Array(0);
+}
+
+/**
+ * Drop everything received before a new command is sent. Complete frames are
+ * late answers to an earlier, timed-out command and are logged as such.
+ */
+export function dropStaleFrames(decoder: FrameDecoder, source?: string): void {
+  let output: DecoderOutput | undefined;
+  while ((output = decoder.shift())) {
+    if (output.type === 'frame') {
+      const frame = maskCardFrame(output.frame);
+      log('RX', `Stale response to ${describeFrame(frame)} dropped: ${toHex(frame)}`, source, frame);
+    } else if (output.type === 'error') {
+      const bytes = maskCardData(output.error.bytes);
+      log('RX', `Stale corrupt frame dropped: ${toHex(bytes)}`, source, bytes);
+    } else {
+      log('RX', `Stale bytes dropped: ${toHex(maskCardData(output.bytes))}`, source);
+    }
+  }
+
+  const partial = decoder.reset();
+  if (partial.length > 0) {
+    log('RX', `Stale partial frame dropped: ${toHex(maskCardData(partial))}`, source);
+  }
+}
+
+/**
+ * Expected CLASS/IDENT of the answer to a command frame
+ */
+export function expectationFor(command: Uint8Array): FrameExpectation | undefined {
+  if (command.length < 4) return undefined;
+  return { classId: command[2], ident: command[3] };
+}
+
+function matchesExpectation(frame: Uint8Array, expect: FrameExpectation): boolean {
+  return frame[2] === expect.classId && frame[3] === expect.ident;
+}
+
+function describeFrame(frame: Uint8Array): string {
+  const hex = (b: number) => `0x${b.toString(16).padStart(2, '0')}`;
+  return `CLASS ${hex(frame[2])} IDENT ${hex(frame[3])}`;
+}
+
+/**
+ * Remove the leading DLE bytes and ACK prefix the reader puts before a response.
+ * Reports each stripped DLE through the optional callback.
+ */
+export function stripResponsePrefix(
+  response: Uint8Array,
+  onDle?: () => void
+): Uint8Array {
+  // Strip leading DLE bytes (0x10) - device sends these on first command after connect
+  while (response.length > 0 && response[0] === DLE) {
+    onDle?.();
+    response = response.slice(1);
+  }
+
+  // Handle ACK prefix (0x01)
+  if (response.length > 1 && response[0] === ACK) {
+    return response.slice(1);
+  }
+
+  return response;
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildHuntCommand, toHex } from './nfc-device';
+import { DEFAULT_HUNT_SETTINGS, huntSettingsErrors, loadHuntSettings, saveHuntSettings } from './hunt-settings';
+
+// Minimal Web Storage: the tests run without a browser
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: key => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('buildHuntCommand', () => {
+  it('builds the known working hunt from the defaults', () => {
+    expect(toHex(buildHuntCommand(DEFAULT_HUNT_SETTINGS))).toBe('80 0A 01 03 00 00 02 11 03 01 01 14 00 9C F8');
+  });
+
+  it('places every setting in its byte of the data block', () => {
+    const command = buildHuntCommand({
+      isoa: false,
+      isob: true,
+      mifare: false,
+      forget: false,
+      timeout10ms: 0x32,
+      antenna: 4,
+      contact: 0x01,
+      config: 0x05,
+      flags: 0x00,
+    });
+    expect(toHex(command.subarray(4, 12))).toBe('01 04 00 05 00 00 00 32');
+  });
+});
+
+describe('huntSettingsErrors', () => {
+  it('accepts the defaults', () => {
+    expect(huntSettingsErrors(DEFAULT_HUNT_SETTINGS)).toEqual([]);
+  });
+
+  it('reports values out of range and a hunt without protocols', () => {
+    expect(huntSettingsErrors({
+      ...DEFAULT_HUNT_SETTINGS,
+      antenna: 5,
+      timeout10ms: 1.5,
+      isoa: false,
+      mifare: false,
+    })).toEqual([
+      'timeout10ms must be an integer from 0 to 255',
+      'antenna must be an integer from 1 to 4',
+      'Enable at least one protocol',
+    ]);
+  });
+});
+
+describe('loadHuntSettings', () => {
+  it('returns what was saved', () => {
+    const settings = { ...DEFAULT_HUNT_SETTINGS, isob: true, antenna: 1, pollInterval: 250 };
+    saveHuntSettings(settings);
+    expect(loadHuntSettings()).toEqual(settings);
+  });
+
+  it('falls back per setting for missing or mistyped values', () => {
+    localStorage.setItem('nfc-hunt-settings', JSON.stringify({ antenna: 3, isob: 'yes', timeout10ms: '20' }));
+    expect(loadHuntSettings()).toEqual({ ...DEFAULT_HUNT_SETTINGS, antenna: 3 });
+  });
+
+  it('ignores saved settings that are out of range or unreadable', () => {
+    localStorage.setItem('nfc-hunt-settings', JSON.stringify({ antenna: 9 }));
+    expect(loadHuntSettings()).toBe(DEFAULT_HUNT_SETTINGS);
+
+    localStorage.setItem('nfc-hunt-settings', '{not json');
+    expect(loadHuntSettings()).toBe(DEFAULT_HUNT_SETTINGS);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Hunt settings kept across reloads
+ * Every CSC_SearchCardExt parameter used by manual and continuous hunts, plus
+ * the pause between two polls of a continuous hunt.
+ */
+
+import { DEFAULT_HUNT_OPTIONS, HuntOptions } from './nfc-device';
+
+// localStorage key of the saved settings
+const HUNT_SETTINGS_KEY = 'nfc-hunt-settings';
+
+export interface HuntSettings extends Required<HuntOptions> {
+  /**
+   * Shortest pause between two polls of a continuous hunt, in ms
+   */
+  pollInterval: number;
+}
+
+export type NumericHuntSetting = 'timeout10ms' | 'antenna' | 'contact' | 'config' | 'flags' | 'pollInterval';
+
+export const DEFAULT_HUNT_SETTINGS: HuntSettings = {
+  ...DEFAULT_HUNT_OPTIONS,
+  pollInterval: 100,
+};
+
+/**
+ * Allowed [min, max] of each numeric setting
+ */
+export const HUNT_SETTING_RANGES: Record<NumericHuntSetting, [number, number]> = {
+  timeout10ms: [0x00, 0xff],
+  antenna: [1, 4],
+  contact: [0x00, 0xff],
+  config: [0x00, 0xff],
+  flags: [0x00, 0xff],
+  pollInterval: [20, 10000],
+};
+
+/**
+ * Problems that keep the settings from being used, empty when they are valid
+ */
+export function huntSettingsErrors(settings: HuntSettings): string[] {
+  const errors: string[] = [];
+  for (const [name, [min, max]] of Object.entries(HUNT_SETTING_RANGES)) {
+    const value = settings[name as NumericHuntSetting];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${name} must be an integer from ${min} to ${max}`);
+    }
+  }
+  if (!settings.isoa && !settings.isob && !settings.mifare && !settings.contact) {
+    errors.push('Enable at least one protocol');
+  }
+  return errors;
+}
+
+export function loadHuntSettings(): HuntSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(HUNT_SETTINGS_KEY) ?? 'null') as Record<string, unknown> | null;
+    if (!saved) return DEFAULT_HUNT_SETTINGS;
+    // Settings missing or of the wrong type fall back to their default
+    const settings: Record<string, unknown> = { ...DEFAULT_HUNT_SETTINGS };
+    for (const [name, value] of Object.entries(DEFAULT_HUNT_SETTINGS)) {
+      if (typeof saved[name] === typeof value) {
+        settings[name] = saved[name];
+      }
+    }
+    const loaded = settings as unknown as HuntSettings;
+    return huntSettingsErrors(loaded).length === 0 ? loaded : DEFAULT_HUNT_SETTINGS;
+  } catch {
+    return DEFAULT_HUNT_SETTINGS;
+  }
+}
+
+export function saveHuntSettings(settings: HuntSettings): void {
+  localStorage.setItem(HUNT_SETTINGS_KEY, JSON.stringify(settings));
+}
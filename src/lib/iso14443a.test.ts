@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { fromHex } from './nfc-device';
+import { parseAts, parseIsoAAtr } from './iso14443a';
+
+describe('parseAts', () => {
+  it('decodes TA, TB, TC and the historical bytes of a DESFire ATS', () => {
+    const ats = parseAts(fromHex('06 75 77 81 02 80'));
+    expect(ats).toMatchObject({
+      fsci: 5,
+      maxFrameSize: 64,
+      ta: { cardToReader: [212, 424, 848], readerToCard: [212, 424, 848], sameBitRate: false },
+      tb: { fwi: 8, sfgi: 1 },
+      tc: { nadSupported: false, cidSupported: true },
+      historicalBytes: '80',
+    });
+  });
+
+  it('applies the defaults for an ATS reduced to TL', () => {
+    expect(parseAts(fromHex('01'))).toEqual({ raw: '01', fsci: 2, maxFrameSize: 32, historicalBytes: '' });
+  });
+
+  it('rejects an ATS longer than the bytes received', () => {
+    expect(parseAts(fromHex('06 75 77'))).toBeNull();
+    expect(parseAts(new Uint8Array(0))).toBeNull();
+  });
+});
+
+describe('parseIsoAAtr', () => {
+  it('reads a triple size UID', () => {
+    const info = parseIsoAAtr(fromHex('0A 00 88 04 11 22 33 44 55 66 77 88 00 44'));
+    expect(info).toEqual({
+      uid: '88 04 11 22 33 44 55 66 77 88',
+      uidLength: 10,
+      atqa: '00 44',
+      sak: 0x00,
+      ats: undefined,
+    });
+  });
+
+  it('decodes the ATS that follows the ATQA', () => {
+    const info = parseIsoAAtr(fromHex('04 20 12 34 56 78 00 04 05 78 80 70 02'));
+    expect(info?.uid).toBe('12 34 56 78');
+    expect(info?.ats?.historicalBytes).toBe('');
+    expect(info?.ats?.tc?.cidSupported).toBe(true);
+  });
+
+  it('rejects unknown UID lengths and short blocks', () => {
+    expect(parseIsoAAtr(fromHex('05 00 11 22 33 44 55 00 44'))).toBeNull();
+    expect(parseIsoAAtr(fromHex('07 00 11 22 33'))).toBeNull();
+  });
+});
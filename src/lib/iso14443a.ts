@@ -0,0 +1,128 @@
+/**
+ * ISO 14443 type A answers returned by the hunt: UID, ATQA, SAK and the ATS
+ * (Answer To Select) of ISO-DEP cards
+ * ATS = TL, T0, [TA], [TB], [TC], historical bytes
+ */
+
+import { toHex } from './nfc-device';
+import { frameSizeFromIndex, frameTimeMs } from './iso14443b';
+
+// Single, double and triple size UIDs (ISO 14443-3, 6.5.4)
+export const UID_LENGTHS = [4, 7, 10] as const;
+
+export interface AtsInfo {
+  raw: string;
+  /**
+   * FSCI and the maximum frame size the card accepts
+   */
+  fsci: number;
+  maxFrameSize: number;
+  ta?: {
+    raw: string;
+    /**
+     * Divisors supported in each direction beyond 106 kbit/s
+     */
+    cardToReader: number[];
+    readerToCard: number[];
+    sameBitRate: boolean;
+  };
+  tb?: {
+    raw: string;
+    fwi: number;
+    fwtMs: number;
+    sfgi: number;
+    sfgtMs: number;
+  };
+  tc?: {
+    raw: string;
+    nadSupported: boolean;
+    cidSupported: boolean;
+  };
+  historicalBytes: string;
+}
+
+export interface IsoAInfo {
+  uid: string;
+  uidLength: number;
+  atqa: string;
+  sak: number;
+  ats?: AtsInfo;
+}
+
+/**
+ * Decode an ATS, starting with its length byte TL
+ */
+export function parseAts(ats: Uint8Array): AtsInfo | null {
+  const length = ats[0];
+  if (!length || length > ats.length) {
+    return null;
+  }
+  if (length === 1) {
+    // TL only: every parameter takes its default value
+    return { raw: toHex(ats.subarray(0, 1)), fsci: 2, maxFrameSize: frameSizeFromIndex(2), historicalBytes: '' };
+  }
+
+  const t0 = ats[1];
+  let offset = 2;
+  const info: AtsInfo = {
+    raw: toHex(ats.subarray(0, length)),
+    fsci: t0 & 0x0f,
+    maxFrameSize: frameSizeFromIndex(t0 & 0x0f),
+    historicalBytes: '',
+  };
+
+  if (t0 & 0x10 && offset < length) {
+    const ta = ats[offset++];
+    const rates = (bits: number) => [212, 424, 848].filter((_, i) => bits & (1 << i));
+    info.ta = {
+      raw: toHex(new Uint8Array([ta])),
+      cardToReader: rates(ta >> 4),
+      readerToCard: rates(ta),
+      sameBitRate: (ta & 0x80) !== 0,
+    };
+  }
+  if (t0 & 0x20 && offset < length) {
+    const tb = ats[offset++];
+    info.tb = {
+      raw: toHex(new Uint8Array([tb])),
+      fwi: tb >> 4,
+      fwtMs: frameTimeMs(tb >> 4),
+      sfgi: tb & 0x0f,
+      sfgtMs: (tb & 0x0f) === 0 ? 0 : frameTimeMs(tb & 0x0f),
+    };
+  }
+  if (t0 & 0x40 && offset < length) {
+    const tc = ats[offset++];
+    info.tc = {
+      raw: toHex(new Uint8Array([tc])),
+      nadSupported: (tc & 0x01) !== 0,
+      cidSupported: (tc & 0x02) !== 0,
+    };
+  }
+
+  info.historicalBytes = toHex(ats.subarray(offset, length));
+  return info;
+}
+
+/**
+ * Decode the ISO-A ATR block of a hunt answer: UID length, SAK, UID, ATQA, then
+ * the ATS when the card is ISO-DEP. Returns null when the lengths do not add up.
+ */
+export function parseIsoAAtr(atr: Uint8Array): IsoAInfo | null {
+  const uidLength = atr[0];
+  if (!UID_LENGTHS.includes(uidLength as typeof UID_LENGTHS[number]) || atr.length < 2 + uidLength + 2) {
+    return null;
+  }
+  const sak = atr[1];
+  const uid = atr.subarray(2, 2 + uidLength);
+  const atqa = atr.subarray(2 + uidLength, 4 + uidLength);
+  const ats = atr.subarray(4 + uidLength);
+
+  return {
+    uid: toHex(uid),
+    uidLength,
+    atqa: toHex(atqa),
+    sak,
+    ats: ats.length > 0 ? parseAts(ats) ?? undefined : undefined,
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { COM_TYPE, cardHunt, createNfcDevice, fromHex } from './nfc-device';
+import { DEFAULT_VIRTUAL_CARDS, createSimulatedTransport } from './simulated-reader';
+import { frameTimeMs, parseAttribResponse, parseIsoBAtr, parseProtocolInfo } from './iso14443b';
+
+describe('parseProtocolInfo', () => {
+  it('decodes bit rates, frame size, FWI and the ISO-DEP flag', () => {
+    const info = parseProtocolInfo(fromHex('B3 81 71'));
+    expect(info.bitRates).toEqual([212, 424]);
+    expect(info.sameBitRate).toBe(true);
+    expect(info.maxFrameSize).toBe(256);
+    expect(info.isoDep).toBe(true);
+    expect(info.fwi).toBe(7);
+    expect(info.fwtMs).toBe(frameTimeMs(7));
+    expect(info.cidSupported).toBe(true);
+    expect(info.nadSupported).toBe(false);
+    expect(parseProtocolInfo(fromHex('44 00 00')).bitRates).toEqual([848]);
+  });
+
+  it('computes FWT as 256 × 16 / fc × 2^FWI', () => {
+    expect(frameTimeMs(0)).toBe(0.3);
+    expect(frameTimeMs(4)).toBe(4.83);
+  });
+});
+
+describe('parseIsoBAtr', () => {
+  it('splits the ATQB and the ATTRIB answer', () => {
+    const info = parseIsoBAtr(fromHex('50 A1 B2 C3 D4 00 11 22 33 00 81 71 12 AB'));
+    expect(info).not.toBeNull();
+    expect(info!.pupi).toBe('A1 B2 C3 D4');
+    expect(info!.applicationData).toBe('00 11 22 33');
+    expect(info!.protocolInfo.raw).toBe('00 81 71');
+    expect(info!.attrib).toEqual({ raw: '12 AB', mbli: 1, cid: 2, higherLayer: 'AB' });
+  });
+
+  it('rejects blocks without an ATQB header or too short', () => {
+    expect(parseIsoBAtr(fromHex('51 A1 B2 C3 D4 00 11 22 33 00 81 71'))).toBeNull();
+    expect(parseIsoBAtr(fromHex('50 A1 B2'))).toBeNull();
+    expect(parseAttribResponse(new Uint8Array(0))).toBeUndefined();
+  });
+});
+
+describe('ISO-B hunt', () => {
+  it('reports the PUPI and ATQB details of a type B card', async () => {
+    const card = DEFAULT_VIRTUAL_CARDS.find(c => c.comType === COM_TYPE.ISOB)!;
+    const transport = createSimulatedTransport({ latency: 1 });
+    await transport.open();
+    transport.presentCard(card);
+    const device = createNfcDevice(transport);
+
+    const result = await cardHunt(device, { isob: true, timeout10ms: 1 });
+    expect(result.success).toBe(true);
+    expect(result.comType).toBe(COM_TYPE.ISOB);
+    expect(result.hexData).toBe(card.uid);
+    expect(result.isoB?.protocolInfo.isoDep).toBe(true);
+    expect(result.isoB?.attrib?.raw).toBe('00');
+  });
+});
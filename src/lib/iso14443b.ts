@@ -0,0 +1,128 @@
+/**
+ * ISO 14443-3 type B answers returned by the hunt: ATQB and the ATTRIB response
+ * ATQB = 0x50, PUPI (4), Application Data (4), Protocol Info (3)
+ */
+
+import { toHex } from './nfc-device';
+
+export const ATQB_HEADER = 0x50;
+export const ATQB_LENGTH = 12;
+
+// FSCI → maximum frame size the card accepts (ISO 14443-3, table 9)
+const FRAME_SIZES = [16, 24, 32, 40, 48, 64, 96, 128, 256];
+
+/**
+ * Frame size for an FSCI / Max_Frame_Size code (shared with the type A ATS)
+ */
+export function frameSizeFromIndex(index: number): number {
+  return FRAME_SIZES[index] ?? 256;
+}
+
+/**
+ * 256 × 16 / fc × 2^n in milliseconds (FWT from FWI, SFGT from SFGI), fc = 13.56 MHz
+ */
+export function frameTimeMs(exponent: number): number {
+  return Math.round((256 * 16 * 2 ** exponent) / 13560 * 100) / 100;
+}
+
+export interface IsoBProtocolInfo {
+  raw: string;
+  /**
+   * Bit rates supported in each direction beyond 106 kbit/s
+   */
+  bitRates: number[];
+  /**
+   * Same bit rate is required in both directions
+   */
+  sameBitRate: boolean;
+  maxFrameSize: number;
+  /**
+   * Card is compliant with ISO 14443-4 (Protocol_Type bit 1)
+   */
+  isoDep: boolean;
+  /**
+   * Frame Waiting time Integer; FWT = 256 × 16 / fc × 2^FWI
+   */
+  fwi: number;
+  fwtMs: number;
+  adc: number;
+  nadSupported: boolean;
+  cidSupported: boolean;
+}
+
+export interface IsoBAttrib {
+  raw: string;
+  /**
+   * Maximum Buffer Length Index (0 = not announced)
+   */
+  mbli: number;
+  cid: number;
+  /**
+   * Higher layer response carried after the first byte
+   */
+  higherLayer: string;
+}
+
+export interface IsoBInfo {
+  pupi: string;
+  applicationData: string;
+  protocolInfo: IsoBProtocolInfo;
+  attrib?: IsoBAttrib;
+}
+
+/**
+ * Decode the three Protocol Info bytes of an ATQB
+ */
+export function parseProtocolInfo(info: Uint8Array): IsoBProtocolInfo {
+  const [bitRate, frame, timing] = info;
+  const rates: number[] = [];
+  // Bits 3-1: PCD→PICC, bits 7-5: PICC→PCD; 212, 424 and 848 kbit/s
+  [212, 424, 848].forEach((rate, i) => {
+    if (bitRate & (1 << i) || bitRate & (1 << (i + 4))) rates.push(rate);
+  });
+  const fwi = timing >> 4;
+  return {
+    raw: toHex(info),
+    bitRates: rates,
+    sameBitRate: (bitRate & 0x80) !== 0,
+    maxFrameSize: frameSizeFromIndex(frame >> 4),
+    isoDep: (frame & 0x01) !== 0,
+    fwi,
+    fwtMs: frameTimeMs(fwi),
+    adc: (timing >> 2) & 0x03,
+    nadSupported: (timing & 0x02) !== 0,
+    cidSupported: (timing & 0x01) !== 0,
+  };
+}
+
+/**
+ * Decode the answer to ATTRIB: MBLI and CID in the first byte, then the
+ * optional higher layer response
+ */
+export function parseAttribResponse(answer: Uint8Array): IsoBAttrib | undefined {
+  if (answer.length === 0) {
+    return undefined;
+  }
+  return {
+    raw: toHex(answer),
+    mbli: answer[0] >> 4,
+    cid: answer[0] & 0x0f,
+    higherLayer: toHex(answer.subarray(1)),
+  };
+}
+
+/**
+ * Decode the ISO-B ATR block of a hunt answer: ATQB followed by the ATTRIB response.
+ * Returns null when the block does not start with a valid ATQB.
+ */
+export function parseIsoBAtr(atr: Uint8Array): IsoBInfo | null {
+  if (atr.length < ATQB_LENGTH || atr[0] !== ATQB_HEADER) {
+    return null;
+  }
+  return {
+    pupi: toHex(atr.subarray(1, 5)),
+    applicationData: toHex(atr.subarray(5, 9)),
+    protocolInfo: parseProtocolInfo(atr.subarray(9, 12)),
+    attrib: parseAttribResponse(atr.subarray(ATQB_LENGTH)),
+  };
+}
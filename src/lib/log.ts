@@ -0,0 +1,40 @@
+/**
+ * Shared TX/RX/INFO logging for all reader transports
+ */
+
+export type LogDirection = 'TX' | 'RX' | 'INFO';
+
+/**
+ * `frame` carries the raw bytes of logged TX/RX frames so the UI can dissect them;
+ * `source` is the name of the transport that logged the line
+ */
+export type SerialLogCallback = (
+  direction: LogDirection,
+  data: string,
+  frame: Uint8Array | undefined,
+  source: string
+) => void;
+
+let logCallback: SerialLogCallback | null = null;
+
+// Where every line is echoed; the CLI keeps its stdout for results
+let logConsole: ((line: string) => void) | null = line => console.log(line);
+
+export function setSerialLogCallback(callback: SerialLogCallback | null): void {
+  logCallback = callback;
+}
+
+/**
+ * Echo log lines through `writer` instead of console.log, or not at all with null
+ */
+export function setLogConsole(writer: ((line: string) => void) | null): void {
+  logConsole = writer;
+}
+
+export function log(direction: LogDirection, data: string, source: string = 'Serial', frame?: Uint8Array): void {
+  if (logCallback) {
+    logCallback(direction, data, frame, source);
+  }
+  const prefix = direction === 'TX' ? '→ TX:' : direction === 'RX' ? '← RX:' : 'ℹ INFO:';
+  logConsole?.(`[${source}] ${prefix} ${data}`);
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { cardHunt, createNfcDevice, fromHex, toHex } from './nfc-device';
+import { DEFAULT_VIRTUAL_CARDS, createSimulatedTransport } from './simulated-reader';
+import {
+  authenticateSector,
+  decodeAccessBits,
+  decodeValueBlock,
+  encodeAccessBits,
+  encodeValueBlock,
+  firstBlockOfSector,
+  incrementValue,
+  isTrailerBlock,
+  loadMifareKey,
+  mifareSectorCount,
+  readBlock,
+  sectorOfBlock,
+  trailerBlockOfSector,
+  writeBlock,
+} from './mifare';
+
+async function classicDevice() {
+  const transport = createSimulatedTransport({ latency: 1 });
+  await transport.open();
+  transport.presentCard(DEFAULT_VIRTUAL_CARDS[0]);
+  const device = createNfcDevice(transport);
+  expect((await cardHunt(device, { timeout10ms: 1 })).success).toBe(true);
+  return device;
+}
+
+describe('card geometry', () => {
+  it('maps the 4-block and 16-block sectors of a 4K card', () => {
+    expect(mifareSectorCount(0x18)).toBe(40);
+    expect(mifareSectorCount(0x08)).toBe(16);
+    expect(firstBlockOfSector(31)).toBe(124);
+    expect(firstBlockOfSector(32)).toBe(128);
+    expect(trailerBlockOfSector(32)).toBe(143);
+    expect(sectorOfBlock(143)).toBe(32);
+    expect(isTrailerBlock(3)).toBe(true);
+    expect(isTrailerBlock(131)).toBe(false);
+  });
+});
+
+describe('value blocks', () => {
+  it('round-trips a negative value with its address', () => {
+    const block = encodeValueBlock(-5, 4);
+    expect(decodeValueBlock(block)).toEqual({ value: -5, address: 4 });
+  });
+
+  it('rejects a block whose copies disagree', () => {
+    const block = encodeValueBlock(100);
+    block[8] ^= 0x01;
+    expect(decodeValueBlock(block)).toBeNull();
+    expect(decodeValueBlock(new Uint8Array(4))).toBeNull();
+  });
+});
+
+describe('access bits', () => {
+  it('decodes the transport configuration FF 07 80', () => {
+    const trailer = fromHex('FF FF FF FF FF FF FF 07 80 69 FF FF FF FF FF FF');
+    const access = decodeAccessBits(trailer);
+    expect(access.valid).toBe(true);
+    expect(access.blocks.map(b => b.bits)).toEqual(['000', '000', '000', '001']);
+    expect(access.userByte).toBe(0x69);
+  });
+
+  it('encodes what it decodes', () => {
+    expect(toHex(encodeAccessBits(['000', '000', '000', '001']))).toBe('FF 07 80 69');
+
+    const bits: [string, string, string, string] = ['110', '100', '001', '011'];
+    const trailer = new Uint8Array(16);
+    trailer.set(encodeAccessBits(bits, 0x00), 6);
+    const access = decodeAccessBits(trailer);
+    expect(access.valid).toBe(true);
+    expect(access.blocks.map(b => b.bits)).toEqual(bits);
+  });
+
+  it('flags bytes whose inverted copies do not match', () => {
+    expect(decodeAccessBits(fromHex('00 00 00 00 00 00 FF 07 81 69')).valid).toBe(false);
+  });
+});
+
+describe('reader operations', () => {
+  it('authenticates with the transport key, then writes and reads a block', async () => {
+    const device = await classicDevice();
+    expect((await loadMifareKey(device, 0, 'FF FF FF FF FF FF')).success).toBe(true);
+    expect((await authenticateSector(device, 1, 'A', 0)).success).toBe(true);
+
+    const data = fromHex('00 11 22 33 44 55 66 77 88 99 AA BB CC DD EE FF');
+    expect((await writeBlock(device, 4, data)).success).toBe(true);
+    const read = await readBlock(device, 4);
+    expect(read.success).toBe(true);
+    expect(read.data).toEqual(data);
+  });
+
+  it('increments a value block through the transfer buffer', async () => {
+    const device = await classicDevice();
+    await loadMifareKey(device, 0, 'FF FF FF FF FF FF');
+    await authenticateSector(device, 1, 'A', 0);
+    await writeBlock(device, 5, encodeValueBlock(10, 5));
+
+    expect((await incrementValue(device, 5, 3)).success).toBe(true);
+    const read = await readBlock(device, 5);
+    expect(decodeValueBlock(read.data!)).toEqual({ value: 13, address: 5 });
+  });
+
+  it('fails authentication with a wrong key', async () => {
+    const device = await classicDevice();
+    await loadMifareKey(device, 1, '01 02 03 04 05 06');
+    expect((await authenticateSector(device, 1, 'A', 1)).success).toBe(false);
+  });
+
+  it('guards block 0, trailers and malformed keys before talking to the reader', async () => {
+    const device = await classicDevice();
+    const block = new Uint8Array(16);
+    expect((await writeBlock(device, 0, block)).message).toMatch(/manufacturer/);
+    expect((await writeBlock(device, 7, block)).message).toMatch(/allowTrailer/);
+    expect((await writeBlock(device, 7, block, { allowTrailer: true })).message).toMatch(/inconsistent access bits/);
+    expect((await loadMifareKey(device, 0, 'FF FF')).success).toBe(false);
+    expect((await loadMifareKey(device, 32, 'FF FF FF FF FF FF')).success).toBe(false);
+  });
+});
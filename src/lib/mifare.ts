@@ -0,0 +1,446 @@
+/**
+ * MIFARE Classic commands through the ASK CSC MIFARE class
+ * Keys are loaded into reader key slots, then a sector is authenticated with
+ * key A or B before its blocks can be read, written or used as value blocks.
+ */
+
+import {
+  NfcDevice,
+  NfcCommandResult,
+  CMD_EXECUTE,
+  STATUS_OK,
+  buildCommand,
+  fromHex,
+  responseData,
+  sendCommand,
+  toHex,
+} from './nfc-device';
+import { CommandOptions } from './command-queue';
+import { describeStatus, formatStatus } from './status-codes';
+
+// Function Class
+export const CLASS_MIFARE = 0x07;
+
+// MIFARE Commands
+export const MIFARE_LOAD_KEY = 0x01;
+export const MIFARE_AUTHENTICATE = 0x02;
+export const MIFARE_READ_BLOCK = 0x03;
+export const MIFARE_WRITE_BLOCK = 0x04;
+export const MIFARE_INCREMENT = 0x05;
+export const MIFARE_DECREMENT = 0x06;
+export const MIFARE_RESTORE = 0x07;
+export const MIFARE_TRANSFER = 0x08;
+
+// Key type codes, as in the MIFARE AUTH command
+export const MIFARE_KEY_A = 0x60;
+export const MIFARE_KEY_B = 0x61;
+
+export type MifareKeyType = 'A' | 'B';
+
+export const MIFARE_BLOCK_SIZE = 16;
+export const MIFARE_KEY_SIZE = 6;
+export const MIFARE_KEY_SLOTS = 32;
+
+// Transport configuration keys commonly found on blank and demo cards
+export const DEFAULT_MIFARE_KEYS = [
+  'FF FF FF FF FF FF',
+  'A0 A1 A2 A3 A4 A5',
+  'D3 F7 D3 F7 D3 F7',
+  '00 00 00 00 00 00',
+];
+
+// ============================================================================
+// Card geometry
+// ============================================================================
+
+/**
+ * SAK bit 4 (0x08) marks MIFARE Classic compatible cards (Classic 1K/4K/Mini, Plus SL1)
+ */
+export function isMifareClassic(sak: number): boolean {
+  return (sak & 0x08) !== 0;
+}
+
+/**
+ * Number of sectors for a MIFARE Classic card: 1K has 16, 4K has 40, Mini has 5
+ */
+export function mifareSectorCount(sak: number): number {
+  if (sak === 0x18) return 40;
+  if (sak === 0x09) return 5;
+  return 16;
+}
+
+/**
+ * Sectors 0-31 have 4 blocks, sectors 32-39 (4K only) have 16
+ */
+export function blocksInSector(sector: number): number {
+  return sector < 32 ? 4 : 16;
+}
+
+export function firstBlockOfSector(sector: number): number {
+  return sector < 32 ? sector * 4 : 128 + (sector - 32) * 16;
+}
+
+export function trailerBlockOfSector(sector: number): number {
+  return firstBlockOfSector(sector) + blocksInSector(sector) - 1;
+}
+
+export function sectorOfBlock(block: number): number {
+  return block < 128 ? Math.floor(block / 4) : 32 + Math.floor((block - 128) / 16);
+}
+
+export function isTrailerBlock(block: number): boolean {
+  return trailerBlockOfSector(sectorOfBlock(block)) === block;
+}
+
+// ============================================================================
+// Command builders
+// ============================================================================
+
+export function buildLoadKeyCommand(keyIndex: number, key: Uint8Array): Uint8Array {
+  return buildCommand(CMD_EXECUTE, CLASS_MIFARE, MIFARE_LOAD_KEY, new Uint8Array([keyIndex, ...key]));
+}
+
+export function buildAuthenticateCommand(block: number, keyType: MifareKeyType, keyIndex: number): Uint8Array {
+  const type = keyType === 'A' ? MIFARE_KEY_A : MIFARE_KEY_B;
+  return buildCommand(CMD_EXECUTE, CLASS_MIFARE, MIFARE_AUTHENTICATE, new Uint8Array([block, type, keyIndex]));
+}
+
+export function buildReadBlockCommand(block: number): Uint8Array {
+  return buildCommand(CMD_EXECUTE, CLASS_MIFARE, MIFARE_READ_BLOCK, new Uint8Array([block]));
+}
+
+export function buildWriteBlockCommand(block: number, data: Uint8Array): Uint8Array {
+  return buildCommand(CMD_EXECUTE, CLASS_MIFARE, MIFARE_WRITE_BLOCK, new Uint8Array([block, ...data]));
+}
+
+/**
+ * Build INCREMENT / DECREMENT (with a value) or RESTORE / TRANSFER (block only)
+ */
+export function buildValueCommand(ident: number, block: number, value?: number): Uint8Array {
+  const data = value === undefined ? new Uint8Array([block]) : new Uint8Array(5);
+  if (value !== undefined) {
+    data[0] = block;
+    new DataView(data.buffer).setUint32(1, value >>> 0, true);
+  }
+  return buildCommand(CMD_EXECUTE, CLASS_MIFARE, ident, data);
+}
+
+// ============================================================================
+// Value blocks
+// ============================================================================
+
+/**
+ * Encode a signed 32-bit value block: value, ~value, value, then addr, ~addr, addr, ~addr
+ */
+export function encodeValueBlock(value: number, address: number = 0): Uint8Array {
+  const block = new Uint8Array(MIFARE_BLOCK_SIZE);
+  const view = new DataView(block.buffer);
+  view.setInt32(0, value, true);
+  view.setInt32(4, ~value, true);
+  view.setInt32(8, value, true);
+  block[12] = address & 0xff;
+  block[13] = ~address & 0xff;
+  block[14] = address & 0xff;
+  block[15] = ~address & 0xff;
+  return block;
+}
+
+/**
+ * Decode a value block, or null if the redundant copies do not agree
+ */
+export function decodeValueBlock(block: Uint8Array): { value: number; address: number } | null {
+  if (block.length !== MIFARE_BLOCK_SIZE) return null;
+  const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  const value = view.getInt32(0, true);
+  if (view.getInt32(4, true) !== ~value || view.getInt32(8, true) !== value) return null;
+  const address = block[12];
+  if (block[13] !== (~address & 0xff) || block[14] !== address || block[15] !== (~address & 0xff)) return null;
+  return { value, address };
+}
+
+// ============================================================================
+// Access conditions
+// ============================================================================
+
+export interface AccessCondition {
+  /**
+   * Access bits C1 C2 C3 as a 3-character string, e.g. "001"
+   */
+  bits: string;
+  description: string;
+}
+
+export interface SectorAccess {
+  valid: boolean;
+  /**
+   * Conditions for data blocks 0, 1, 2 (block groups on 16-block sectors) and the trailer
+   */
+  blocks: [AccessCondition, AccessCondition, AccessCondition, AccessCondition];
+  userByte: number;
+}
+
+const DATA_BLOCK_ACCESS: Record<string, string> = {
+  '000': 'Read/write/increment/decrement with key A|B (transport configuration)',
+  '010': 'Read with key A|B, never write',
+  '100': 'Read with key A|B, write with key B',
+  '110': 'Read with key A|B, write and increment with key B, decrement with key A|B (value block)',
+  '001': 'Read and decrement with key A|B, never write (value block)',
+  '011': 'Read and write with key B only',
+  '101': 'Read with key B only, never write',
+  '111': 'No access',
+};
+
+const TRAILER_ACCESS: Record<string, string> = {
+  '000': 'Key A: write with A; access bits: read with A; key B: read/write with A',
+  '010': 'Key A: never write; access bits: read with A; key B: read with A',
+  '100': 'Key A: write with B; access bits: read with A|B; key B: write with B',
+  '110': 'Keys and access bits: read-only (access bits readable with A|B)',
+  '001': 'Key A: write with A; access bits: read/write with A; key B: read/write with A (transport configuration)',
+  '011': 'Key A: write with B; access bits: read with A|B, write with B; key B: write with B',
+  '101': 'Keys: never write; access bits: read with A|B, write with B',
+  '111': 'Keys and access bits: read-only (access bits readable with A|B)',
+};
+
+/**
+ * Decode access bytes 6-8 of a sector trailer
+ */
+export function decodeAccessBits(trailer: Uint8Array): SectorAccess {
+  const b6 = trailer[6];
+  const b7 = trailer[7];
+  const b8 = trailer[8];
+
+  // Each bit is stored twice: inverted in the low nibbles, plain in the high ones
+  const c1 = (b7 >> 4) & 0x0f;
+  const c2 = b8 & 0x0f;
+  const c3 = (b8 >> 4) & 0x0f;
+  const valid = ((~b6) & 0x0f) === c1 && ((~b6 >> 4) & 0x0f) === c2 && ((~b7) & 0x0f) === c3;
+
+  const condition = (index: number): AccessCondition => {
+    const bits = `${(c1 >> index) & 1}${(c2 >> index) & 1}${(c3 >> index) & 1}`;
+    const table = index === 3 ? TRAILER_ACCESS : DATA_BLOCK_ACCESS;
+    return { bits, description: table[bits] };
+  };
+
+  return {
+    valid,
+    blocks: [condition(0), condition(1), condition(2), condition(3)],
+    userByte: trailer[9],
+  };
+}
+
+/**
+ * Encode access bits C1C2C3 for data blocks 0-2 and the trailer into bytes 6-9
+ */
+export function encodeAccessBits(bits: [string, string, string, string], userByte: number = 0x69): Uint8Array {
+  let c1 = 0;
+  let c2 = 0;
+  let c3 = 0;
+  bits.forEach((b, index) => {
+    c1 |= (b[0] === '1' ? 1 : 0) << index;
+    c2 |= (b[1] === '1' ? 1 : 0) << index;
+    c3 |= (b[2] === '1' ? 1 : 0) << index;
+  });
+  return new Uint8Array([
+    ((~c2 & 0x0f) << 4) | (~c1 & 0x0f),
+    (c1 << 4) | (~c3 & 0x0f),
+    (c3 << 4) | c2,
+    userByte,
+  ]);
+}
+
+// ============================================================================
+// Reader operations
+// ============================================================================
+
+/**
+ * Store a 6-byte key in one of the reader's key slots
+ */
+export async function loadMifareKey(
+  device: NfcDevice,
+  keyIndex: number,
+  key: Uint8Array | string,
+  options: CommandOptions = {}
+): Promise<NfcCommandResult> {
+  let keyBytes: Uint8Array;
+  try {
+    keyBytes = typeof key === 'string' ? fromHex(key) : key;
+  } catch (error) {
+    return { success: false, message: `Invalid key: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (keyBytes.length !== MIFARE_KEY_SIZE) {
+    return { success: false, message: `Key must be ${MIFARE_KEY_SIZE} bytes (got ${keyBytes.length})` };
+  }
+  if (keyIndex < 0 || keyIndex >= MIFARE_KEY_SLOTS) {
+    return { success: false, message: `Key slot must be 0-${MIFARE_KEY_SLOTS - 1}` };
+  }
+  return runMifareCommand(device, buildLoadKeyCommand(keyIndex, keyBytes), `Key loaded in slot ${keyIndex}`, options);
+}
+
+/**
+ * Authenticate a sector with the key held in a reader slot
+ */
+export async function authenticateSector(
+  device: NfcDevice,
+  sector: number,
+  keyType: MifareKeyType,
+  keyIndex: number,
+  options: CommandOptions = {}
+): Promise<NfcCommandResult> {
+  const block = firstBlockOfSector(sector);
+  return runMifareCommand(
+    device,
+    buildAuthenticateCommand(block, keyType, keyIndex),
+    `Sector ${sector} authenticated with key ${keyType}`,
+    options
+  );
+}
+
+/**
+ * Read one 16-byte block of an authenticated sector
+ */
+export async function readBlock(
+  device: NfcDevice,
+  block: number,
+  options: CommandOptions = {}
+): Promise<NfcCommandResult> {
+  const result = await runMifareCommand(device, buildReadBlockCommand(block), `Block ${block} read`, options);
+  if (!result.success || !result.data) {
+    return result;
+  }
+  if (result.data.length !== MIFARE_BLOCK_SIZE) {
+    return { ...result, success: false, message: `Block ${block}: expected 16 bytes, got ${result.data.length}` };
+  }
+  return result;
+}
+
+/**
+ * Write one 16-byte block. Block 0 is refused; trailers need allowTrailer
+ * because bad access bits lock the sector for good.
+ */
+export async function writeBlock(
+  device: NfcDevice,
+  block: number,
+  data: Uint8Array,
+  options: CommandOptions & { allowTrailer?: boolean } = {}
+): Promise<NfcCommandResult> {
+  if (data.length !== MIFARE_BLOCK_SIZE) {
+    return { success: false, message: `Block data must be 16 bytes (got ${data.length})` };
+  }
+  if (block === 0) {
+    return { success: false, message: 'Block 0 holds the manufacturer data and is not written' };
+  }
+  if (isTrailerBlock(block)) {
+    if (!options.allowTrailer) {
+      return { success: false, message: `Block ${block} is a sector trailer; writing it needs allowTrailer` };
+    }
+    if (!decodeAccessBits(data).valid) {
+      return { success: false, message: 'Refusing to write a trailer with inconsistent access bits' };
+    }
+  }
+  return runMifareCommand(device, buildWriteBlockCommand(block, data), `Block ${block} written`, options);
+}
+
+/**
+ * Add to a value block and transfer the result (to the same block by default)
+ */
+export async function incrementValue(
+  device: NfcDevice,
+  block: number,
+  amount: number,
+  transferBlock: number = block,
+  options: CommandOptions = {}
+): Promise<NfcCommandResult> {
+  const result = await runMifareCommand(
+    device,
+    buildValueCommand(MIFARE_INCREMENT, block, amount),
+    `Block ${block} incremented by ${amount}`,
+    options
+  );
+  return result.success ? transferValue(device, transferBlock, options) : result;
+}
+
+/**
+ * Subtract from a value block and transfer the result (to the same block by default)
+ */
+export async function decrementValue(
+  device: NfcDevice,
+  block: number,
+  amount: number,
+  transferBlock: number = block,
+  options: CommandOptions = {}
+): Promise<NfcCommandResult> {
+  const result = await runMifareCommand(
+    device,
+    buildValueCommand(MIFARE_DECREMENT, block, amount),
+    `Block ${block} decremented by ${amount}`,
+    options
+  );
+  return result.success ? transferValue(device, transferBlock, options) : result;
+}
+
+/**
+ * Copy a value block into another (backup) block through the card's transfer buffer
+ */
+export async function restoreValue(
+  device: NfcDevice,
+  block: number,
+  transferBlock: number,
+  options: CommandOptions = {}
+): Promise<NfcCommandResult> {
+  const result = await runMifareCommand(
+    device,
+    buildValueCommand(MIFARE_RESTORE, block),
+    `Block ${block} restored`,
+    options
+  );
+  return result.success ? transferValue(device, transferBlock, options) : result;
+}
+
+/**
+ * Commit the card's transfer buffer to a block
+ */
+export async function transferValue(
+  device: NfcDevice,
+  block: number,
+  options: CommandOptions = {}
+): Promise<NfcCommandResult> {
+  return runMifareCommand(device, buildValueCommand(MIFARE_TRANSFER, block), `Transferred to block ${block}`, options);
+}
+
+/**
+ * Send a MIFARE command and check the reader status byte.
+ * On success, data holds the bytes following the status.
+ */
+async function runMifareCommand(
+  device: NfcDevice,
+  command: Uint8Array,
+  successMessage: string,
+  options: CommandOptions
+): Promise<NfcCommandResult> {
+  const result = await sendCommand(device, command, 2000, options);
+  if (!result.success || !result.data) {
+    return result;
+  }
+
+  const data = responseData(result.data);
+  const status = data.length > 0 ? data[0] : -1;
+  if (status !== STATUS_OK) {
+    return {
+      success: false,
+      data: result.data,
+      hexData: result.hexData,
+      status: status < 0 ? undefined : describeStatus(status),
+      message: status < 0
+        ? 'Empty MIFARE response'
+        : `MIFARE command failed: ${formatStatus(status)}`,
+    };
+  }
+
+  const payload = data.subarray(1);
+  return {
+    success: true,
+    data: payload,
+    hexData: toHex(payload),
+    message: successMessage,
+  };
+}
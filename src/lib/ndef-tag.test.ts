@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { COM_TYPE, cardHunt, createNfcDevice, fromHex, toHex } from './nfc-device';
+import { VirtualCard, createSimulatedTransport } from './simulated-reader';
+import { createTextRecord, createUriRecord, encodeNdefMessage } from './ndef';
+import { TLV, encodeNdefTlv, ndefTagType, parseType2CapabilityContainer, parseType2Tlvs, readNdef, writeNdef } from './ndef-tag';
+
+const NTAG: VirtualCard = {
+  label: 'NTAG213',
+  uid: '04 A2 5B 3A 6F 61 80',
+  atqa: '00 44',
+  sak: 0x00,
+  comType: COM_TYPE.ISOA,
+  ndef: encodeNdefMessage([createTextRecord('Hello')]),
+};
+
+const TYPE4: VirtualCard = {
+  label: 'Type 4 tag',
+  uid: '5A 6B 7C 8D',
+  atqa: '00 04',
+  sak: 0x20,
+  comType: COM_TYPE.ISOA,
+  ats: '05 78 80 70 02',
+  ndef: encodeNdefMessage([createUriRecord('https://example.org')]),
+};
+
+async function deviceWithCard(card: VirtualCard) {
+  const transport = createSimulatedTransport({ cards: [card], latency: 1 });
+  await transport.open();
+  transport.presentCard(card);
+  const device = createNfcDevice(transport);
+  expect((await cardHunt(device, { timeout10ms: 1 })).success).toBe(true);
+  return device;
+}
+
+describe('Type 2 structures', () => {
+  it('parses the capability container of an NTAG213', () => {
+    expect(parseType2CapabilityContainer(fromHex('E1 10 12 00'))).toEqual({
+      version: '1.0',
+      dataSize: 144,
+      readAccess: 0,
+      writeAccess: 0,
+    });
+    expect(() => parseType2CapabilityContainer(fromHex('00 00 00 00'))).toThrow(/capability container/);
+  });
+
+  it('walks TLVs past NULL padding and stops at the terminator', () => {
+    const message = encodeNdefMessage([createTextRecord('Hi')]);
+    const data = new Uint8Array([TLV.NULL, ...encodeNdefTlv(message), 0xaa]);
+    const tlvs = parseType2Tlvs(data);
+    expect(tlvs).toHaveLength(1);
+    expect(tlvs[0]).toMatchObject({ type: TLV.NDEF, offset: 1 });
+    expect(tlvs[0].value).toEqual(message);
+  });
+
+  it('uses the three-byte length format for long messages', () => {
+    const tlv = encodeNdefTlv(new Uint8Array(300));
+    expect(toHex(tlv.subarray(0, 4))).toBe('03 FF 01 2C');
+    expect(parseType2Tlvs(tlv)[0].value).toHaveLength(300);
+    expect(() => parseType2Tlvs(tlv.subarray(0, 10))).toThrow(/past the data area/);
+  });
+});
+
+describe('ndefTagType', () => {
+  it('maps ISO-DEP cards to Type 4 and SAK 00 tags to Type 2', () => {
+    expect(ndefTagType({ comType: COM_TYPE.ISOA, sak: '20' })).toBe('type4');
+    expect(ndefTagType({ comType: COM_TYPE.ISOA, sak: '00' })).toBe('type2');
+    expect(ndefTagType({ comType: COM_TYPE.MIFARE, sak: '08' })).toBeNull();
+  });
+});
+
+describe('readNdef / writeNdef', () => {
+  it('reads and rewrites the message of a Type 2 tag', async () => {
+    const device = await deviceWithCard(NTAG);
+    const read = await readNdef(device);
+    expect(read.success).toBe(true);
+    expect(read.tagType).toBe('type2');
+    expect(read.records).toMatchObject([{ kind: 'text', text: 'Hello' }]);
+
+    expect((await writeNdef(device, [createUriRecord('https://example.com/a')])).success).toBe(true);
+    expect((await readNdef(device)).records).toMatchObject([{ kind: 'uri', uri: 'https://example.com/a' }]);
+  });
+
+  it('reads and rewrites the message of a Type 4 tag', async () => {
+    const device = await deviceWithCard(TYPE4);
+    const read = await readNdef(device);
+    expect(read.success).toBe(true);
+    expect(read.tagType).toBe('type4');
+    expect(read.records).toMatchObject([{ kind: 'uri', uri: 'https://example.org' }]);
+
+    expect((await writeNdef(device, [createTextRecord('Updated')])).success).toBe(true);
+    expect((await readNdef(device)).records).toMatchObject([{ kind: 'text', text: 'Updated' }]);
+  });
+});
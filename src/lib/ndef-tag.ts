@@ -0,0 +1,463 @@
+/**
+ * NDEF storage on NFC Forum Type 2 and Type 4 tags
+ * Type 2 tags (NTAG, MIFARE Ultralight) keep a Capability Container in page 3
+ * and TLV blocks from page 4, reached with raw READ/WRITE frames. Type 4 tags
+ * expose an NDEF application with a CC file and an NDEF file over APDUs.
+ */
+
+import { NfcDevice, NfcCommandResult, toHex } from './nfc-device';
+import { CommandOptions } from './command-queue';
+import { sendCardApdu, sendCardFrame, supportsIsoDep } from './apdu';
+import { NdefRawRecord, NdefRecord, encodeNdefMessage, parseNdefMessage } from './ndef';
+
+export type NdefTagType = 'type2' | 'type4';
+
+// Type 2 commands (NFC Forum Type 2 Tag Operation)
+export const T2_READ = 0x30;
+export const T2_WRITE = 0xa2;
+const T2_ACK = 0x0a;
+const T2_PAGE_SIZE = 4;
+const T2_CC_PAGE = 3;
+const T2_DATA_PAGE = 4;
+const T2_CC_MAGIC = 0xe1;
+
+// TLV block types in the Type 2 data area
+export const TLV = {
+  NULL: 0x00,
+  LOCK_CONTROL: 0x01,
+  MEMORY_CONTROL: 0x02,
+  NDEF: 0x03,
+  PROPRIETARY: 0xfd,
+  TERMINATOR: 0xfe,
+} as const;
+
+// Type 4 NDEF Tag Application and well-known file
+export const NDEF_APPLICATION_AID = 'D2760000850101';
+export const T4_CC_FILE_ID = 0xe103;
+
+export interface Type2CapabilityContainer {
+  version: string;
+  /**
+   * Data area size in bytes (CC byte 2 × 8)
+   */
+  dataSize: number;
+  readAccess: number;
+  writeAccess: number;
+}
+
+export interface Type4CapabilityContainer {
+  version: string;
+  maxReadLength: number;
+  maxWriteLength: number;
+  ndefFileId: number;
+  maxNdefSize: number;
+  readAccess: number;
+  writeAccess: number;
+}
+
+export interface Type2Tlv {
+  type: number;
+  /**
+   * Offset of the TLV in the data area
+   */
+  offset: number;
+  value: Uint8Array;
+}
+
+export interface NdefReadResult {
+  success: boolean;
+  tagType?: NdefTagType;
+  records?: NdefRecord[];
+  /**
+   * Raw NDEF message as stored on the tag
+   */
+  message?: Uint8Array;
+  /**
+   * Largest NDEF message the tag can hold
+   */
+  capacity?: number;
+  writable?: boolean;
+  hexData?: string;
+  info: string;
+}
+
+/**
+ * Pick the NDEF mapping for a hunted card, or null for cards without one
+ * (MIFARE Classic NDEF needs sector keys and is handled by the MIFARE editor)
+ */
+export function ndefTagType(card: { comType?: number; sak?: string }): NdefTagType | null {
+  if (supportsIsoDep(card)) {
+    return 'type4';
+  }
+  // SAK 0x00: ISO 14443-3 only tag such as NTAG or MIFARE Ultralight
+  return card.sak && parseInt(card.sak, 16) === 0x00 ? 'type2' : null;
+}
+
+/**
+ * Read and parse the NDEF message of the selected card
+ */
+export async function readNdef(device: NfcDevice, options: CommandOptions = {}): Promise<NdefReadResult> {
+  if (!device.selectedCard) {
+    return { success: false, info: 'No card selected. Run a card hunt first.' };
+  }
+  const tagType = ndefTagType(device.selectedCard);
+  if (!tagType) {
+    return { success: false, info: 'Card has no NFC Forum NDEF mapping' };
+  }
+
+  try {
+    const { message, capacity, writable } = tagType === 'type2'
+      ? await readType2Ndef(device, options)
+      : await readType4Ndef(device, options);
+    const records = parseNdefMessage(message);
+    return {
+      success: true,
+      tagType,
+      records,
+      message,
+      capacity,
+      writable,
+      hexData: toHex(message),
+      info: `${records.length} NDEF record${records.length === 1 ? '' : 's'} (${message.length}/${capacity} bytes)`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      tagType,
+      info: `NDEF read failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Encode records and store them as the NDEF message of the selected card
+ */
+export async function writeNdef(
+  device: NfcDevice,
+  records: NdefRawRecord[],
+  options: CommandOptions = {}
+): Promise<NfcCommandResult> {
+  if (!device.selectedCard) {
+    return { success: false, message: 'No card selected. Run a card hunt first.' };
+  }
+  const tagType = ndefTagType(device.selectedCard);
+  if (!tagType) {
+    return { success: false, message: 'Card has no NFC Forum NDEF mapping' };
+  }
+
+  const message = encodeNdefMessage(records);
+  try {
+    if (tagType === 'type2') {
+      await writeType2Ndef(device, message, options);
+    } else {
+      await writeType4Ndef(device, message, options);
+    }
+    return {
+      success: true,
+      data: message,
+      hexData: toHex(message),
+      message: `NDEF message written (${message.length} bytes)`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `NDEF write failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+// ============================================================================
+// Type 2
+// ============================================================================
+
+export function parseType2CapabilityContainer(cc: Uint8Array): Type2CapabilityContainer {
+  if (cc.length < 4 || cc[0] !== T2_CC_MAGIC) {
+    throw new Error(`No NDEF capability container (page 3 = ${toHex(cc.subarray(0, 4))})`);
+  }
+  return {
+    version: `${cc[1] >> 4}.${cc[1] & 0x0f}`,
+    dataSize: cc[2] * 8,
+    readAccess: cc[3] >> 4,
+    writeAccess: cc[3] & 0x0f,
+  };
+}
+
+/**
+ * Walk the TLV blocks of a Type 2 data area up to the terminator
+ */
+export function parseType2Tlvs(data: Uint8Array): Type2Tlv[] {
+  const tlvs: Type2Tlv[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const start = offset;
+    const type = data[offset++];
+    if (type === TLV.NULL) continue;
+    if (type === TLV.TERMINATOR) break;
+
+    if (offset >= data.length) {
+      throw new Error(`TLV at offset ${start} is truncated`);
+    }
+    let length = data[offset++];
+    if (length === 0xff) {
+      // Three-byte length format: FF followed by a 16-bit length
+      if (offset + 2 > data.length) {
+        throw new Error(`TLV at offset ${start} is truncated`);
+      }
+      length = (data[offset] << 8) | data[offset + 1];
+      offset += 2;
+    }
+    if (offset + length > data.length) {
+      throw new Error(`TLV at offset ${start} runs past the data area`);
+    }
+    tlvs.push({ type, offset: start, value: data.slice(offset, offset + length) });
+    offset += length;
+  }
+  return tlvs;
+}
+
+/**
+ * Wrap an NDEF message in an NDEF TLV followed by a terminator
+ */
+export function encodeNdefTlv(message: Uint8Array): Uint8Array {
+  const header = message.length < 0xff
+    ? [TLV.NDEF, message.length]
+    : [TLV.NDEF, 0xff, message.length >> 8, message.length & 0xff];
+  const tlv = new Uint8Array(header.length + message.length + 1);
+  tlv.set(header);
+  tlv.set(message, header.length);
+  tlv[tlv.length - 1] = TLV.TERMINATOR;
+  return tlv;
+}
+
+/**
+ * READ returns four pages (16 bytes) starting at the given page
+ */
+async function readType2Pages(device: NfcDevice, page: number, options: CommandOptions): Promise<Uint8Array> {
+  const result = await sendCardFrame(device, new Uint8Array([T2_READ, page]), options);
+  if (!result.success || !result.data) {
+    throw new Error(result.message);
+  }
+  if (result.data.length !== 16) {
+    throw new Error(`READ page ${page}: expected 16 bytes, got ${result.data.length}`);
+  }
+  return result.data;
+}
+
+async function writeType2Page(
+  device: NfcDevice,
+  page: number,
+  data: Uint8Array,
+  options: CommandOptions
+): Promise<void> {
+  const frame = new Uint8Array(2 + T2_PAGE_SIZE);
+  frame.set([T2_WRITE, page]);
+  frame.set(data, 2);
+  const result = await sendCardFrame(device, frame, options);
+  if (!result.success || !result.data) {
+    throw new Error(result.message);
+  }
+  if ((result.data[0] & 0x0f) !== T2_ACK) {
+    throw new Error(`WRITE page ${page} refused (NAK ${result.hexData})`);
+  }
+}
+
+/**
+ * Read the CC and the whole data area, stopping early once the NDEF TLV is complete
+ */
+async function readType2DataArea(
+  device: NfcDevice,
+  options: CommandOptions
+): Promise<{ cc: Type2CapabilityContainer; data: Uint8Array }> {
+  const first = await readType2Pages(device, T2_CC_PAGE, options);
+  const cc = parseType2CapabilityContainer(first);
+  const data = new Uint8Array(cc.dataSize);
+  data.set(first.subarray(T2_PAGE_SIZE, T2_PAGE_SIZE + Math.min(12, cc.dataSize)));
+
+  for (let offset = 12; offset < cc.dataSize; offset += 16) {
+    if (containsCompleteNdefTlv(data.subarray(0, offset))) break;
+    const chunk = await readType2Pages(device, T2_DATA_PAGE + offset / T2_PAGE_SIZE, options);
+    data.set(chunk.subarray(0, Math.min(16, cc.dataSize - offset)), offset);
+  }
+  return { cc, data };
+}
+
+async function readType2Ndef(
+  device: NfcDevice,
+  options: CommandOptions
+): Promise<{ message: Uint8Array; capacity: number; writable: boolean }> {
+  const { cc, data } = await readType2DataArea(device, options);
+  if (cc.readAccess !== 0) {
+    throw new Error(`CC read access 0x${cc.readAccess.toString(16)} not supported`);
+  }
+  const ndef = parseType2Tlvs(data).find(tlv => tlv.type === TLV.NDEF);
+  if (!ndef) {
+    throw new Error('No NDEF TLV in the data area');
+  }
+  return {
+    message: ndef.value,
+    capacity: type2Capacity(ndef.offset, cc.dataSize),
+    writable: cc.writeAccess === 0,
+  };
+}
+
+async function writeType2Ndef(device: NfcDevice, message: Uint8Array, options: CommandOptions): Promise<void> {
+  const { cc, data } = await readType2DataArea(device, options);
+  if (cc.writeAccess !== 0) {
+    throw new Error('Tag is read-only (CC write access)');
+  }
+
+  // Keep lock and memory control TLVs in place and write over the NDEF TLV
+  const tlvs = parseType2Tlvs(data);
+  const existing = tlvs.find(tlv => tlv.type === TLV.NDEF);
+  const start = existing
+    ? existing.offset
+    : tlvs.reduce((end, tlv) => Math.max(end, tlv.offset + 2 + tlv.value.length), 0);
+
+  const capacity = type2Capacity(start, cc.dataSize);
+  if (message.length > capacity) {
+    throw new Error(`Message is ${message.length} bytes, tag holds ${capacity}`);
+  }
+
+  const tlv = encodeNdefTlv(message);
+  const area = data.slice();
+  // A message that fills the data area leaves no room for the terminator
+  area.set(tlv.subarray(0, area.length - start), start);
+  const firstPage = Math.floor(start / T2_PAGE_SIZE);
+  const lastPage = Math.ceil((start + tlv.length) / T2_PAGE_SIZE);
+  for (let page = firstPage; page < lastPage; page++) {
+    const offset = page * T2_PAGE_SIZE;
+    await writeType2Page(device, T2_DATA_PAGE + page, area.subarray(offset, offset + T2_PAGE_SIZE), options);
+  }
+}
+
+/**
+ * Room for an NDEF message whose TLV starts at the given offset
+ */
+function type2Capacity(start: number, dataSize: number): number {
+  const room = dataSize - start - 2; // T + 1-byte L; the terminator is optional when full
+  return room > 0xfe ? room - 2 : room;
+}
+
+function containsCompleteNdefTlv(data: Uint8Array): boolean {
+  try {
+    const tlvs = parseType2Tlvs(data);
+    return tlvs.some(tlv => tlv.type === TLV.NDEF);
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Type 4
+// ============================================================================
+
+export function parseType4CapabilityContainer(cc: Uint8Array): Type4CapabilityContainer {
+  // CCLEN(2) version(1) MLe(2) MLc(2) then the NDEF File Control TLV (04 06 ...)
+  if (cc.length < 15 || cc[7] !== 0x04 || cc[8] < 6) {
+    throw new Error(`Invalid capability container: ${toHex(cc)}`);
+  }
+  return {
+    version: `${cc[2] >> 4}.${cc[2] & 0x0f}`,
+    maxReadLength: (cc[3] << 8) | cc[4],
+    maxWriteLength: (cc[5] << 8) | cc[6],
+    ndefFileId: (cc[9] << 8) | cc[10],
+    maxNdefSize: (cc[11] << 8) | cc[12],
+    readAccess: cc[13],
+    writeAccess: cc[14],
+  };
+}
+
+async function apdu(device: NfcDevice, command: string, options: CommandOptions): Promise<Uint8Array> {
+  const result = await sendCardApdu(device, command, options);
+  if (!result.success || !result.data) {
+    throw new Error(`${command.slice(0, 8)}: ${result.message}`);
+  }
+  return result.data;
+}
+
+async function selectType4File(device: NfcDevice, fileId: number, options: CommandOptions): Promise<void> {
+  await apdu(device, `00A4000C02${hexWord(fileId)}`, options);
+}
+
+async function readBinary(
+  device: NfcDevice,
+  offset: number,
+  length: number,
+  options: CommandOptions
+): Promise<Uint8Array> {
+  return apdu(device, `00B0${hexWord(offset)}${hexByte(length)}`, options);
+}
+
+async function updateBinary(
+  device: NfcDevice,
+  offset: number,
+  data: Uint8Array,
+  options: CommandOptions
+): Promise<void> {
+  await apdu(device, `00D6${hexWord(offset)}${hexByte(data.length)}${toHex(data)}`, options);
+}
+
+/**
+ * Select the NDEF application, read its CC and select the NDEF file
+ */
+async function openType4Ndef(device: NfcDevice, options: CommandOptions): Promise<Type4CapabilityContainer> {
+  await apdu(device, `00A4040007${NDEF_APPLICATION_AID}00`, options);
+  await selectType4File(device, T4_CC_FILE_ID, options);
+  const cc = parseType4CapabilityContainer(await readBinary(device, 0, 15, options));
+  await selectType4File(device, cc.ndefFileId, options);
+  return cc;
+}
+
+/**
+ * Largest chunk for one READ/UPDATE BINARY, bounded by the CC and by short APDUs
+ */
+function chunkSize(max: number): number {
+  return Math.max(1, Math.min(max, 0xf0));
+}
+
+async function readType4Ndef(
+  device: NfcDevice,
+  options: CommandOptions
+): Promise<{ message: Uint8Array; capacity: number; writable: boolean }> {
+  const cc = await openType4Ndef(device, options);
+  const nlen = await readBinary(device, 0, 2, options);
+  const length = (nlen[0] << 8) | nlen[1];
+  if (length > cc.maxNdefSize - 2) {
+    throw new Error(`NLEN ${length} exceeds the NDEF file size`);
+  }
+
+  const message = new Uint8Array(length);
+  const step = chunkSize(cc.maxReadLength);
+  for (let offset = 0; offset < length; offset += step) {
+    const chunk = await readBinary(device, 2 + offset, Math.min(step, length - offset), options);
+    message.set(chunk.subarray(0, length - offset), offset);
+  }
+  return { message, capacity: cc.maxNdefSize - 2, writable: cc.writeAccess === 0x00 };
+}
+
+async function writeType4Ndef(device: NfcDevice, message: Uint8Array, options: CommandOptions): Promise<void> {
+  const cc = await openType4Ndef(device, options);
+  if (cc.writeAccess !== 0x00) {
+    throw new Error('NDEF file is read-only');
+  }
+  if (message.length > cc.maxNdefSize - 2) {
+    throw new Error(`Message is ${message.length} bytes, tag holds ${cc.maxNdefSize - 2}`);
+  }
+
+  // NLEN is cleared first so a torn write never leaves a valid-looking message
+  await updateBinary(device, 0, new Uint8Array([0, 0]), options);
+  const step = chunkSize(cc.maxWriteLength);
+  for (let offset = 0; offset < message.length; offset += step) {
+    await updateBinary(device, 2 + offset, message.subarray(offset, offset + step), options);
+  }
+  await updateBinary(device, 0, new Uint8Array([message.length >> 8, message.length & 0xff]), options);
+}
+
+function hexByte(b: number): string {
+  return b.toString(16).padStart(2, '0').toUpperCase();
+}
+
+function hexWord(w: number): string {
+  return hexByte(w >> 8) + hexByte(w & 0xff);
+}
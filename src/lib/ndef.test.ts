@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { fromHex, toHex } from './nfc-device';
+import {
+  NdefError,
+  TNF,
+  createMimeRecord,
+  createSmartPosterRecord,
+  createTextRecord,
+  createUriRecord,
+  describeNdefRecord,
+  encodeNdefMessage,
+  parseNdefMessage,
+  parseNdefRecords,
+} from './ndef';
+
+describe('NDEF encoding', () => {
+  it('abbreviates the longest URI prefix', () => {
+    const record = createUriRecord('https://www.example.com');
+    expect(toHex(record.payload)).toBe('02 65 78 61 6D 70 6C 65 2E 63 6F 6D');
+    expect(toHex(encodeNdefMessage([record]).subarray(0, 4))).toBe('D1 01 0C 55');
+  });
+
+  it('encodes an empty message as a single empty record', () => {
+    expect(toHex(encodeNdefMessage([]))).toBe('D0 00 00');
+    expect(parseNdefMessage(encodeNdefMessage([]))).toMatchObject([{ kind: 'empty' }]);
+  });
+
+  it('uses a 4-byte payload length for records of 256 bytes or more', () => {
+    const message = encodeNdefMessage([createMimeRecord('text/plain', 'x'.repeat(300))]);
+    expect(message[0] & 0x10).toBe(0);
+    const [record] = parseNdefMessage(message);
+    expect(record).toMatchObject({ kind: 'mime', mimeType: 'text/plain' });
+    expect(record.kind === 'mime' && record.text?.length).toBe(300);
+  });
+});
+
+describe('NDEF parsing', () => {
+  it('round-trips text, URI and smart poster records', () => {
+    const message = encodeNdefMessage([
+      createTextRecord('Bonjour', 'fr'),
+      createUriRecord('tel:+33123456789'),
+      createSmartPosterRecord('https://example.org', 'Example'),
+    ]);
+    const records = parseNdefMessage(message);
+
+    expect(records.map(describeNdefRecord)).toEqual([
+      'Text (fr): Bonjour',
+      'URI: tel:+33123456789',
+      'Smart Poster: Example — https://example.org',
+    ]);
+  });
+
+  it('joins chunked records', () => {
+    // MB|CF|SR text chunk, then a terminating UNCHANGED chunk with ME
+    const message = fromHex('B1 01 03 54 02 65 6E 56 00 02 68 69');
+    const [record] = parseNdefRecords(message);
+    expect(record.tnf).toBe(TNF.WELL_KNOWN);
+    expect(toHex(record.payload)).toBe('02 65 6E 68 69');
+    expect(describeNdefRecord(parseNdefMessage(message)[0])).toBe('Text (en): hi');
+  });
+
+  it('rejects truncated and unterminated messages', () => {
+    expect(() => parseNdefRecords(fromHex('D1 01 0C 55 02'))).toThrow(NdefError);
+    expect(() => parseNdefRecords(fromHex('B1 01 01 54 02'))).toThrow('not terminated');
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * NDEF message parsing and encoding (NFC Forum NDEF 1.0, RTD URI/Text/Smart Poster)
+ */
+
+// Type Name Format values
+export const TNF = {
+  EMPTY: 0x00,
+  WELL_KNOWN: 0x01,
+  MIME: 0x02,
+  ABSOLUTE_URI: 0x03,
+  EXTERNAL: 0x04,
+  UNKNOWN: 0x05,
+  UNCHANGED: 0x06,
+} as const;
+
+// Record header flags
+const FLAG_MB = 0x80;
+const FLAG_ME = 0x40;
+const FLAG_CF = 0x20;
+const FLAG_SR = 0x10;
+const FLAG_IL = 0x08;
+
+// URI identifier codes (NFC Forum URI RTD, table 3)
+const URI_PREFIXES = [
+  '', 'http://www.', 'https://www.', 'http://', 'https://', 'tel:', 'mailto:',
+  'ftp://anonymous:anonymous@', 'ftp://ftp.', 'ftps://', 'sftp://', 'smb://', 'nfs://',
+  'ftp://', 'dav://', 'news:', 'telnet://', 'imap:', 'rtsp://', 'urn:', 'pop:', 'sip:',
+  'sips:', 'tftp:', 'btspp://', 'btl2cap://', 'btgoep://', 'tcpobex://', 'irdaobex://',
+  'file://', 'urn:epc:id:', 'urn:epc:tag:', 'urn:epc:pat:', 'urn:epc:raw:', 'urn:epc:',
+  'urn:nfc:',
+];
+
+export interface NdefRawRecord {
+  tnf: number;
+  type: Uint8Array;
+  id: Uint8Array;
+  payload: Uint8Array;
+}
+
+export type NdefRecord =
+  | { kind: 'uri'; uri: string; raw: NdefRawRecord }
+  | { kind: 'text'; text: string; language: string; encoding: 'UTF-8' | 'UTF-16'; raw: NdefRawRecord }
+  | { kind: 'mime'; mimeType: string; text?: string; raw: NdefRawRecord }
+  | { kind: 'smartPoster'; records: NdefRecord[]; uri?: string; title?: string; raw: NdefRawRecord }
+  | { kind: 'external'; externalType: string; raw: NdefRawRecord }
+  | { kind: 'absoluteUri'; uri: string; raw: NdefRawRecord }
+  | { kind: 'empty'; raw: NdefRawRecord }
+  | { kind: 'unknown'; raw: NdefRawRecord };
+
+/**
+ * Error in the structure of an NDEF message
+ */
+export class NdefError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NdefError';
+  }
+}
+
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Split an NDEF message into raw records, joining chunked records
+ */
+export function parseNdefRecords(message: Uint8Array): NdefRawRecord[] {
+  const records: NdefRawRecord[] = [];
+  let offset = 0;
+  let chunked: NdefRawRecord | null = null;
+
+  while (offset < message.length) {
+    const start = offset;
+    const header = message[offset];
+    const headerLength = 2 + (header & FLAG_SR ? 1 : 4) + (header & FLAG_IL ? 1 : 0);
+    if (offset + headerLength > message.length) {
+      throw new NdefError(`Record header at offset ${start} is truncated`);
+    }
+    offset++;
+
+    const tnf = header & 0x07;
+    const typeLength = message[offset++];
+    let payloadLength: number;
+    if (header & FLAG_SR) {
+      payloadLength = message[offset++];
+    } else {
+      payloadLength = new DataView(message.buffer, message.byteOffset + offset, 4).getUint32(0);
+      offset += 4;
+    }
+    const idLength = header & FLAG_IL ? message[offset++] : 0;
+
+    if (offset + typeLength + idLength + payloadLength > message.length) {
+      throw new NdefError(`Record at offset ${start} runs past the end of the message`);
+    }
+
+    const type = message.slice(offset, offset + typeLength);
+    offset += typeLength;
+    const id = message.slice(offset, offset + idLength);
+    offset += idLength;
+    const payload = message.slice(offset, offset + payloadLength);
+    offset += payloadLength;
+
+    if (chunked) {
+      // Middle and terminating chunks carry TNF "unchanged" and only add payload
+      chunked.payload = concatBytes(chunked.payload, payload);
+      if (!(header & FLAG_CF)) {
+        records.push(chunked);
+        chunked = null;
+      }
+    } else if (header & FLAG_CF) {
+      chunked = { tnf, type, id, payload };
+    } else {
+      records.push({ tnf, type, id, payload });
+    }
+
+    if (header & FLAG_ME) break;
+  }
+
+  if (chunked) {
+    throw new NdefError('Chunked record is not terminated');
+  }
+  return records;
+}
+
+/**
+ * Parse an NDEF message into typed records
+ */
+export function parseNdefMessage(message: Uint8Array): NdefRecord[] {
+  return parseNdefRecords(message).map(decodeRecord);
+}
+
+/**
+ * Interpret a raw record according to its TNF and type
+ */
+export function decodeRecord(raw: NdefRawRecord): NdefRecord {
+  const type = textDecoder.decode(raw.type);
+
+  switch (raw.tnf) {
+    case TNF.EMPTY:
+      return { kind: 'empty', raw };
+    case TNF.WELL_KNOWN:
+      if (type === 'U') {
+        return { kind: 'uri', uri: decodeUri(raw.payload), raw };
+      }
+      if (type === 'T') {
+        return { kind: 'text', ...decodeText(raw.payload), raw };
+      }
+      if (type === 'Sp') {
+        const records = parseNdefMessage(raw.payload);
+        const uri = records.find((r): r is Extract<NdefRecord, { kind: 'uri' }> => r.kind === 'uri');
+        const title = records.find((r): r is Extract<NdefRecord, { kind: 'text' }> => r.kind === 'text');
+        return { kind: 'smartPoster', records, uri: uri?.uri, title: title?.text, raw };
+      }
+      return { kind: 'unknown', raw };
+    case TNF.MIME:
+      return {
+        kind: 'mime',
+        mimeType: type,
+        text: type.startsWith('text/') || type.endsWith('json') ? textDecoder.decode(raw.payload) : undefined,
+        raw,
+      };
+    case TNF.ABSOLUTE_URI:
+      return { kind: 'absoluteUri', uri: type, raw };
+    case TNF.EXTERNAL:
+      return { kind: 'external', externalType: type, raw };
+    default:
+      return { kind: 'unknown', raw };
+  }
+}
+
+function decodeUri(payload: Uint8Array): string {
+  if (payload.length === 0) return '';
+  const prefix = URI_PREFIXES[payload[0]] ?? '';
+  return prefix + textDecoder.decode(payload.subarray(1));
+}
+
+function decodeText(payload: Uint8Array): { text: string; language: string; encoding: 'UTF-8' | 'UTF-16' } {
+  if (payload.length === 0) {
+    throw new NdefError('Empty Text record');
+  }
+  const status = payload[0];
+  const utf16 = (status & 0x80) !== 0;
+  const languageLength = status & 0x3f;
+  const language = textDecoder.decode(payload.subarray(1, 1 + languageLength));
+  const body = payload.subarray(1 + languageLength);
+  return {
+    text: new TextDecoder(utf16 ? 'utf-16' : 'utf-8').decode(body),
+    language,
+    encoding: utf16 ? 'UTF-16' : 'UTF-8',
+  };
+}
+
+/**
+ * One-line human readable summary of a record
+ */
+export function describeNdefRecord(record: NdefRecord): string {
+  switch (record.kind) {
+    case 'uri':
+      return `URI: ${record.uri}`;
+    case 'text':
+      return `Text (${record.language}): ${record.text}`;
+    case 'mime':
+      return `MIME ${record.mimeType}: ${record.text ?? `${record.raw.payload.length} bytes`}`;
+    case 'smartPoster':
+      return `Smart Poster: ${[record.title, record.uri].filter(Boolean).join(' — ')}`;
+    case 'external':
+      return `External ${record.externalType}: ${record.raw.payload.length} bytes`;
+    case 'absoluteUri':
+      return `Absolute URI: ${record.uri}`;
+    case 'empty':
+      return 'Empty record';
+    default:
+      return `Unknown record (TNF ${record.raw.tnf}, ${record.raw.payload.length} bytes)`;
+  }
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+export function createUriRecord(uri: string): NdefRawRecord {
+  // Longest matching prefix gives the shortest payload
+  let code = 0;
+  URI_PREFIXES.forEach((prefix, index) => {
+    if (prefix && uri.startsWith(prefix) && prefix.length > URI_PREFIXES[code].length) {
+      code = index;
+    }
+  });
+  const rest = textEncoder.encode(uri.slice(URI_PREFIXES[code].length));
+  return wellKnown('U', concatBytes(new Uint8Array([code]), rest));
+}
+
+export function createTextRecord(text: string, language: string = 'en'): NdefRawRecord {
+  const lang = textEncoder.encode(language);
+  if (lang.length > 0x3f) {
+    throw new NdefError('Language code too long');
+  }
+  return wellKnown('T', concatBytes(new Uint8Array([lang.length]), lang, textEncoder.encode(text)));
+}
+
+export function createMimeRecord(mimeType: string, payload: Uint8Array | string): NdefRawRecord {
+  return {
+    tnf: TNF.MIME,
+    type: textEncoder.encode(mimeType),
+    id: new Uint8Array(0),
+    payload: typeof payload === 'string' ? textEncoder.encode(payload) : payload,
+  };
+}
+
+export function createExternalRecord(externalType: string, payload: Uint8Array): NdefRawRecord {
+  return {
+    tnf: TNF.EXTERNAL,
+    type: textEncoder.encode(externalType.toLowerCase()),
+    id: new Uint8Array(0),
+    payload,
+  };
+}
+
+export function createSmartPosterRecord(uri: string, title?: string, language: string = 'en'): NdefRawRecord {
+  const records = [createUriRecord(uri)];
+  if (title) {
+    records.push(createTextRecord(title, language));
+  }
+  return wellKnown('Sp', encodeNdefMessage(records));
+}
+
+/**
+ * Serialise records into an NDEF message, using short records where possible
+ */
+export function encodeNdefMessage(records: NdefRawRecord[]): Uint8Array {
+  if (records.length === 0) {
+    // An empty NDEF message is a single empty record
+    return new Uint8Array([FLAG_MB | FLAG_ME | FLAG_SR | TNF.EMPTY, 0x00, 0x00]);
+  }
+
+  const parts = records.map((record, index) => {
+    const short = record.payload.length < 0x100;
+    let header = record.tnf & 0x07;
+    if (index === 0) header |= FLAG_MB;
+    if (index === records.length - 1) header |= FLAG_ME;
+    if (short) header |= FLAG_SR;
+    if (record.id.length > 0) header |= FLAG_IL;
+
+    const head = [header, record.type.length];
+    if (short) {
+      head.push(record.payload.length);
+    } else {
+      const length = record.payload.length;
+      head.push((length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff);
+    }
+    if (record.id.length > 0) {
+      head.push(record.id.length);
+    }
+    return concatBytes(new Uint8Array(head), record.type, record.id, record.payload);
+  });
+
+  return concatBytes(...parts);
+}
+
+function wellKnown(type: string, payload: Uint8Array): NdefRawRecord {
+  return { tnf: TNF.WELL_KNOWN, type: textEncoder.encode(type), id: new Uint8Array(0), payload };
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { COM_TYPE, HexFormatError, buildCommand, fromHex, parseHuntResponse, toHex } from './nfc-device';
+import { createFrameDecoder, stripResponsePrefix } from './frame';
+
+describe('parseHuntResponse', () => {
+  it('reads the short 4-byte UID answer of the RDR-518 (LEN=0x0B)', () => {
+    const frame = fromHex('01 0B 01 03 00 08 06 00 08 DE AD BE EF 00 EF 8B');
+    const decoder = createFrameDecoder();
+    decoder.push(frame);
+    expect(decoder.shift()).toEqual({ type: 'frame', frame });
+
+    const result = parseHuntResponse(stripResponsePrefix(frame));
+    expect(result.success).toBe(true);
+    expect(result.hexData).toBe('DE AD BE EF');
+    expect(result.uidLength).toBe(4);
+    expect(result.sak).toBe('08');
+    expect(result.comType).toBe(COM_TYPE.MIFARE);
+  });
+
+  it('reads a 7-byte UID with its ATQA from the extended ATR', () => {
+    // UID length, SAK, UID, ATQA
+    const atr = [0x07, 0x00, 0x04, 0xa2, 0x5b, 0x3a, 0x6c, 0x12, 0x80, 0x00, 0x44];
+    const response = new Uint8Array([4 + atr.length + 1, 0x01, 0x03, 0x00, COM_TYPE.ISOA, atr.length, ...atr, 0x00, 0x00, 0x00]);
+
+    const result = parseHuntResponse(response);
+    expect(result.success).toBe(true);
+    expect(result.hexData).toBe('04 A2 5B 3A 6C 12 80');
+    expect(result.atqa).toBe('00 44');
+    expect(result.sak).toBe('00');
+  });
+});
+
+describe('fromHex', () => {
+  it('accepts any whitespace between bytes and either case', () => {
+    expect(toHex(fromHex(' de ad\tBE\nef '))).toBe('DE AD BE EF');
+    expect(fromHex('')).toHaveLength(0);
+  });
+
+  it('rejects stray characters with their position', () => {
+    expect(() => fromHex('80 0G')).toThrow(HexFormatError);
+    expect(() => fromHex('80 0G')).toThrow('Invalid hex character "G" at position 5');
+    expect(() => fromHex('0x80')).toThrow(/"x"/);
+  });
+
+  it('rejects an odd number of digits', () => {
+    expect(() => fromHex('80 0')).toThrow(/Odd number of hex digits \(3\)/);
+  });
+});
+
+describe('buildCommand', () => {
+  it('builds the version command with its CRC', () => {
+    expect(toHex(buildCommand(0x80, 0x01, 0x01))).toBe('80 02 01 01 00 50 3F');
+  });
+});
@@ -1,24 +1,91 @@
 /**
- * NFC Device interface using Web Serial
+ * NFC Device interface over a pluggable transport (Web Serial, WebUSB)
  * Protocol specific to ASK CSC (RDR-518) NFC Reader
  */
 
-import { SerialDevice, transceiveSerial } from './web-serial';
+import { NfcTransport, TransportKind, transceiveFrame } from './transport';
+import { FrameError } from './frame';
+import { CommandOptions, CommandQueue, createCommandQueue } from './command-queue';
+import { IsoBInfo, parseIsoBAtr } from './iso14443b';
+import { AtsInfo, parseIsoAAtr } from './iso14443a';
+import { CSC_STATUS, StatusCodeInfo, describeStatus, formatStatus } from './status-codes';
 
 export interface NfcDevice {
-  type: 'serial';
+  type: TransportKind;
   name: string;
-  serialDevice: SerialDevice;
+  transport: NfcTransport;
+  queue: CommandQueue;
+  /**
+   * Card found by the last successful hunt, cleared when it leaves or is released
+   */
+  selectedCard?: NfcCommandResult | null;
 }
 
+export interface HuntOptions {
+  isoa?: boolean;
+  isob?: boolean;
+  mifare?: boolean;
+  forget?: boolean;
+  timeout10ms?: number;
+  /**
+   * Antenna used for ISO-A and ISO-B (1-4)
+   */
+  antenna?: number;
+  /**
+   * CONT byte: contact slot to search, 0x00 to skip contact cards
+   */
+  contact?: number;
+  /**
+   * CONFIG byte: protocol configuration
+   */
+  config?: number;
+  /**
+   * FLAGS byte: search flags
+   */
+  flags?: number;
+}
+
+/**
+ * Hunt data of the working command 80 0A 01 03 00 00 02 11 03 01 01 14 00 9C F8
+ */
+export const DEFAULT_HUNT_OPTIONS: Required<HuntOptions> = {
+  isoa: true,
+  isob: false,
+  mifare: true,
+  forget: true,
+  timeout10ms: 0x14, // 200ms
+  antenna: 2,
+  contact: 0x00,
+  config: 0x11,      // ISO-A + extended ATR
+  flags: 0x01,
+};
+
 export interface NfcCommandResult {
   success: boolean;
   data?: Uint8Array;
   message: string;
   hexData?: string;
+  /**
+   * Full UID of the hunted card (4, 7 or 10 bytes for ISO-A, PUPI for ISO-B)
+   */
+  uid?: string;
+  uidLength?: number;
   atqa?: string;
   sak?: string;
+  /**
+   * Decoded Answer To Select of ISO-DEP type A cards
+   */
+  ats?: AtsInfo;
   comType?: number;
+  /**
+   * Decoded reader status or hunt error, when the response carries one
+   */
+  status?: StatusCodeInfo;
+  /**
+   * ATQB and ATTRIB details when comType is ISOB (hexData holds the PUPI)
+   */
+  isoB?: IsoBInfo;
+  frameError?: FrameError;
 }
 
 export interface NfcVersionInfo {
@@ -33,15 +100,23 @@ export interface NfcVersionInfo {
 }
 
 // ASK CSC Protocol Constants
-const CMD_EXECUTE = 0x80;
+export const CMD_EXECUTE = 0x80;
 
 // Function Classes
-const CLASS_SYSTEM = 0x01;
+export const CLASS_SYSTEM = 0x01;
+export const CLASS_ISO = 0x03;
 
 // System Commands
-const SYS_SOFTWARE_VERSION = 0x01;
-const SYS_ENTER_HUNT_PHASE = 0x03;
-const SYS_END_TAG_COMMUNICATION = 0x04;
+export const SYS_SOFTWARE_VERSION = 0x01;
+export const SYS_ENTER_HUNT_PHASE = 0x03;
+export const SYS_END_TAG_COMMUNICATION = 0x04;
+
+// ISO 14443 Commands
+export const ISO_EXCHANGE_APDU = 0x01;
+export const ISO_EXCHANGE_RAW = 0x02;
+
+// Reader status byte leading the data of most responses (see status-codes.ts)
+export const STATUS_OK = CSC_STATUS.OK;
 
 // Communication Types
 export const COM_TYPE = {
@@ -53,6 +128,14 @@ export const COM_TYPE = {
   INNOVATRON: 0x10,
 } as const;
 
+/**
+ * Name of a COM type code, e.g. "ISOA", or its hex value when unknown
+ */
+export function comTypeName(comType: number): string {
+  const entry = Object.entries(COM_TYPE).find(([, code]) => code === comType);
+  return entry ? entry[0] : `0x${comType.toString(16).padStart(2, '0').toUpperCase()}`;
+}
+
 /**
  * Calculate CRC-16-X.25 checksum (used by ASK CSC protocol)
  * Polynomial: 0x1021 (reflected as 0x8408)
@@ -117,25 +200,21 @@ export function buildCommand(
  * This is CSC_SearchCardExt with extended parameters for ISO-A and MIFARE detection.
  * Data is 8 bytes, terminator 00 is added by buildCommand.
  */
-export function buildHuntCommand(options: {
-  isoa?: boolean;
-  isob?: boolean;
-  mifare?: boolean;
-  forget?: boolean;
-  timeout10ms?: number;
-  antenna?: number;
-} = {}): Uint8Array {
+export function buildHuntCommand(options: HuntOptions = {}): Uint8Array {
   const {
-    isoa = true,
-    isob = false,
-    mifare = true,
-    forget = true,
-    timeout10ms = 0x14, // 200ms default
-    antenna = 2,        // Antenna number (1-4)
+    isoa = DEFAULT_HUNT_OPTIONS.isoa,
+    isob = DEFAULT_HUNT_OPTIONS.isob,
+    mifare = DEFAULT_HUNT_OPTIONS.mifare,
+    forget = DEFAULT_HUNT_OPTIONS.forget,
+    timeout10ms = DEFAULT_HUNT_OPTIONS.timeout10ms,
+    antenna = DEFAULT_HUNT_OPTIONS.antenna,
+    contact = DEFAULT_HUNT_OPTIONS.contact,
+    config = DEFAULT_HUNT_OPTIONS.config,
+    flags = DEFAULT_HUNT_OPTIONS.flags,
   } = options;
 
   // Data structure (CSC_SearchCardExt - 8 bytes):
-  // Byte 0: CONT    - Contact mode (0x00 = disabled)
+  // Byte 0: CONT    - Contact slot (0x00 = disabled)
   // Byte 1: ISOB    - ISO 14443-B (0x00 = disabled, 0x01-0x04 = antenna number)
   // Byte 2: ISOA    - ISO 14443-A (0x00 = disabled, 0x01-0x04 = antenna number)
   // Byte 3: CONFIG  - Protocol config (0x11 = ISO-A + extended ATR mode)
@@ -144,12 +223,12 @@ export function buildHuntCommand(options: {
   // Byte 6: FORGET  - Forget previous card (0x00 = remember, 0x01 = forget)
   // Byte 7: TIMEOUT - Search timeout (value × 10ms)
   const data = new Uint8Array([
-    0x00,                               // CONT: disabled
+    contact,                            // CONT: contact slot or disabled
     isob ? antenna : 0x00,              // ISOB: antenna number or disabled
     isoa ? antenna : 0x00,              // ISOA: antenna number or disabled
-    0x11,                               // CONFIG: 0x11 (ISO-A + extended ATR)
+    config,                             // CONFIG: protocol configuration
     mifare ? 0x03 : 0x00,               // MIFARE: 0x03 = enabled
-    0x01,                               // FLAGS: 0x01 (search flags)
+    flags,                              // FLAGS: search flags
     forget ? 0x01 : 0x00,               // FORGET: forget previous card
     timeout10ms,                        // TIMEOUT: x10ms
   ]);
@@ -173,6 +252,18 @@ export function buildEndTagCommand(disconnect: boolean = true): Uint8Array {
   return buildCommand(CMD_EXECUTE, CLASS_SYSTEM, SYS_END_TAG_COMMUNICATION, data);
 }
 
+/**
+ * Data bytes of a response frame (after CLASS and IDENT, before the terminator)
+ * Expects the frame with DLE/ACK prefixes already stripped: LEN, CLASS, IDENT, DATA, 00, CRC
+ */
+export function responseData(response: Uint8Array): Uint8Array {
+  if (response.length < 3) {
+    return new Uint8Array(0);
+  }
+  const end = Math.min(1 + response[0], response.length);
+  return response.subarray(3, end);
+}
+
 /**
  * Parse software version response
  */
@@ -220,58 +311,66 @@ export function parseHuntResponse(response: Uint8Array): NfcCommandResult {
 
   const len = response[0];
 
-  // Check for "no card" response: LEN <= 4
+  // Check for "no card" response: LEN <= 4, [3] = STATUS, [4] = search result
   if (len <= 4 && response.length >= 6) {
-    const errorCode = response[4];
-    if (errorCode === 0x6f) {
-      return {
-        success: false,
-        data: response,
-        hexData: toHex(response),
-        message: 'No card in field',
-      };
-    }
+    const status = describeStatus(response[3] === STATUS_OK ? response[4] : response[3]);
     return {
       success: false,
       data: response,
       hexData: toHex(response),
-      message: `Reader error: 0x${errorCode.toString(16).padStart(2, '0')}`,
+      status,
+      message: status.code === CSC_STATUS.NO_CARD ? status.description : `Reader error: ${formatStatus(status.code)}`,
     };
   }
 
   // Check for "card found" response
+  // [0] = LEN, [1-3] = CLASS, IDENT, STATUS
+  // [4] = COM type (ISOA, MIFARE, ISOB...)
+  // [5] = ATR length, [6...] = ATR
+  //   ISO-A: UID length, SAK, UID (4/7/10 bytes), ATQA (2), ATS (ISO-DEP only)
+  //   ISO-B: ATQB, ATTRIB response
   if (len >= 0x07 && response.length >= len + 4) {
-    // Response format:
-    // [0] = LEN
-    // [1-3] = CLASS, IDENT, STATUS
-    // [4] = COM type (0x05 = ISO-A, 0x08 = MIFARE, etc.)
-    // [5] = ATR length indicator
-    // [6] = 00
-    // [7] = SAK (or UID length for extended)
-    // [8-11] = UID (4 bytes for standard)
-    // [12] = Status byte
-    // [13-14] = CRC-16
-
     const comType = response[4];
 
-    // For ISO-A/MIFARE cards, UID is typically at offset 8
-    if (response.length >= 13) {
-      const atqa = response.subarray(4, 6);
-      const sak = response[7];
+    if (comType === COM_TYPE.ISOB) {
+      return parseIsoBHunt(response);
+    }
+
+    const atrLength = response[5];
+    // The ATR has to fit inside the LEN-counted data
+    const isoA = 6 + atrLength <= 1 + len
+      ? parseIsoAAtr(response.subarray(6, 6 + atrLength))
+      : null;
+    if (isoA) {
+      const uid = fromHex(isoA.uid);
+      return {
+        success: true,
+        data: uid,
+        hexData: isoA.uid,
+        uid: isoA.uid,
+        uidLength: isoA.uidLength,
+        atqa: isoA.atqa,
+        sak: isoA.sak.toString(16).padStart(2, '0').toUpperCase(),
+        ats: isoA.ats,
+        comType: comType,
+        message: `Card found! UID: ${isoA.uid}`,
+      };
+    }
+
+    // Short answer seen from RDR-518 firmware for 4-byte UIDs (LEN=0x0B):
+    // [6] = 00, [7] = SAK, [8-11] = UID, [12] = 00, no ATQA
+    if (len === 0x0b && response.length >= 13) {
       const uid = response.subarray(8, 12);
-      const statusByte = response.length >= 13 ? response[12] : 0;
-
-      if (statusByte === 0x00 || len === 0x0b) {
-        return {
-          success: true,
-          data: uid,
-          hexData: toHex(uid),
-          atqa: toHex(atqa),
-          sak: sak.toString(16).padStart(2, '0').toUpperCase(),
-          comType: comType,
-          message: `Card found! UID: ${toHex(uid)}`,
-        };
-      }
+      return {
+        success: true,
+        data: uid,
+        hexData: toHex(uid),
+        uid: toHex(uid),
+        uidLength: 4,
+        sak: response[7].toString(16).padStart(2, '0').toUpperCase(),
+        comType: comType,
+        message: `Card found! UID: ${toHex(uid)}`,
+      };
     }
   }
 
@@ -285,29 +384,78 @@ export function parseHuntResponse(response: Uint8Array): NfcCommandResult {
 }
 
 /**
- * Send raw bytes to the device and get response
+ * ISO-B hunt answer: [LEN, CLASS, IDENT, STATUS, COM, ATR length, ATQB, ATTRIB response]
+ */
+function parseIsoBHunt(response: Uint8Array): NfcCommandResult {
+  const atrLength = response[5] ?? 0;
+  const isoB = parseIsoBAtr(response.subarray(6, 6 + atrLength));
+  if (!isoB || response.length < 6 + atrLength) {
+    return {
+      success: false,
+      data: response,
+      hexData: toHex(response),
+      message: 'Malformed ISO-B answer (no ATQB)',
+    };
+  }
+  return {
+    success: true,
+    data: fromHex(isoB.pupi),
+    hexData: isoB.pupi,
+    uid: isoB.pupi,
+    uidLength: 4,
+    comType: COM_TYPE.ISOB,
+    isoB,
+    message: `ISO-B card found! PUPI: ${isoB.pupi}`,
+  };
+}
+
+/**
+ * Send raw bytes to the device and get response.
+ * Calls are serialised through the device's command queue.
  */
 export async function transceive(
   device: NfcDevice,
   command: Uint8Array,
-  timeout: number = 2000
+  timeout: number = 2000,
+  options: CommandOptions = {}
 ): Promise<Uint8Array> {
-  if (device.serialDevice) {
-    return await transceiveSerial(device.serialDevice, command, timeout);
+  if (device.transport) {
+    return await device.queue.run(() => transceiveFrame(device.transport, command, timeout), options);
   }
   throw new Error('No device connected');
 }
 
+/**
+ * Create an NFC device on top of an open transport
+ */
+export function createNfcDevice(transport: NfcTransport, name: string = transport.name): NfcDevice {
+  return {
+    type: transport.kind,
+    name,
+    transport,
+    queue: createCommandQueue(),
+  };
+}
+
+/**
+ * Cancel queued commands, wait for the one in flight, then close the transport
+ */
+export async function closeNfcDevice(device: NfcDevice): Promise<void> {
+  await device.queue.drain('Device disconnected');
+  await device.transport.close();
+}
+
 /**
  * Send command and parse response
  */
 export async function sendCommand(
   device: NfcDevice,
   command: Uint8Array,
-  timeout: number = 2000
+  timeout: number = 2000,
+  options: CommandOptions = {}
 ): Promise<NfcCommandResult> {
   try {
-    const response = await transceive(device, command, timeout);
+    const response = await transceive(device, command, timeout, options);
 
     if (response.length === 0) {
       return {
@@ -323,6 +471,15 @@ export async function sendCommand(
       message: 'OK',
     };
   } catch (error) {
+    if (error instanceof FrameError) {
+      return {
+        success: false,
+        data: error.bytes,
+        hexData: toHex(error.bytes),
+        frameError: error,
+        message: `Corrupt response: ${error.message}`,
+      };
+    }
     return {
       success: false,
       message: `Command failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -335,20 +492,15 @@ export async function sendCommand(
  */
 export async function cardHunt(
   device: NfcDevice,
-  options: {
-    isoa?: boolean;
-    isob?: boolean;
-    mifare?: boolean;
-    forget?: boolean;
-    timeout10ms?: number;
-    antenna?: number;
-  } = {}
+  options: HuntOptions & CommandOptions = {}
 ): Promise<NfcCommandResult> {
   const command = buildHuntCommand(options);
-  const result = await sendCommand(device, command);
+  const result = await sendCommand(device, command, 2000, options);
 
   if (result.success && result.data) {
-    return parseHuntResponse(result.data);
+    const hunt = parseHuntResponse(result.data);
+    device.selectedCard = hunt.success ? hunt : null;
+    return hunt;
   }
 
   return result;
@@ -356,22 +508,29 @@ export async function cardHunt(
 
 /**
  * Get card UID using card hunt
+ * Forgets the previous card and searches ISO-A for 200ms unless told otherwise
  */
-export async function getCardUid(device: NfcDevice): Promise<NfcCommandResult> {
+export async function getCardUid(
+  device: NfcDevice,
+  options: HuntOptions & CommandOptions = {}
+): Promise<NfcCommandResult> {
   return await cardHunt(device, {
     isoa: true,
-    isob: false,
     forget: true,
     timeout10ms: 0x14, // 200ms for quick polling
+    ...options,
   });
 }
 
 /**
  * Get firmware version from reader
  */
-export async function getFirmwareVersion(device: NfcDevice): Promise<{ success: boolean; version?: NfcVersionInfo; message: string; hexData?: string }> {
+export async function getFirmwareVersion(
+  device: NfcDevice,
+  options: CommandOptions = {}
+): Promise<{ success: boolean; version?: NfcVersionInfo; message: string; hexData?: string }> {
   const command = buildGetVersionCommand();
-  const result = await sendCommand(device, command);
+  const result = await sendCommand(device, command, 2000, options);
 
   if (result.success && result.data) {
     const version = parseVersionResponse(result.data);
@@ -395,17 +554,25 @@ export async function getFirmwareVersion(device: NfcDevice): Promise<{ success:
 /**
  * End tag communication (disconnect card)
  */
-export async function endTagCommunication(device: NfcDevice, disconnect: boolean = true): Promise<NfcCommandResult> {
+export async function endTagCommunication(
+  device: NfcDevice,
+  disconnect: boolean = true,
+  options: CommandOptions = {}
+): Promise<NfcCommandResult> {
   const command = buildEndTagCommand(disconnect);
-  const result = await sendCommand(device, command);
+  const result = await sendCommand(device, command, 2000, options);
 
   if (result.success && result.data && result.data.length >= 4) {
     const status = result.data[3];
+    if (status === STATUS_OK && disconnect) {
+      device.selectedCard = null;
+    }
     return {
-      success: status === 0x01,
+      success: status === STATUS_OK,
       data: result.data,
       hexData: result.hexData,
-      message: status === 0x01 ? 'Card disconnected' : `End tag failed: status=0x${status.toString(16)}`,
+      status: describeStatus(status),
+      message: status === STATUS_OK ? 'Card disconnected' : `End tag failed: ${formatStatus(status)}`,
     };
   }
 
@@ -417,11 +584,19 @@ export async function endTagCommunication(device: NfcDevice, disconnect: boolean
  */
 export async function sendCustomCommand(
   device: NfcDevice,
-  hexCommand: string
+  hexCommand: string,
+  options: CommandOptions = {}
 ): Promise<NfcCommandResult> {
   try {
     const command = fromHex(hexCommand);
-    return await sendCommand(device, command);
+    const result = await sendCommand(device, command, 2000, options);
+    if (result.success && result.data) {
+      result.status = responseStatus(command, result.data);
+      if (command[2] === CLASS_SYSTEM && command[3] === SYS_ENTER_HUNT_PHASE) {
+        result.message = parseHuntResponse(result.data).message;
+      }
+    }
+    return result;
   } catch (error) {
     return {
       success: false,
@@ -430,6 +605,25 @@ export async function sendCustomCommand(
   }
 }
 
+/**
+ * Reader status of the answer to `command` (without the ACK prefix), or
+ * undefined for answers without one such as the version string.
+ * A hunt that found a card leaves 0x00 in the status byte and reports the
+ * card instead, so hunt answers are judged on the search result.
+ */
+export function responseStatus(command: Uint8Array, response: Uint8Array): StatusCodeInfo | undefined {
+  const classId = command[2];
+  const ident = command[3];
+  if (classId === CLASS_SYSTEM && ident === SYS_SOFTWARE_VERSION) {
+    return undefined;
+  }
+  if (classId === CLASS_SYSTEM && ident === SYS_ENTER_HUNT_PHASE) {
+    const hunt = parseHuntResponse(response);
+    return hunt.success ? describeStatus(CSC_STATUS.OK) : hunt.status;
+  }
+  return response.length >= 4 ? describeStatus(response[3]) : undefined;
+}
+
 /**
  * Convert byte array to hex string
  */
@@ -439,11 +633,26 @@ export function toHex(data: Uint8Array): string {
     .join(' ');
 }
 
+export class HexFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HexFormatError';
+  }
+}
+
 /**
- * Convert hex string to byte array
+ * Convert hex string to byte array. Whitespace between digits is ignored;
+ * any other character or an odd digit count throws a HexFormatError.
  */
 export function fromHex(hex: string): Uint8Array {
+  const invalid = /[^0-9a-fA-F\s]/.exec(hex);
+  if (invalid) {
+    throw new HexFormatError(`Invalid hex character "${invalid[0]}" at position ${invalid.index + 1}`);
+  }
   const cleanHex = hex.replace(/\s+/g, '');
+  if (cleanHex.length % 2 !== 0) {
+    throw new HexFormatError(`Odd number of hex digits (${cleanHex.length}): write each byte as two digits`);
+  }
   const bytes = new Uint8Array(cleanHex.length / 2);
   for (let i = 0; i < bytes.length; i++) {
     bytes[i] = parseInt(cleanHex.substr(i * 2, 2), 16);
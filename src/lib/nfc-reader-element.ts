@@ -0,0 +1,415 @@
+/**
+ * <nfc-reader> custom element
+ * Connect, hunt and continuous hunt for pages that do not use React. The
+ * element owns one serial reader, renders its own controls in a shadow root
+ * and reports cards as DOM events:
+ *
+ *   <nfc-reader auto-hunt antenna="2" uid-format="hex-compact"></nfc-reader>
+ *   reader.addEventListener('nfc-card', e => console.log(e.detail.uid));
+ */
+
+import {
+  COM_TYPE,
+  DEFAULT_HUNT_OPTIONS,
+  NfcCommandResult,
+  NfcDevice,
+  cardHunt,
+  closeNfcDevice,
+  createNfcDevice,
+  fromHex,
+} from './nfc-device';
+import { COMMAND_PRIORITY } from './command-queue';
+import { CardWatcher, createCardWatcher } from './card-watcher';
+import {
+  DEFAULT_SERIAL_OPTIONS,
+  createSerialTransport,
+  isWebSerialSupported,
+  requestSerialPort,
+} from './web-serial';
+
+export const NFC_READER_TAG = 'nfc-reader';
+
+/**
+ * hex: "04 A2 5B 3A", hex-compact: "04A25B3A", reversed: "3A5BA204"
+ * (byte order of many access control systems), decimal: the UID as one
+ * big-endian number
+ */
+export type UidFormat = 'hex' | 'hex-compact' | 'reversed' | 'decimal';
+
+export const UID_FORMATS: UidFormat[] = ['hex', 'hex-compact', 'reversed', 'decimal'];
+
+export interface NfcCardEventDetail {
+  /**
+   * UID in the element's uid-format
+   */
+  uid: string;
+  /**
+   * UID as spaced hex, whatever the format
+   */
+  rawUid: string;
+  protocol: 'iso14443a' | 'iso14443b' | 'innovatron' | 'unknown';
+  atqa?: string;
+  sak?: string;
+  ats?: string;
+  /**
+   * Hunt that found the card: 'hunt' for a single hunt, 'watch' for the continuous hunt
+   */
+  trigger: 'hunt' | 'watch';
+}
+
+export interface NfcRemovedEventDetail {
+  uid: string;
+  rawUid: string;
+  /**
+   * Message of the hunt that found the field empty
+   */
+  status: string;
+}
+
+export interface NfcConnectEventDetail {
+  reader: string;
+}
+
+export interface NfcErrorEventDetail {
+  message: string;
+}
+
+export interface NfcReaderEventMap {
+  'nfc-card': CustomEvent<NfcCardEventDetail>;
+  'nfc-removed': CustomEvent<NfcRemovedEventDetail>;
+  'nfc-connect': CustomEvent<NfcConnectEventDetail>;
+  'nfc-disconnect': CustomEvent<NfcConnectEventDetail>;
+  'nfc-error': CustomEvent<NfcErrorEventDetail>;
+}
+
+/**
+ * Events of an <nfc-reader>: those of any element plus its own
+ */
+export interface NfcReaderElementEventMap extends HTMLElementEventMap, NfcReaderEventMap {}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'nfc-reader': NfcReaderElement;
+  }
+}
+
+/**
+ * UID of a hunt answer in the given format
+ */
+export function formatUid(hexData: string, format: UidFormat = 'hex'): string {
+  const bytes = fromHex(hexData);
+  const compact = Array.from(bytes, b => b.toString(16).padStart(2, '0').toUpperCase());
+  switch (format) {
+    case 'hex':
+      return compact.join(' ');
+    case 'hex-compact':
+      return compact.join('');
+    case 'reversed':
+      return compact.reverse().join('');
+    case 'decimal':
+      return bytes.length > 0 ? BigInt(`0x${compact.join('')}`).toString() : '';
+  }
+}
+
+const TEMPLATE = `
+  <style>
+    :host { display: inline-block; font-family: system-ui, sans-serif; }
+    .controls { display: flex; flex-wrap: wrap; gap: 0.5em; }
+    button { font: inherit; padding: 0.4em 1em; border-radius: 0.4em; border: 1px solid #888; background: #f4f4f4; cursor: pointer; }
+    button:disabled { opacity: 0.5; cursor: not-allowed; }
+    button[aria-pressed="true"] { background: #fdd8a8; }
+    .uid { font-family: ui-monospace, monospace; font-size: 1.2em; margin-top: 0.5em; min-height: 1.4em; }
+    .status { color: #666; font-size: 0.9em; }
+  </style>
+  <div class="controls" part="controls">
+    <button part="button connect" data-action="connect">Connect</button>
+    <button part="button hunt" data-action="hunt" disabled>Hunt</button>
+    <button part="button watch" data-action="watch" aria-pressed="false" disabled>Continuous hunt</button>
+  </div>
+  <div class="uid" part="uid"></div>
+  <div class="status" part="status" role="status"></div>
+`;
+
+// Typed listeners for the nfc-* events, on this element only
+export interface NfcReaderElement {
+  addEventListener<K extends keyof NfcReaderElementEventMap>(
+    type: K,
+    listener: (this: NfcReaderElement, event: NfcReaderElementEventMap[K]) => unknown,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+  removeEventListener<K extends keyof NfcReaderElementEventMap>(
+    type: K,
+    listener: (this: NfcReaderElement, event: NfcReaderElementEventMap[K]) => unknown,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+}
+
+export class NfcReaderElement extends HTMLElement {
+  static get observedAttributes(): string[] {
+    return ['auto-hunt', 'antenna', 'uid-format', 'isob'];
+  }
+
+  private device: NfcDevice | null = null;
+  private watcher: CardWatcher | null = null;
+  private card: NfcCommandResult | null = null;
+  // connect() waiting for the port chooser and the port to open
+  private connecting: Promise<void> | null = null;
+  private readonly root: ShadowRoot;
+
+  constructor() {
+    super();
+    this.root = this.attachShadow({ mode: 'open' });
+    this.root.innerHTML = TEMPLATE;
+    this.root.addEventListener('click', (e) => {
+      const action = (e.target as HTMLElement).closest('button')?.dataset.action;
+      if (action === 'connect') (this.device ? this.disconnect() : this.connect()).catch(() => {});
+      if (action === 'hunt') this.hunt().catch(() => {});
+      if (action === 'watch') (this.hunting ? this.stopHunt() : this.startHunt());
+    });
+  }
+
+  get connected(): boolean {
+    return this.device !== null;
+  }
+
+  get hunting(): boolean {
+    return this.watcher !== null;
+  }
+
+  /**
+   * UID of the card in the field, in uid-format; empty when there is none
+   */
+  get uid(): string {
+    return this.card?.hexData ? formatUid(this.card.hexData, this.uidFormat) : '';
+  }
+
+  get autoHunt(): boolean {
+    return this.hasAttribute('auto-hunt');
+  }
+
+  set autoHunt(value: boolean) {
+    this.toggleAttribute('auto-hunt', value);
+  }
+
+  /**
+   * ISO-A/B antenna (1-4), from the antenna attribute
+   */
+  get antenna(): number {
+    const antenna = Number(this.getAttribute('antenna'));
+    return Number.isInteger(antenna) && antenna >= 1 && antenna <= 4 ? antenna : DEFAULT_HUNT_OPTIONS.antenna;
+  }
+
+  set antenna(value: number) {
+    this.setAttribute('antenna', String(value));
+  }
+
+  get uidFormat(): UidFormat {
+    const format = this.getAttribute('uid-format') as UidFormat | null;
+    return format && UID_FORMATS.includes(format) ? format : 'hex';
+  }
+
+  set uidFormat(value: UidFormat) {
+    this.setAttribute('uid-format', value);
+  }
+
+  connectedCallback(): void {
+    if (!isWebSerialSupported()) {
+      this.setStatus('Web Serial is not supported by this browser');
+      this.button('connect').disabled = true;
+    }
+  }
+
+  disconnectedCallback(): void {
+    // The port stays locked to the page until closed. Moving the element
+    // detaches and re-inserts it in one go: keep the reader if it is back.
+    queueMicrotask(() => {
+      if (!this.isConnected) this.disconnect().catch(() => {});
+    });
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (oldValue === newValue || !this.device) return;
+    if (name === 'auto-hunt') {
+      if (this.autoHunt) this.startHunt();
+      else this.stopHunt();
+    } else if (name === 'uid-format') {
+      this.render();
+    } else if ((name === 'antenna' || name === 'isob') && this.hunting) {
+      // Restart so the next polls use the new hunt parameters
+      this.stopHunt();
+      this.startHunt();
+    }
+  }
+
+  /**
+   * Ask for a serial port and open it. Must run from a user gesture.
+   */
+  connect(): Promise<void> {
+    if (this.device) return Promise.resolve();
+    // A second click while the chooser is open joins the first attempt
+    if (!this.connecting) {
+      this.connecting = this.openReader().finally(() => {
+        this.connecting = null;
+        this.render();
+      });
+      this.render();
+    }
+    return this.connecting;
+  }
+
+  async disconnect(): Promise<void> {
+    const device = this.device;
+    if (!device) return;
+    this.release();
+    await closeNfcDevice(device);
+    this.setStatus('Disconnected');
+    this.emit('nfc-disconnect', { reader: device.name });
+  }
+
+  /**
+   * Search the field once. Resolves with the card found, null when there is none.
+   */
+  async hunt(): Promise<NfcCardEventDetail | null> {
+    if (!this.device) {
+      this.fail('No reader connected');
+      return null;
+    }
+    const result = await cardHunt(this.device, { ...this.huntOptions(), priority: COMMAND_PRIORITY.USER });
+    if (result.success && result.hexData) {
+      this.card = result;
+      this.render();
+      const detail = this.cardDetail(result, 'hunt');
+      this.emit('nfc-card', detail);
+      return detail;
+    }
+    this.card = null;
+    this.render();
+    this.setStatus(result.message);
+    return null;
+  }
+
+  /**
+   * Poll until stopHunt(): nfc-card fires once per card, nfc-removed when it leaves
+   */
+  startHunt(): void {
+    if (!this.device || this.watcher) return;
+    const watcher = createCardWatcher(this.device, this.huntOptions());
+    watcher.on('cardPresent', card => {
+      this.card = card;
+      this.render();
+      this.emit('nfc-card', this.cardDetail(card, 'watch'));
+    });
+    watcher.on('cardRemoved', (card, status) => {
+      this.card = null;
+      this.render();
+      const rawUid = card.hexData ?? '';
+      this.emit('nfc-removed', { uid: formatUid(rawUid, this.uidFormat), rawUid, status });
+    });
+    watcher.on('error', error => this.fail(error.message));
+    this.watcher = watcher;
+    watcher.start();
+    this.setStatus('Waiting for a card...');
+    this.render();
+  }
+
+  stopHunt(): void {
+    this.watcher?.stop();
+    this.watcher = null;
+    this.render();
+  }
+
+  // Body of connect(), never run twice at once
+  private async openReader(): Promise<void> {
+    const baudRate = Number(this.getAttribute('baud-rate')) || DEFAULT_SERIAL_OPTIONS.baudRate;
+    this.setStatus('Choose the reader...');
+    const result = await requestSerialPort({ options: { ...DEFAULT_SERIAL_OPTIONS, baudRate }, autoDetect: false });
+    if (!result.success || !result.device) {
+      this.fail(result.error || 'Failed to connect');
+      return;
+    }
+
+    const transport = createSerialTransport(result.device);
+    const device = createNfcDevice(transport);
+    this.device = device;
+    transport.on('disconnect', () => {
+      if (this.device !== device) return;
+      this.release();
+      this.setStatus(`${transport.name} unplugged`);
+      this.emit('nfc-disconnect', { reader: transport.name });
+    });
+    this.setStatus(`Connected to ${transport.name}`);
+    this.render();
+    this.emit('nfc-connect', { reader: transport.name });
+    if (this.autoHunt) this.startHunt();
+  }
+
+  private huntOptions() {
+    return { ...DEFAULT_HUNT_OPTIONS, antenna: this.antenna, isob: this.hasAttribute('isob') };
+  }
+
+  // Forget the reader without touching the port, which may already be gone
+  private release(): void {
+    this.stopHunt();
+    this.device = null;
+    this.card = null;
+    this.render();
+  }
+
+  private cardDetail(card: NfcCommandResult, trigger: NfcCardEventDetail['trigger']): NfcCardEventDetail {
+    const rawUid = card.hexData ?? '';
+    return {
+      uid: formatUid(rawUid, this.uidFormat),
+      rawUid,
+      protocol: card.comType === COM_TYPE.INNOVATRON
+        ? 'innovatron'
+        : card.isoB || card.comType === COM_TYPE.ISOB
+        ? 'iso14443b'
+        : card.sak !== undefined ? 'iso14443a' : 'unknown',
+      atqa: card.atqa,
+      sak: card.sak,
+      ats: card.ats?.raw,
+      trigger,
+    };
+  }
+
+  private emit<K extends keyof NfcReaderEventMap>(type: K, detail: NfcReaderEventMap[K]['detail']): void {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private fail(message: string): void {
+    this.setStatus(message);
+    this.emit('nfc-error', { message });
+  }
+
+  private button(action: string): HTMLButtonElement {
+    return this.root.querySelector(`button[data-action="${action}"]`) as HTMLButtonElement;
+  }
+
+  private setStatus(message: string): void {
+    (this.root.querySelector('.status') as HTMLElement).textContent = message;
+  }
+
+  private render(): void {
+    const connected = this.device !== null;
+    const connect = this.button('connect');
+    connect.textContent = connected ? 'Disconnect' : 'Connect';
+    connect.disabled = !isWebSerialSupported() || this.connecting !== null;
+    this.button('hunt').disabled = !connected || this.hunting;
+    const watch = this.button('watch');
+    watch.disabled = !connected;
+    watch.textContent = this.hunting ? 'Stop hunt' : 'Continuous hunt';
+    watch.setAttribute('aria-pressed', String(this.hunting));
+    (this.root.querySelector('.uid') as HTMLElement).textContent = this.uid;
+  }
+}
+
+/**
+ * Register the element under `tag`, once
+ */
+export function defineNfcReaderElement(tag: string = NFC_READER_TAG): void {
+  if (!customElements.get(tag)) {
+    customElements.define(tag, NfcReaderElement);
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { createSimulatedTransport } from './simulated-reader';
+import { createReaderManager } from './reader-manager';
+
+async function openReader(name: string) {
+  const transport = createSimulatedTransport({ name, latency: 1 });
+  await transport.open();
+  return transport;
+}
+
+describe('createReaderManager', () => {
+  it('numbers readers that share a name', async () => {
+    const manager = createReaderManager();
+    const first = manager.add(await openReader(manager.uniqueLabel('RDR-518')));
+    const second = manager.add(await openReader(manager.uniqueLabel('RDR-518')));
+    expect([first.label, second.label]).toEqual(['RDR-518', 'RDR-518 #2']);
+    expect(manager.bySource('RDR-518 #2')?.id).toBe(second.id);
+  });
+
+  it('never gives the label of a removed reader to a new one', async () => {
+    const manager = createReaderManager();
+    const first = manager.add(await openReader(manager.uniqueLabel('RDR-518')));
+    await manager.remove(first.id);
+
+    const second = manager.add(await openReader(manager.uniqueLabel('RDR-518')));
+    expect(second.label).toBe('RDR-518 #2');
+    expect(manager.bySource('RDR-518')).toBeUndefined();
+    expect(manager.feed().map(event => `${event.reader} ${event.kind}`)).toEqual([
+      'RDR-518 connected',
+      'RDR-518 disconnected',
+      'RDR-518 #2 connected',
+    ]);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Several readers connected at once
+ * Each reader keeps its own NfcDevice, card watcher, firmware info and last
+ * card. Card arrivals and departures from all readers are collected in one
+ * event feed. Reader labels are never reused within a session and double as
+ * the transport name, so log lines can be attributed to their reader by
+ * source, even after it was unplugged.
+ */
+
+import { NfcTransport } from './transport';
+import {
+  NfcCommandResult,
+  NfcDevice,
+  NfcVersionInfo,
+  closeNfcDevice,
+  createNfcDevice,
+} from './nfc-device';
+import { NdefReadResult } from './ndef-tag';
+import { CardWatcherOptions, createCardWatcher } from './card-watcher';
+
+// Oldest feed events are dropped past this count
+const FEED_LIMIT = 200;
+
+export interface ReaderState {
+  id: number;
+  /**
+   * Unique within the session, e.g. "ASK RDR-518 #2"
+   */
+  label: string;
+  device: NfcDevice;
+  firmware: NfcVersionInfo | null;
+  /**
+   * Last successful hunt answer, null when no card is in the field
+   */
+  card: NfcCommandResult | null;
+  /**
+   * Message of the last hunt that found no card
+   */
+  cardStatus: string;
+  ndef: NdefReadResult | null;
+  hunting: boolean;
+}
+
+export type ReaderPatch = Partial<Pick<ReaderState, 'firmware' | 'ndef'>>;
+
+export type ReaderEventKind = 'connected' | 'disconnected' | 'unplugged' | 'card' | 'removed';
+
+export interface ReaderEvent {
+  id: number;
+  timestamp: Date;
+  reader: string;
+  kind: ReaderEventKind;
+  uid?: string;
+}
+
+export type ReaderLogType = 'info' | 'success' | 'error';
+
+export interface ReaderHuntOptions extends CardWatcherOptions {
+  /**
+   * Called for each new card with the signal of the hunt, e.g. to read its
+   * NDEF message before the next hunt
+   */
+  onCard?: (reader: ReaderState, card: NfcCommandResult, signal: AbortSignal) => Promise<void> | void;
+}
+
+export interface ReaderManagerOptions {
+  /**
+   * Log lines written by the manager on behalf of a reader
+   */
+  onLog?: (reader: string, type: ReaderLogType, message: string) => void;
+  feedLimit?: number;
+}
+
+export interface ReaderManager {
+  list(): ReaderState[];
+  get(id: number): ReaderState | undefined;
+  /**
+   * Reader whose label is the given log source
+   */
+  bySource(source: string): ReaderState | undefined;
+  /**
+   * Card events of all readers, oldest first
+   */
+  feed(): ReaderEvent[];
+  /**
+   * Name to give the next transport: `name`, or `name #2`, `name #3`... when
+   * a reader of this session already used it
+   */
+  uniqueLabel(name: string): string;
+  /**
+   * Add a reader for an open transport. It is removed when the transport
+   * reports a disconnect.
+   */
+  add(transport: NfcTransport): ReaderState;
+  /**
+   * Stop its hunt and close the reader
+   */
+  remove(id: number): Promise<void>;
+  update(id: number, patch: ReaderPatch): void;
+  setCard(id: number, card: NfcCommandResult): void;
+  clearCard(id: number, status?: string): void;
+  startHunt(id: number, options?: ReaderHuntOptions): void;
+  stopHunt(id: number): void;
+  /**
+   * Called after every change. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+export function createReaderManager(options: ReaderManagerOptions = {}): ReaderManager {
+  const { onLog = () => {}, feedLimit = FEED_LIMIT } = options;
+  let readers: ReaderState[] = [];
+  let events: ReaderEvent[] = [];
+  let nextId = 1;
+  let nextEventId = 1;
+  // Labels of every reader added so far: the log keeps their lines after removal
+  const usedLabels = new Set<string>();
+  const hunts = new Map<number, AbortController>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => {
+    listeners.forEach(listener => listener());
+  };
+
+  const get = (id: number) => readers.find(r => r.id === id);
+
+  // Readers are replaced rather than mutated so renders can compare them
+  const patch = (id: number, changes: Partial<ReaderState>) => {
+    readers = readers.map(r => (r.id === id ? { ...r, ...changes } : r));
+  };
+
+  const record = (reader: string, kind: ReaderEventKind, uid?: string) => {
+    events = [...events, { id: nextEventId++, timestamp: new Date(), reader, kind, uid }].slice(-feedLimit);
+  };
+
+  const abortHunt = (id: number) => {
+    hunts.get(id)?.abort();
+    hunts.delete(id);
+  };
+
+  const detach = async (id: number, kind: 'disconnected' | 'unplugged') => {
+    const reader = get(id);
+    if (!reader) return;
+    abortHunt(id);
+    readers = readers.filter(r => r.id !== id);
+    record(reader.label, kind);
+    notify();
+    await closeNfcDevice(reader.device);
+  };
+
+  const manager: ReaderManager = {
+    list: () => readers,
+    get,
+    bySource: source => readers.find(r => r.label === source),
+    feed: () => events,
+    uniqueLabel(name) {
+      let label = name;
+      for (let n = 2; usedLabels.has(label); n++) {
+        label = `${name} #${n}`;
+      }
+      return label;
+    },
+    add(transport) {
+      const reader: ReaderState = {
+        id: nextId++,
+        label: transport.name,
+        device: createNfcDevice(transport),
+        firmware: null,
+        card: null,
+        cardStatus: '',
+        ndef: null,
+        hunting: false,
+      };
+      readers = [...readers, reader];
+      usedLabels.add(reader.label);
+      transport.on('disconnect', () => {
+        detach(reader.id, 'unplugged').catch(() => {});
+      });
+      record(reader.label, 'connected');
+      notify();
+      return reader;
+    },
+    remove: id => detach(id, 'disconnected'),
+    update(id, changes) {
+      if (!get(id)) return;
+      patch(id, changes);
+      notify();
+    },
+    setCard(id, card) {
+      const reader = get(id);
+      if (!reader) return;
+      if (reader.card?.hexData !== card.hexData) {
+        record(reader.label, 'card', card.hexData);
+      }
+      patch(id, { card, cardStatus: '', ndef: null });
+      notify();
+    },
+    clearCard(id, status = '') {
+      const reader = get(id);
+      if (!reader) return;
+      if (reader.card) {
+        record(reader.label, 'removed', reader.card.hexData);
+      }
+      patch(id, { card: null, cardStatus: status, ndef: null });
+      notify();
+    },
+    startHunt(id, { onCard, ...watch } = {}) {
+      const reader = get(id);
+      if (!reader || hunts.has(id)) return;
+      const controller = new AbortController();
+      const { signal } = controller;
+      hunts.set(id, controller);
+      patch(id, { hunting: true });
+      notify();
+      onLog(reader.label, 'info', 'Started continuous card hunt');
+
+      const watcher = createCardWatcher(reader.device, watch);
+      watcher.on('cardPresent', async card => {
+        manager.setCard(id, card);
+        onLog(reader.label, 'success', `Card detected! UID: ${card.hexData}`);
+        const current = get(id);
+        if (current && onCard) await onCard(current, card, signal);
+      });
+      watcher.on('cardRemoved', (_card, status) => manager.clearCard(id, status));
+      watcher.on('error', error => onLog(reader.label, 'error', `Card hunt failed: ${error.message}`));
+      watcher.start(signal);
+    },
+    stopHunt(id) {
+      abortHunt(id);
+      if (get(id)?.hunting) {
+        patch(id, { hunting: false });
+        notify();
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  return manager;
+}
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReaderEvent } from './reader-manager';
+import {
+  EMBED_MESSAGE_SOURCE,
+  ReaderShare,
+  ReaderShareOptions,
+  TabRole,
+  createReaderShare,
+  loadEmbedOrigins,
+  parseOrigin,
+  saveEmbedOrigins,
+} from './reader-share';
+
+type LockCallback = (lock: object | null) => unknown;
+
+/**
+ * Web Locks for one name, enough for the owner / follower handover
+ */
+function createLocks() {
+  let held = false;
+  const queue: (() => void)[] = [];
+
+  const run = async (callback: LockCallback) => {
+    held = true;
+    try {
+      return await callback({});
+    } finally {
+      held = false;
+      queue.shift()?.();
+    }
+  };
+
+  return {
+    request(_name: string, options: { ifAvailable?: boolean; signal?: AbortSignal }, callback: LockCallback) {
+      if (!held) return run(callback);
+      if (options.ifAvailable) return Promise.resolve(callback(null));
+      return new Promise((resolve, reject) => {
+        const next = () => void run(callback).then(resolve, reject);
+        queue.push(next);
+        options.signal?.addEventListener('abort', () => {
+          const index = queue.indexOf(next);
+          if (index >= 0) queue.splice(index, 1);
+          reject(options.signal?.reason);
+        });
+      });
+    },
+  };
+}
+
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: key => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+async function until(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+}
+
+const event = (kind: ReaderEvent['kind'], uid?: string): ReaderEvent => ({
+  id: 1,
+  timestamp: new Date('2024-05-01T10:00:00.000Z'),
+  reader: 'RDR-518',
+  kind,
+  uid,
+});
+
+let shares: ReaderShare[] = [];
+let parent: { postMessage: ReturnType<typeof vi.fn> };
+
+function openTab(options: ReaderShareOptions = {}) {
+  const roles: TabRole[] = [];
+  const share = createReaderShare({ ...options, onRole: role => roles.push(role) });
+  shares.push(share);
+  return { share, roles };
+}
+
+beforeEach(() => {
+  parent = { postMessage: vi.fn() };
+  vi.stubGlobal('navigator', { locks: createLocks() });
+  vi.stubGlobal('window', { BroadcastChannel, parent });
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+afterEach(() => {
+  shares.forEach(share => share.close());
+  shares = [];
+  vi.unstubAllGlobals();
+});
+
+describe('createReaderShare', () => {
+  it('makes the first tab the owner and streams its feed and events to followers', async () => {
+    const owner = openTab({ feed: () => [event('connected')] });
+    await until(() => owner.share.role === 'owner');
+
+    const received: ReaderEvent[] = [];
+    const feeds: ReaderEvent[][] = [];
+    const follower = openTab({ onEvent: e => received.push(e), onFeed: events => feeds.push(events) });
+    await until(() => feeds.length === 1);
+    expect(follower.roles).toEqual(['follower']);
+    expect(feeds[0].map(e => e.kind)).toEqual(['connected']);
+
+    owner.share.publish(event('card', 'DE AD BE EF'));
+    await until(() => received.length === 1);
+    expect(received[0]).toEqual(event('card', 'DE AD BE EF'));
+  });
+
+  it('runs a follower command on the owner and returns its answer', async () => {
+    const commands: string[] = [];
+    const owner = openTab({
+      onCommand: async command => {
+        commands.push(`${command.kind} ${command.hex}`);
+        return { success: true, message: 'OK', hexData: '90 00', reader: 'RDR-518' };
+      },
+    });
+    await until(() => owner.share.role === 'owner');
+    const follower = openTab();
+    await until(() => follower.share.role === 'follower');
+
+    await expect(follower.share.request({ kind: 'apdu', hex: '00 A4 04 00 00' }))
+      .resolves.toEqual({ success: true, message: 'OK', hexData: '90 00', reader: 'RDR-518' });
+    expect(commands).toEqual(['apdu 00 A4 04 00 00']);
+    await expect(owner.share.request({ kind: 'frame', hex: '80' }))
+      .resolves.toMatchObject({ success: false });
+  });
+
+  it('hands the readers to a follower when the owner closes', async () => {
+    const owner = openTab();
+    await until(() => owner.share.role === 'owner');
+    const follower = openTab();
+    await until(() => follower.share.role === 'follower');
+
+    owner.share.close();
+    await until(() => follower.share.role === 'owner');
+    expect(follower.roles).toEqual(['follower', 'owner']);
+  });
+
+  it('posts card events to each allowed embedding origin only', async () => {
+    const owner = openTab();
+    await until(() => owner.share.role === 'owner');
+
+    owner.share.publish(event('card', 'DE AD BE EF'));
+    expect(parent.postMessage).not.toHaveBeenCalled();
+
+    owner.share.setEmbedOrigins(['https://intranet.example', 'https://visitors.example']);
+    owner.share.publish(event('connected'));
+    owner.share.publish(event('removed', 'DE AD BE EF'));
+    expect(parent.postMessage.mock.calls).toEqual([
+      [{ source: EMBED_MESSAGE_SOURCE, type: 'removed', reader: 'RDR-518', uid: 'DE AD BE EF', timestamp: '2024-05-01T10:00:00.000Z' }, 'https://intranet.example'],
+      [{ source: EMBED_MESSAGE_SOURCE, type: 'removed', reader: 'RDR-518', uid: 'DE AD BE EF', timestamp: '2024-05-01T10:00:00.000Z' }, 'https://visitors.example'],
+    ]);
+  });
+});
+
+describe('embed origins', () => {
+  it('keeps only the origin of http(s) URLs', () => {
+    expect(parseOrigin(' https://intranet.example/visitors?x=1 ')).toBe('https://intranet.example');
+    expect(parseOrigin('http://localhost:5173')).toBe('http://localhost:5173');
+    expect(parseOrigin('javascript:alert(1)')).toBeNull();
+    expect(parseOrigin('intranet.example')).toBeNull();
+  });
+
+  it('loads the saved origins and drops entries that are not origins', () => {
+    saveEmbedOrigins(['https://intranet.example']);
+    expect(loadEmbedOrigins()).toEqual(['https://intranet.example']);
+
+    localStorage.setItem('nfc-embed-origins', JSON.stringify(['https://a.example', 'https://b.example/path', 42]));
+    expect(loadEmbedOrigins()).toEqual(['https://a.example']);
+    localStorage.setItem('nfc-embed-origins', '{');
+    expect(loadEmbedOrigins()).toEqual([]);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * One set of readers, several tabs
+ * A serial or USB port opens in one tab only. The tab holding the reader lock
+ * (Web Locks) owns the readers and broadcasts their events over a
+ * BroadcastChannel. The other tabs follow read-only, send their commands to
+ * the owner, and the first of them takes over when the owner closes.
+ * Card events are also posted to the page embedding the app in an iframe,
+ * for allowed origins only.
+ */
+
+import { ReaderEvent } from './reader-manager';
+
+// Web Locks name, held by the owner tab for as long as it lives
+const READER_LOCK = 'nfc-reader';
+
+// BroadcastChannel shared by all tabs of the app
+const CHANNEL_NAME = 'nfc-reader';
+
+// localStorage key of the origins allowed to embed the app
+const EMBED_ORIGINS_KEY = 'nfc-embed-origins';
+
+// A follower's command fails after this long without an answer
+const REQUEST_TIMEOUT = 10000;
+
+/**
+ * `source` of every message posted to the embedding page
+ */
+export const EMBED_MESSAGE_SOURCE = 'nfc-reader';
+
+export type TabRole = 'owner' | 'follower';
+
+/**
+ * Command a follower asks the owner to run, as hex
+ */
+export interface SharedCommand {
+  kind: 'frame' | 'apdu';
+  hex: string;
+  /**
+   * Reader label; the owner's selected reader when omitted
+   */
+  reader?: string;
+}
+
+export interface SharedCommandResult {
+  success: boolean;
+  message: string;
+  hexData?: string;
+  /**
+   * Status word of an APDU answer
+   */
+  sw?: string;
+  /**
+   * Reader that ran the command
+   */
+  reader?: string;
+}
+
+/**
+ * Message posted to the embedding page when a card arrives or leaves
+ */
+export interface EmbedCardMessage {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  type: 'card' | 'removed';
+  reader: string;
+  uid: string;
+  /**
+   * ISO 8601
+   */
+  timestamp: string;
+}
+
+type ChannelMessage =
+  | { type: 'event'; event: ReaderEvent }
+  | { type: 'sync' }
+  | { type: 'feed'; events: ReaderEvent[] }
+  | { type: 'request'; id: string; command: SharedCommand }
+  | { type: 'response'; id: string; result: SharedCommandResult };
+
+export interface ReaderShareOptions {
+  /**
+   * Called once the lock is settled, and again when a follower takes over
+   */
+  onRole?: (role: TabRole) => void;
+  /**
+   * Follower: an event of the owner's readers
+   */
+  onEvent?: (event: ReaderEvent) => void;
+  /**
+   * Follower: the owner's feed so far, received when following starts
+   */
+  onFeed?: (events: ReaderEvent[]) => void;
+  /**
+   * Owner: events sent to a tab that starts following
+   */
+  feed?: () => ReaderEvent[];
+  /**
+   * Owner: run a command sent by a follower
+   */
+  onCommand?: (command: SharedCommand) => Promise<SharedCommandResult>;
+}
+
+export interface ReaderShare {
+  /**
+   * null until the lock request is answered
+   */
+  readonly role: TabRole | null;
+  /**
+   * Send an event of this tab's readers to the followers (owner only) and to
+   * the embedding page
+   */
+  publish(event: ReaderEvent): void;
+  /**
+   * Follower: run a command on the owner's reader
+   */
+  request(command: SharedCommand): Promise<SharedCommandResult>;
+  /**
+   * Origins the embedding page may have; card events are posted to each
+   */
+  setEmbedOrigins(origins: string[]): void;
+  /**
+   * Release the lock and leave the channel
+   */
+  close(): void;
+}
+
+export function isReaderShareSupported(): boolean {
+  return 'locks' in navigator && 'BroadcastChannel' in window;
+}
+
+export function createReaderShare(options: ReaderShareOptions = {}): ReaderShare {
+  const { onRole = () => {}, onEvent = () => {}, onFeed = () => {}, feed = () => [], onCommand } = options;
+  let role: TabRole | null = null;
+  let embedOrigins: string[] = [];
+  const closed = new AbortController();
+  const pending = new Map<string, (result: SharedCommandResult) => void>();
+  const channel = isReaderShareSupported() ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  const post = (message: ChannelMessage) => {
+    channel?.postMessage(message);
+  };
+
+  // Resolved by close(): the owner holds the lock until then
+  let release: () => void = () => {};
+  const held = new Promise<void>(resolve => {
+    release = resolve;
+  });
+
+  const setRole = (next: TabRole) => {
+    if (closed.signal.aborted) return;
+    role = next;
+    onRole(next);
+    if (next === 'follower') {
+      post({ type: 'sync' });
+    }
+  };
+
+  const own = async () => {
+    setRole('owner');
+    await held;
+  };
+
+  const embed = (event: ReaderEvent) => {
+    if (window.parent === window || !event.uid || (event.kind !== 'card' && event.kind !== 'removed')) return;
+    const message: EmbedCardMessage = {
+      source: EMBED_MESSAGE_SOURCE,
+      type: event.kind,
+      reader: event.reader,
+      uid: event.uid,
+      timestamp: event.timestamp.toISOString(),
+    };
+    // The target origin check keeps UIDs from pages that are not allowed
+    embedOrigins.forEach(origin => window.parent.postMessage(message, origin));
+  };
+
+  const handleRequest = async (id: string, command: SharedCommand) => {
+    let result: SharedCommandResult;
+    try {
+      result = onCommand ? await onCommand(command) : { success: false, message: 'The reader tab does not accept commands' };
+    } catch (error) {
+      result = { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+    post({ type: 'response', id, result });
+  };
+
+  if (channel) {
+    channel.onmessage = (e: MessageEvent<ChannelMessage>) => {
+      const message = e.data;
+      if (role === 'owner') {
+        if (message.type === 'sync') post({ type: 'feed', events: feed() });
+        if (message.type === 'request') handleRequest(message.id, message.command);
+      } else if (role === 'follower') {
+        if (message.type === 'event') {
+          onEvent(message.event);
+          embed(message.event);
+        }
+        if (message.type === 'feed') onFeed(message.events);
+      }
+      // Answers are matched by id: every follower receives all of them
+      if (message.type === 'response') {
+        pending.get(message.id)?.(message.result);
+      }
+    };
+
+    navigator.locks
+      .request(READER_LOCK, { ifAvailable: true }, lock => {
+        if (lock) return own();
+        setRole('follower');
+        // Queue for the lock: the first follower in line takes over
+        navigator.locks.request(READER_LOCK, { signal: closed.signal }, own).catch(() => {});
+        return undefined;
+      })
+      .catch(() => {});
+  } else {
+    // Without locks or channels every tab works on its own
+    setRole('owner');
+  }
+
+  return {
+    get role() {
+      return role;
+    },
+    publish(event) {
+      if (role === 'owner') post({ type: 'event', event });
+      embed(event);
+    },
+    request(command) {
+      if (role !== 'follower') {
+        return Promise.resolve({ success: false, message: 'No other tab owns the reader' });
+      }
+      const id = crypto.randomUUID();
+      return new Promise(resolve => {
+        const timer = setTimeout(() => {
+          pending.delete(id);
+          resolve({ success: false, message: 'The reader tab did not answer' });
+        }, REQUEST_TIMEOUT);
+        pending.set(id, result => {
+          clearTimeout(timer);
+          pending.delete(id);
+          resolve(result);
+        });
+        post({ type: 'request', id, command });
+      });
+    },
+    setEmbedOrigins(origins) {
+      embedOrigins = origins;
+    },
+    close() {
+      closed.abort();
+      release();
+      pending.forEach(resolve => resolve({ success: false, message: 'Closed' }));
+      channel?.close();
+    },
+  };
+}
+
+/**
+ * Origin of a URL as typed by the user, null when it is not an http(s) origin
+ */
+export function parseOrigin(text: string): string | null {
+  try {
+    const url = new URL(text.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+export function loadEmbedOrigins(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(EMBED_ORIGINS_KEY) ?? '[]') as unknown;
+    return Array.isArray(saved) ? saved.filter((o): o is string => typeof o === 'string' && parseOrigin(o) === o) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveEmbedOrigins(origins: string[]): void {
+  localStorage.setItem(EMBED_ORIGINS_KEY, JSON.stringify(origins));
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { SessionLogError, exportSession, importSession } from './session-log';
+
+const header = {
+  exportedAt: '2026-01-01T12:00:00.000Z',
+  port: { kind: 'simulated' as const, name: 'Simulated RDR-518' },
+  firmware: { raw: 'GEN5XX CSC 01.20', manufacturer: 'ASK', version: '01.20' },
+};
+
+function exportWith(patch: Record<string, unknown>): string {
+  const json = JSON.parse(exportSession({ header, entries: [] }, 'json'));
+  return JSON.stringify({ ...json, header: { ...json.header, ...patch } });
+}
+
+describe('importSession', () => {
+  it('reads back an exported header', () => {
+    expect(importSession(exportSession({ header, entries: [] }, 'json')).header).toEqual(header);
+  });
+
+  it.each([
+    [{ exportedAt: undefined }, 'Header: invalid exportedAt "undefined"'],
+    [{ port: 'COM3' }, 'Header: port is not an object'],
+    [{ port: { kind: 'bluetooth', name: 'x' } }, 'Header: unknown port kind "bluetooth"'],
+    [{ port: { kind: 'serial' } }, 'Header: port name is not a string'],
+    [{ firmware: { version: '1.0' } }, 'Header: firmware needs "raw" and "manufacturer" strings'],
+    [{ firmware: { raw: 'x', manufacturer: 'ASK', version: 12 } }, 'Header: firmware version is not a string'],
+  ])('rejects the header %j', (patch, message) => {
+    expect(() => importSession(exportWith(patch))).toThrow(new SessionLogError(message));
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Session log entries and their JSON / CSV / text export
+ * JSON exports keep timestamps, direction and raw frame bytes, and can be
+ * imported back into the viewer.
+ */
+
+import { NfcVersionInfo, fromHex, toHex } from './nfc-device';
+import { TRANSPORT_KINDS, TransportKind } from './transport';
+
+export type LogEntryType = 'info' | 'success' | 'error' | 'command' | 'response' | 'tx' | 'rx';
+
+export const LOG_ENTRY_TYPES: LogEntryType[] = ['info', 'success', 'error', 'command', 'response', 'tx', 'rx'];
+
+export interface LogEntry {
+  id: number;
+  timestamp: Date;
+  type: LogEntryType;
+  message: string;
+  /**
+   * Raw bytes of a TX/RX frame, dissected when the line is expanded
+   */
+  frame?: Uint8Array;
+  /**
+   * Label of the reader the line belongs to, when several are connected
+   */
+  reader?: string;
+}
+
+export interface SessionHeader {
+  exportedAt: string;
+  firmware?: NfcVersionInfo;
+  port?: {
+    kind: TransportKind;
+    name: string;
+  };
+}
+
+export interface Session {
+  header: SessionHeader;
+  entries: LogEntry[];
+}
+
+export type SessionFormat = 'json' | 'csv' | 'text';
+
+// Identifies our JSON exports on import
+const SESSION_FORMAT = 'nfc-cdc-session';
+const SESSION_VERSION = 1;
+
+interface SessionEntryJson {
+  timestamp: string;
+  type: LogEntryType;
+  direction?: 'TX' | 'RX';
+  message: string;
+  frame?: string;
+  reader?: string;
+}
+
+export class SessionLogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionLogError';
+  }
+}
+
+/**
+ * Serialise a session in one of the export formats
+ */
+export function exportSession(session: Session, format: SessionFormat): string {
+  switch (format) {
+    case 'json':
+      return exportJson(session);
+    case 'csv':
+      return exportCsv(session);
+    case 'text':
+      return exportText(session);
+  }
+}
+
+/**
+ * Parse a JSON export. Throws SessionLogError naming the first invalid field.
+ */
+export function importSession(text: string): Session {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new SessionLogError(`Not a JSON file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(parsed) || parsed.format !== SESSION_FORMAT) {
+    throw new SessionLogError('Not a session export (missing "format": "nfc-cdc-session")');
+  }
+  if (parsed.version !== SESSION_VERSION) {
+    throw new SessionLogError(`Unsupported session version ${String(parsed.version)}`);
+  }
+  if (!isObject(parsed.header) || !Array.isArray(parsed.entries)) {
+    throw new SessionLogError('Session export has no header or entries');
+  }
+
+  const entries = parsed.entries.map((raw, i): LogEntry => {
+    if (!isObject(raw)) {
+      throw new SessionLogError(`Entry ${i + 1} is not an object`);
+    }
+    const timestamp = new Date(String(raw.timestamp));
+    if (isNaN(timestamp.getTime())) {
+      throw new SessionLogError(`Entry ${i + 1}: invalid timestamp "${String(raw.timestamp)}"`);
+    }
+    if (!LOG_ENTRY_TYPES.includes(raw.type as LogEntryType)) {
+      throw new SessionLogError(`Entry ${i + 1}: unknown type "${String(raw.type)}"`);
+    }
+    let frame: Uint8Array | undefined;
+    if (raw.frame !== undefined) {
+      try {
+        frame = fromHex(String(raw.frame));
+      } catch (error) {
+        throw new SessionLogError(`Entry ${i + 1}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return {
+      id: i,
+      timestamp,
+      type: raw.type as LogEntryType,
+      message: String(raw.message ?? ''),
+      frame,
+      reader: raw.reader !== undefined ? String(raw.reader) : undefined,
+    };
+  });
+
+  return { header: parseHeader(parsed.header), entries };
+}
+
+// Optional string fields of the firmware version in the header
+const FIRMWARE_FIELDS = ['model', 'type', 'version', 'interface', 'buildDate', 'buildTime'] as const;
+
+function parseHeader(raw: Record<string, unknown>): SessionHeader {
+  if (typeof raw.exportedAt !== 'string' || isNaN(new Date(raw.exportedAt).getTime())) {
+    throw new SessionLogError(`Header: invalid exportedAt "${String(raw.exportedAt)}"`);
+  }
+  const header: SessionHeader = { exportedAt: raw.exportedAt };
+
+  if (raw.port !== undefined) {
+    const { port } = raw;
+    if (!isObject(port)) {
+      throw new SessionLogError('Header: port is not an object');
+    }
+    if (!TRANSPORT_KINDS.includes(port.kind as TransportKind)) {
+      throw new SessionLogError(`Header: unknown port kind "${String(port.kind)}"`);
+    }
+    if (typeof port.name !== 'string') {
+      throw new SessionLogError('Header: port name is not a string');
+    }
+    header.port = { kind: port.kind as TransportKind, name: port.name };
+  }
+
+  if (raw.firmware !== undefined) {
+    const { firmware } = raw;
+    if (!isObject(firmware)) {
+      throw new SessionLogError('Header: firmware is not an object');
+    }
+    if (typeof firmware.raw !== 'string' || typeof firmware.manufacturer !== 'string') {
+      throw new SessionLogError('Header: firmware needs "raw" and "manufacturer" strings');
+    }
+    const info: NfcVersionInfo = { raw: firmware.raw, manufacturer: firmware.manufacturer };
+    for (const name of FIRMWARE_FIELDS) {
+      const value = firmware[name];
+      if (value === undefined) continue;
+      if (typeof value !== 'string') {
+        throw new SessionLogError(`Header: firmware ${name} is not a string`);
+      }
+      info[name] = value;
+    }
+    header.firmware = info;
+  }
+
+  return header;
+}
+
+/**
+ * One-line description of a session header, e.g. for the import log line
+ */
+export function describeSessionHeader(header: SessionHeader): string {
+  const parts = [`exported ${header.exportedAt}`];
+  if (header.port) parts.push(`${header.port.name} (${header.port.kind})`);
+  if (header.firmware) parts.push(header.firmware.raw);
+  return parts.join(', ');
+}
+
+/**
+ * File name for an export, stamped with the export time
+ */
+export function sessionFileName(header: SessionHeader, format: SessionFormat): string {
+  const stamp = header.exportedAt.replace(/[:.]/g, '-');
+  const extension = format === 'text' ? 'txt' : format;
+  return `nfc-session-${stamp}.${extension}`;
+}
+
+function exportJson({ header, entries }: Session): string {
+  return JSON.stringify({
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    header,
+    entries: entries.map((entry): SessionEntryJson => ({
+      timestamp: entry.timestamp.toISOString(),
+      type: entry.type,
+      direction: direction(entry),
+      message: entry.message,
+      frame: entry.frame ? toHex(entry.frame) : undefined,
+      reader: entry.reader,
+    })),
+  }, null, 2);
+}
+
+function exportCsv({ header, entries }: Session): string {
+  const rows = [
+    ['timestamp', 'type', 'direction', 'message', 'frame', 'reader'],
+    ...entries.map(entry => [
+      entry.timestamp.toISOString(),
+      entry.type,
+      direction(entry) ?? '',
+      entry.message,
+      entry.frame ? toHex(entry.frame) : '',
+      entry.reader ?? '',
+    ]),
+  ];
+  return [
+    ...headerLines(header).map(line => `# ${line}`),
+    ...rows.map(csvRow),
+  ].join('\n') + '\n';
+}
+
+function exportText({ header, entries }: Session): string {
+  return [
+    ...headerLines(header),
+    '',
+    ...entries.map(entry =>
+      `${entry.timestamp.toISOString()} [${entry.type.toUpperCase()}] ${entry.reader ? `${entry.reader}: ` : ''}${entry.message}`
+    ),
+  ].join('\n') + '\n';
+}
+
+function headerLines(header: SessionHeader): string[] {
+  const lines = [`Exported: ${header.exportedAt}`];
+  if (header.port) {
+    lines.push(`Port: ${header.port.name} (${header.port.kind})`);
+  }
+  if (header.firmware) {
+    const { firmware } = header;
+    lines.push(`Firmware: ${firmware.raw}`);
+    if (firmware.version) {
+      lines.push(`Firmware version: ${firmware.version}${firmware.buildDate ? ` built ${firmware.buildDate} ${firmware.buildTime ?? ''}`.trimEnd() : ''}`);
+    }
+  }
+  return lines;
+}
+
+function direction(entry: LogEntry): 'TX' | 'RX' | undefined {
+  return entry.type === 'tx' ? 'TX' : entry.type === 'rx' ? 'RX' : undefined;
+}
+
+/**
+ * One CSV line, quoting cells that contain commas, quotes or line breaks
+ */
+export function csvRow(cells: string[]): string {
+  return cells.map(csvCell).join(',');
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
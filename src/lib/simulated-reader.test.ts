@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCommand,
+  cardHunt,
+  createNfcDevice,
+  endTagCommunication,
+  getFirmwareVersion,
+  sendCommand,
+} from './nfc-device';
+import {
+  DEFAULT_SIMULATED_FIRMWARE,
+  DEFAULT_VIRTUAL_CARDS,
+  SimulatedReaderOptions,
+  createSimulatedTransport,
+} from './simulated-reader';
+
+async function simulatedDevice(options: SimulatedReaderOptions = {}) {
+  const transport = createSimulatedTransport({ latency: 1, ...options });
+  await transport.open();
+  return { transport, device: createNfcDevice(transport) };
+}
+
+describe('createSimulatedTransport', () => {
+  it('answers the version behind a leading DLE and in small chunks', async () => {
+    const { device } = await simulatedDevice({ chunkSize: 3 });
+    const result = await getFirmwareVersion(device);
+    expect(result.success).toBe(true);
+    expect(result.version?.raw).toBe(DEFAULT_SIMULATED_FIRMWARE);
+  });
+
+  it('reports the card in the field, then an empty field', async () => {
+    const { transport, device } = await simulatedDevice();
+    const [card] = DEFAULT_VIRTUAL_CARDS;
+
+    transport.presentCard(card);
+    const found = await cardHunt(device, { timeout10ms: 1 });
+    expect(found.success).toBe(true);
+    expect(found.hexData).toBe(card.uid);
+    expect(found.atqa).toBe(card.atqa);
+    expect((await endTagCommunication(device)).success).toBe(true);
+
+    transport.removeCard();
+    const empty = await cardHunt(device, { timeout10ms: 1 });
+    expect(empty.success).toBe(false);
+    expect(empty.message).toBe('No card in field');
+  });
+
+  it('drops a frame with a bad CRC like the reader', async () => {
+    const { transport, device } = await simulatedDevice();
+    const frame = buildCommand(0x80, 0x01, 0x01);
+    frame[frame.length - 1] ^= 0xff;
+    await transport.write(frame);
+    expect(await transport.readFrame(50)).toHaveLength(0);
+
+    // The next valid command is answered normally
+    expect((await sendCommand(device, buildCommand(0x80, 0x01, 0x01))).success).toBe(true);
+  });
+});
@@ -0,0 +1,889 @@
+/**
+ * In-process RDR-518 emulator speaking the ASK CSC protocol
+ * Accepts frames produced by buildCommand and answers like the real reader,
+ * so the UI and nfc-device.ts can run without hardware.
+ */
+
+import { log } from './log';
+import { DLE, createFrameDecoder, dropStaleFrames, readResponseFrame } from './frame';
+import { NfcTransport, createTransportEvents } from './transport';
+import {
+  CMD_EXECUTE,
+  CLASS_SYSTEM,
+  CLASS_ISO,
+  COM_TYPE,
+  ISO_EXCHANGE_APDU,
+  ISO_EXCHANGE_RAW,
+  STATUS_OK,
+  SYS_SOFTWARE_VERSION,
+  SYS_ENTER_HUNT_PHASE,
+  SYS_END_TAG_COMMUNICATION,
+  buildCommand,
+  crc16X25,
+  fromHex,
+} from './nfc-device';
+import {
+  CLASS_MIFARE,
+  MIFARE_AUTHENTICATE,
+  MIFARE_BLOCK_SIZE,
+  MIFARE_DECREMENT,
+  MIFARE_INCREMENT,
+  MIFARE_KEY_A,
+  MIFARE_KEY_SLOTS,
+  MIFARE_LOAD_KEY,
+  MIFARE_READ_BLOCK,
+  MIFARE_RESTORE,
+  MIFARE_TRANSFER,
+  MIFARE_WRITE_BLOCK,
+  blocksInSector,
+  decodeValueBlock,
+  encodeAccessBits,
+  encodeValueBlock,
+  firstBlockOfSector,
+  isTrailerBlock,
+  mifareSectorCount,
+  sectorOfBlock,
+  trailerBlockOfSector,
+} from './mifare';
+import { createTextRecord, createUriRecord, encodeNdefMessage } from './ndef';
+import { NDEF_APPLICATION_AID, T2_READ, T2_WRITE, T4_CC_FILE_ID, encodeNdefTlv } from './ndef-tag';
+import { PPSE_NAME } from './emv';
+import { encodeTlv } from './tlv';
+import { CSC_STATUS } from './status-codes';
+
+// Response frames start with 0x01 (the ACK prefix) in place of the command byte
+const RESPONSE_HEADER = 0x01;
+
+// Status bytes
+const STATUS_NOT_EXECUTED = CSC_STATUS.NOT_EXECUTED;
+const ERR_NO_CARD = CSC_STATUS.NO_CARD;
+const ERR_AUTH_FAILED = CSC_STATUS.AUTH_FAILED;
+const ERR_NOT_AUTHENTICATED = CSC_STATUS.NOT_AUTHENTICATED;
+const ERR_BAD_PARAMETER = CSC_STATUS.BAD_PARAMETER;
+const ERR_VALUE_FORMAT = CSC_STATUS.VALUE_FORMAT;
+
+// Type 2 tag answers (4-bit ACK/NAK) and the NTAG213 GET_VERSION reply
+const T2_GET_VERSION = 0x60;
+const T2_ACK = 0x0a;
+const T2_NAK = 0x00;
+const T2_PAGE_SIZE = 4;
+const NTAG213_VERSION = [0x00, 0x04, 0x04, 0x02, 0x01, 0x00, 0x0f, 0x03];
+const NTAG213_PAGES = 45;
+
+// Type 4 NDEF file of the emulated application
+const T4_NDEF_FILE_ID = 0xe104;
+const T4_NDEF_FILE_SIZE = 1024;
+
+export interface VirtualCard {
+  label: string;
+  uid: string;
+  atqa: string;
+  sak: number;
+  comType: number;
+  ats?: string;
+  /**
+   * ISO-B only: Application Data (4 bytes) and Protocol Info (3 bytes) of the
+   * ATQB, and the answer to ATTRIB. The PUPI is taken from uid.
+   */
+  atqb?: string;
+  attrib?: string;
+  /**
+   * Answer an ISO 7816 APDU (response data followed by SW1 SW2).
+   * ISO-DEP cards without a handler get a small default card application.
+   */
+  apdu?: (apdu: Uint8Array) => Uint8Array;
+  /**
+   * Initial memory: MIFARE Classic blocks, or Type 2 pages for SAK 0x00 tags.
+   * Defaults to a blank card with transport keys or an empty NDEF tag.
+   */
+  memory?: Uint8Array;
+  /**
+   * NDEF message served by the card: the NFC Forum Type 4 application on
+   * ISO-DEP cards, or the initial TLV area of Type 2 tags without memory
+   */
+  ndef?: Uint8Array;
+}
+
+export interface SimulatedReaderOptions {
+  cards?: VirtualCard[];
+  firmware?: string;
+  /**
+   * Send a DLE byte ahead of the first response after open, like the real reader
+   */
+  leadingDle?: boolean;
+  /**
+   * Split responses into chunks of this size to mimic USB packetisation
+   */
+  chunkSize?: number;
+  /**
+   * Processing delay before each response in milliseconds
+   */
+  latency?: number;
+  /**
+   * Transport name and log source, e.g. to tell several simulators apart
+   */
+  name?: string;
+  /**
+   * Stay silent about the card reported by the previous hunt until a hunt sets
+   * FORGET, as some firmware does. Off: every hunt reports the card in the field.
+   */
+  reportOnce?: boolean;
+}
+
+export interface SimulatedTransport extends NfcTransport {
+  readonly cards: VirtualCard[];
+  readonly cardInField: VirtualCard | null;
+  presentCard(card: VirtualCard | null): void;
+  removeCard(): void;
+}
+
+export const SIMULATED_READER_NAME = 'Simulated RDR-518';
+
+export const DEFAULT_VIRTUAL_CARDS: VirtualCard[] = [
+  { label: 'MIFARE Classic 1K', uid: 'DE AD BE EF', atqa: '00 04', sak: 0x08, comType: COM_TYPE.MIFARE },
+  { label: 'MIFARE Classic 4K', uid: '4A 1B 2C 3D', atqa: '00 02', sak: 0x18, comType: COM_TYPE.MIFARE },
+  { label: 'ISO-A 4-byte UID', uid: '12 34 56 78', atqa: '00 04', sak: 0x20, comType: COM_TYPE.ISOA, ats: '06 75 77 81 02 80' },
+  {
+    label: 'NTAG213 (7-byte UID, NDEF text)',
+    uid: '04 A2 5B 3A 6F 61 80',
+    atqa: '00 44',
+    sak: 0x00,
+    comType: COM_TYPE.ISOA,
+    ndef: encodeNdefMessage([createTextRecord('Hello from a simulated NTAG213')]),
+  },
+  {
+    label: 'MIFARE DESFire EV1 (7-byte UID)',
+    uid: '04 31 5C 22 9A 3B 80',
+    atqa: '03 44',
+    sak: 0x20,
+    comType: COM_TYPE.ISOA,
+    ats: '06 75 77 81 02 80',
+  },
+  {
+    label: 'NFC Forum Type 4 tag (URL)',
+    uid: '5A 6B 7C 8D',
+    atqa: '00 04',
+    sak: 0x20,
+    comType: COM_TYPE.ISOA,
+    ats: '05 78 80 70 02',
+    ndef: encodeNdefMessage([createUriRecord('https://github.com/sysdevrun/nfc-cdc-browser-reader')]),
+  },
+  {
+    label: 'Contactless payment card (Visa test)',
+    uid: '08 3C 5E 71',
+    atqa: '00 04',
+    sak: 0x20,
+    comType: COM_TYPE.ISOA,
+    ats: '0D 78 80 70 02 00 73 C8 40 13 00 90 00',
+    apdu: createEmvCardResponder(),
+  },
+  {
+    label: 'ISO-B card',
+    uid: 'A1 B2 C3 D4',
+    atqa: '',
+    sak: 0x00,
+    comType: COM_TYPE.ISOB,
+    atqb: '00 00 00 00 00 81 71',
+    attrib: '00',
+  },
+];
+
+export const DEFAULT_SIMULATED_FIRMWARE = 'GEN5XX CSC 01.20 <SIM> Jul 31 2014 16:16:21 (C) ASK';
+
+/**
+ * Create a simulated reader behind the generic transport interface
+ */
+export function createSimulatedTransport(options: SimulatedReaderOptions = {}): SimulatedTransport {
+  const {
+    cards = DEFAULT_VIRTUAL_CARDS,
+    firmware = DEFAULT_SIMULATED_FIRMWARE,
+    leadingDle = true,
+    chunkSize = 0,
+    latency = 5,
+    name = SIMULATED_READER_NAME,
+    reportOnce = false,
+  } = options;
+
+  const events = createTransportEvents();
+
+  let open = false;
+  let firstResponse = true;
+  let cardInField: VirtualCard | null = null;
+  let selectedCard: VirtualCard | null = null;
+  // Card reported by the last hunt: hunts with FORGET 0x00 do not report it again
+  let reportedCard: VirtualCard | null = null;
+
+  // Bytes waiting to be read by the host, and a reader blocked on them
+  const rxQueue: Uint8Array[] = [];
+  let rxWaiter: (() => void) | null = null;
+  const decoder = createFrameDecoder();
+  const defaultResponders = new Map<VirtualCard, (apdu: Uint8Array) => Uint8Array>();
+
+  // MIFARE Classic state: reader key slots, card memories and the crypto session
+  const keySlots = new Map<number, Uint8Array>();
+  const memories = new Map<VirtualCard, Uint8Array>();
+  let mifareAuth: { sector: number; keyType: number } | null = null;
+  let valueRegister: number | null = null;
+
+  const pushResponse = (frame: Uint8Array) => {
+    let bytes = frame;
+    if (firstResponse && leadingDle) {
+      bytes = new Uint8Array(frame.length + 1);
+      bytes[0] = DLE;
+      bytes.set(frame, 1);
+    }
+    firstResponse = false;
+
+    if (chunkSize > 0) {
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        rxQueue.push(bytes.slice(i, i + chunkSize));
+      }
+    } else {
+      rxQueue.push(bytes);
+    }
+    rxWaiter?.();
+  };
+
+  const respond = (
+    ident: number,
+    data: number[] | Uint8Array,
+    delay: number = latency,
+    classId: number = CLASS_SYSTEM
+  ) => {
+    const frame = buildCommand(RESPONSE_HEADER, classId, ident, new Uint8Array(data));
+    setTimeout(() => {
+      if (open) {
+        pushResponse(frame);
+      }
+    }, delay);
+  };
+
+  const handleHunt = (data: Uint8Array) => {
+    const isob = data[1] !== 0x00;
+    const isoa = data[2] !== 0x00;
+    const mifare = data[4] !== 0x00;
+    const forget = data[6] !== 0x00;
+    const timeout10ms = data[7] ?? 0;
+
+    if (forget) {
+      reportedCard = null;
+    }
+
+    const card = cardInField;
+    const accepted = card && (
+      (card.comType === COM_TYPE.ISOB && isob) ||
+      ((card.comType === COM_TYPE.ISOA || card.comType === COM_TYPE.ISOA_EXTENDED) && isoa) ||
+      (card.comType === COM_TYPE.MIFARE && (mifare || isoa))
+    );
+
+    if (!card || !accepted || (reportOnce && card === reportedCard)) {
+      // The reader keeps searching for the whole timeout before giving up
+      respond(SYS_ENTER_HUNT_PHASE, [STATUS_OK, ERR_NO_CARD], Math.max(latency, timeout10ms * 10));
+      return;
+    }
+
+    selectedCard = card;
+    reportedCard = card;
+    mifareAuth = null;
+    respond(SYS_ENTER_HUNT_PHASE, buildHuntAnswer(card));
+  };
+
+  const handleApdu = (apdu: Uint8Array) => {
+    const card = selectedCard;
+    if (!card || card !== cardInField) {
+      respond(ISO_EXCHANGE_APDU, [ERR_NO_CARD], latency, CLASS_ISO);
+      return;
+    }
+    if (card.comType !== COM_TYPE.ISOB && !card.ats && !card.apdu) {
+      // Not an ISO-DEP card: nothing answers at layer 4
+      respond(ISO_EXCHANGE_APDU, [STATUS_NOT_EXECUTED], latency, CLASS_ISO);
+      return;
+    }
+    let handler = card.apdu ?? defaultResponders.get(card);
+    if (!handler) {
+      handler = card.ndef ? createNdefTagResponder(card.ndef) : createDefaultApduResponder();
+      defaultResponders.set(card, handler);
+    }
+    respond(ISO_EXCHANGE_APDU, [STATUS_OK, ...handler(apdu)], latency, CLASS_ISO);
+  };
+
+  const getMemory = (card: VirtualCard): Uint8Array => {
+    let memory = memories.get(card);
+    if (!memory) {
+      memory = card.memory
+        ? card.memory.slice()
+        : card.comType === COM_TYPE.MIFARE
+        ? createBlankMifareMemory(card)
+        : createType2Memory(card, card.ndef);
+      memories.set(card, memory);
+    }
+    return memory;
+  };
+
+  // Raw ISO 14443-3 frames: only Type 2 tags (SAK 0x00) answer them
+  const handleRaw = (frame: Uint8Array) => {
+    const reply = (payload: number[] | Uint8Array) =>
+      respond(ISO_EXCHANGE_RAW, [STATUS_OK, ...payload], latency, CLASS_ISO);
+
+    const card = selectedCard;
+    if (!card || card !== cardInField) {
+      respond(ISO_EXCHANGE_RAW, [ERR_NO_CARD], latency, CLASS_ISO);
+      return;
+    }
+    if (card.comType !== COM_TYPE.ISOA || card.sak !== 0x00) {
+      respond(ISO_EXCHANGE_RAW, [STATUS_NOT_EXECUTED], latency, CLASS_ISO);
+      return;
+    }
+
+    const memory = getMemory(card);
+    const pages = memory.length / T2_PAGE_SIZE;
+    const page = frame[1] ?? 0;
+    switch (frame[0]) {
+      case T2_GET_VERSION:
+        reply(NTAG213_VERSION);
+        break;
+      case T2_READ: {
+        if (page >= pages) {
+          reply([T2_NAK]);
+          break;
+        }
+        // READ rolls over to page 0 at the end of memory
+        const bytes = new Uint8Array(16);
+        for (let i = 0; i < 16; i++) {
+          bytes[i] = memory[(page * T2_PAGE_SIZE + i) % memory.length];
+        }
+        reply(bytes);
+        break;
+      }
+      case T2_WRITE:
+        // Pages 0-3 hold the UID, lock bytes and CC; keep them fixed
+        if (frame.length !== 2 + T2_PAGE_SIZE || page < 4 || page >= pages) {
+          reply([T2_NAK]);
+          break;
+        }
+        memory.set(frame.subarray(2), page * T2_PAGE_SIZE);
+        reply([T2_ACK]);
+        break;
+      default:
+        reply([T2_NAK]);
+    }
+  };
+
+  const handleMifare = (ident: number, data: Uint8Array) => {
+    const reply = (status: number, payload: number[] | Uint8Array = []) =>
+      respond(ident, [status, ...payload], latency, CLASS_MIFARE);
+
+    if (ident === MIFARE_LOAD_KEY) {
+      if (data.length !== 7 || data[0] >= MIFARE_KEY_SLOTS) {
+        reply(ERR_BAD_PARAMETER);
+        return;
+      }
+      keySlots.set(data[0], data.slice(1));
+      reply(STATUS_OK);
+      return;
+    }
+
+    const card = selectedCard;
+    if (!card || card !== cardInField || card.comType !== COM_TYPE.MIFARE) {
+      reply(ERR_NO_CARD);
+      return;
+    }
+    const memory = getMemory(card);
+    const block = data[0];
+    if (block === undefined || block * MIFARE_BLOCK_SIZE >= memory.length) {
+      reply(ERR_BAD_PARAMETER);
+      return;
+    }
+    const offset = block * MIFARE_BLOCK_SIZE;
+    const sector = sectorOfBlock(block);
+
+    if (ident === MIFARE_AUTHENTICATE) {
+      const key = keySlots.get(data[2]);
+      const trailer = trailerBlockOfSector(sector) * MIFARE_BLOCK_SIZE;
+      const stored = data[1] === MIFARE_KEY_A
+        ? memory.subarray(trailer, trailer + 6)
+        : memory.subarray(trailer + 10, trailer + 16);
+      if (!key || key.some((b, i) => b !== stored[i])) {
+        // A failed authentication halts the card, like the real chip
+        mifareAuth = null;
+        selectedCard = null;
+        reply(ERR_AUTH_FAILED);
+        return;
+      }
+      mifareAuth = { sector, keyType: data[1] };
+      reply(STATUS_OK);
+      return;
+    }
+
+    if (!mifareAuth || mifareAuth.sector !== sector) {
+      reply(ERR_NOT_AUTHENTICATED);
+      return;
+    }
+
+    switch (ident) {
+      case MIFARE_READ_BLOCK: {
+        const bytes = memory.slice(offset, offset + MIFARE_BLOCK_SIZE);
+        if (isTrailerBlock(block)) {
+          bytes.fill(0x00, 0, 6); // Key A is never readable
+        }
+        reply(STATUS_OK, bytes);
+        break;
+      }
+      case MIFARE_WRITE_BLOCK:
+        if (block === 0 || data.length !== 1 + MIFARE_BLOCK_SIZE) {
+          reply(ERR_BAD_PARAMETER);
+          break;
+        }
+        memory.set(data.subarray(1), offset);
+        reply(STATUS_OK);
+        break;
+      case MIFARE_INCREMENT:
+      case MIFARE_DECREMENT:
+      case MIFARE_RESTORE: {
+        const current = decodeValueBlock(memory.subarray(offset, offset + MIFARE_BLOCK_SIZE));
+        if (!current || (ident !== MIFARE_RESTORE && data.length !== 5)) {
+          reply(current ? ERR_BAD_PARAMETER : ERR_VALUE_FORMAT);
+          break;
+        }
+        const amount = ident === MIFARE_RESTORE
+          ? 0
+          : new DataView(data.buffer, data.byteOffset + 1, 4).getUint32(0, true) | 0;
+        valueRegister = ident === MIFARE_DECREMENT ? current.value - amount : current.value + amount;
+        reply(STATUS_OK);
+        break;
+      }
+      case MIFARE_TRANSFER: {
+        if (valueRegister === null || isTrailerBlock(block)) {
+          reply(ERR_BAD_PARAMETER);
+          break;
+        }
+        const address = memory[offset + 12];
+        memory.set(encodeValueBlock(valueRegister, address), offset);
+        valueRegister = null;
+        reply(STATUS_OK);
+        break;
+      }
+      default:
+        reply(STATUS_NOT_EXECUTED);
+    }
+  };
+
+  const handleFrame = (frame: Uint8Array) => {
+    const error = validateCommandFrame(frame);
+    if (error) {
+      // The real reader silently drops malformed frames
+      log('INFO', `Dropped frame: ${error}`, name);
+      return;
+    }
+
+    const classId = frame[2];
+    const ident = frame[3];
+    const data = frame.subarray(4, 4 + frame[1] - 2);
+
+    if (classId === CLASS_ISO && ident === ISO_EXCHANGE_APDU) {
+      handleApdu(data);
+      return;
+    }
+
+    if (classId === CLASS_ISO && ident === ISO_EXCHANGE_RAW) {
+      handleRaw(data);
+      return;
+    }
+
+    if (classId === CLASS_MIFARE) {
+      handleMifare(ident, data);
+      return;
+    }
+
+    if (classId !== CLASS_SYSTEM) {
+      respond(ident, [STATUS_NOT_EXECUTED], latency, classId);
+      return;
+    }
+
+    switch (ident) {
+      case SYS_SOFTWARE_VERSION:
+        respond(ident, new TextEncoder().encode(firmware));
+        break;
+      case SYS_ENTER_HUNT_PHASE:
+        handleHunt(data);
+        break;
+      case SYS_END_TAG_COMMUNICATION:
+        selectedCard = null;
+        mifareAuth = null;
+        respond(ident, [STATUS_OK]);
+        break;
+      default:
+        respond(ident, [STATUS_NOT_EXECUTED]);
+    }
+  };
+
+  const waitForBytes = (timeout: number) =>
+    new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        rxWaiter = null;
+        resolve();
+      }, timeout);
+      rxWaiter = () => {
+        clearTimeout(timer);
+        rxWaiter = null;
+        resolve();
+      };
+    });
+
+  return {
+    kind: 'simulated',
+    name,
+    cards,
+    get isOpen() {
+      return open;
+    },
+    get cardInField() {
+      return cardInField;
+    },
+    async open() {
+      open = true;
+      firstResponse = true;
+      rxQueue.length = 0;
+      decoder.reset();
+      log('INFO', `${name} ready (${cards.length} virtual cards)`, name);
+      events.emit('open');
+    },
+    async close() {
+      open = false;
+      selectedCard = null;
+      reportedCard = null;
+      rxQueue.length = 0;
+      rxWaiter?.();
+      events.emit('close');
+    },
+    async write(data) {
+      if (!open) {
+        throw new Error('Simulated reader not open');
+      }
+      // Anything left over from a previous timeout is stale
+      rxQueue.splice(0).forEach(chunk => decoder.push(chunk));
+      dropStaleFrames(decoder, name);
+      handleFrame(data);
+    },
+    readFrame(timeout, expect) {
+      const readChunk = async (remaining: number): Promise<Uint8Array | null> => {
+        if (rxQueue.length === 0) {
+          await waitForBytes(remaining);
+        }
+        const chunk = rxQueue.shift();
+        if (!chunk) {
+          log('INFO', 'Read timeout', name);
+          return null;
+        }
+        return chunk;
+      };
+      return readResponseFrame(decoder, readChunk, timeout, expect, name);
+    },
+    on: events.on,
+    presentCard(card) {
+      cardInField = card;
+      if (selectedCard !== card) {
+        selectedCard = null;
+        mifareAuth = null;
+      }
+      // A card put back in the field is a new card to the reader
+      if (reportedCard !== card) {
+        reportedCard = null;
+      }
+      log('INFO', card ? `Virtual card placed: ${card.label} (${card.uid})` : 'Virtual card removed', name);
+    },
+    removeCard() {
+      this.presentCard(null);
+    },
+  };
+}
+
+/**
+ * Minimal ISO 7816-4 card application: SELECT by name answers 61xx with an FCI
+ * fetched through GET RESPONSE, GET CHALLENGE returns random bytes.
+ */
+export function createDefaultApduResponder(): (apdu: Uint8Array) => Uint8Array {
+  let pending: number[] = [];
+
+  return (apdu) => {
+    const [cla, ins, p1] = apdu;
+    if ((cla & 0x80) !== 0) {
+      return new Uint8Array([0x6e, 0x00]); // CLA not supported
+    }
+
+    switch (ins) {
+      case 0xa4: { // SELECT
+        if (p1 !== 0x04 || apdu.length < 6) {
+          return new Uint8Array([0x6a, 0x86]); // Incorrect P1/P2
+        }
+        const aid = Array.from(apdu.subarray(5, 5 + apdu[4]));
+        const label = Array.from(new TextEncoder().encode('SIMULATED'));
+        const proprietary = [0x50, label.length, ...label];
+        const fci = [0x84, aid.length, ...aid, 0xa5, proprietary.length, ...proprietary];
+        pending = [0x6f, fci.length, ...fci];
+        return new Uint8Array([0x61, pending.length]);
+      }
+      case 0xc0: { // GET RESPONSE
+        if (pending.length === 0) {
+          return new Uint8Array([0x69, 0x85]); // Conditions of use not satisfied
+        }
+        const le = apdu[4] || 256;
+        const part = pending.slice(0, le);
+        pending = pending.slice(le);
+        return new Uint8Array(pending.length > 0
+          ? [...part, 0x61, Math.min(pending.length, 0xff)]
+          : [...part, 0x90, 0x00]);
+      }
+      case 0x84: { // GET CHALLENGE
+        const challenge = new Uint8Array((apdu[4] || 8) + 2);
+        crypto.getRandomValues(challenge.subarray(0, challenge.length - 2));
+        challenge.set([0x90, 0x00], challenge.length - 2);
+        return challenge;
+      }
+      default:
+        return new Uint8Array([0x6d, 0x00]); // INS not supported
+    }
+  };
+}
+
+/**
+ * Blank MIFARE Classic memory: manufacturer block, a demo value block in
+ * sector 1, and transport configuration trailers (key A/B FF..FF, FF 07 80 69)
+ */
+export function createBlankMifareMemory(card: VirtualCard): Uint8Array {
+  const sectors = mifareSectorCount(card.sak);
+  const memory = new Uint8Array((trailerBlockOfSector(sectors - 1) + 1) * MIFARE_BLOCK_SIZE);
+
+  const uid = fromHex(card.uid);
+  const atqa = fromHex(card.atqa);
+  memory.set(uid, 0);
+  memory[uid.length] = uid.reduce((bcc, b) => bcc ^ b, 0);
+  memory[uid.length + 1] = card.sak;
+  memory.set([atqa[1] ?? 0, atqa[0] ?? 0], uid.length + 2);
+
+  const accessBits = encodeAccessBits(['000', '000', '000', '001']);
+  for (let sector = 0; sector < sectors; sector++) {
+    const trailer = trailerBlockOfSector(sector) * MIFARE_BLOCK_SIZE;
+    memory.fill(0xff, trailer, trailer + 6);
+    memory.set(accessBits, trailer + 6);
+    memory.fill(0xff, trailer + 10, trailer + 16);
+  }
+
+  const valueBlock = firstBlockOfSector(1) + Math.min(1, blocksInSector(1) - 2);
+  memory.set(encodeValueBlock(100, valueBlock), valueBlock * MIFARE_BLOCK_SIZE);
+  return memory;
+}
+
+/**
+ * Check CMD, LEN, terminator and CRC of a host command frame
+ */
+function validateCommandFrame(frame: Uint8Array): string | null {
+  if (frame.length < 7) {
+    return `too short (${frame.length} bytes)`;
+  }
+  if (frame[0] !== CMD_EXECUTE) {
+    return `unexpected command byte 0x${frame[0].toString(16).padStart(2, '0')}`;
+  }
+  const expectedLength = frame[1] + 5; // CMD + LEN + payload + terminator + CRC
+  if (frame.length !== expectedLength) {
+    return `length mismatch (LEN=0x${frame[1].toString(16)}, got ${frame.length} bytes)`;
+  }
+  if (frame[frame.length - 3] !== 0x00) {
+    return 'missing terminator';
+  }
+  const crc = crc16X25(frame.subarray(0, frame.length - 2));
+  const received = frame[frame.length - 2] | (frame[frame.length - 1] << 8);
+  if (crc !== received) {
+    return `bad CRC (expected 0x${crc.toString(16).padStart(4, '0')}, got 0x${received.toString(16).padStart(4, '0')})`;
+  }
+  return null;
+}
+
+/**
+ * Build the hunt answer data block for a card
+ * STATUS, COM, ATR length, then ATR: UID length, SAK, UID, ATQA, ATS
+ * (ISO-B: ATQB 50 PUPI AppData ProtocolInfo, then the ATTRIB answer)
+ */
+function buildHuntAnswer(card: VirtualCard): number[] {
+  if (card.comType === COM_TYPE.ISOB) {
+    const atr = [
+      0x50,
+      ...Array.from(fromHex(card.uid)),
+      ...Array.from(fromHex(card.atqb ?? '00 00 00 00 00 81 71')),
+      ...Array.from(fromHex(card.attrib ?? '00')),
+    ];
+    return [STATUS_OK, card.comType, atr.length, ...atr];
+  }
+  const uid = Array.from(fromHex(card.uid));
+  const atqa = Array.from(fromHex(card.atqa));
+  const ats = card.ats ? Array.from(fromHex(card.ats)) : [];
+  const atr = [uid.length, card.sak, ...uid, ...atqa, ...ats];
+  return [STATUS_OK, card.comType, atr.length, ...atr];
+}
+
+/**
+ * NFC Forum Type 4 NDEF application: SELECT of the application and of the CC
+ * (E103) and NDEF (E104) files, READ BINARY and UPDATE BINARY. Other AIDs fall
+ * through to the default card application.
+ */
+export function createNdefTagResponder(message: Uint8Array): (apdu: Uint8Array) => Uint8Array {
+  const fallback = createDefaultApduResponder();
+  const aid = fromHex(NDEF_APPLICATION_AID);
+  const cc = new Uint8Array([
+    0x00, 0x0f, 0x20, 0x00, 0xff, 0x00, 0xff,
+    0x04, 0x06, T4_NDEF_FILE_ID >> 8, T4_NDEF_FILE_ID & 0xff,
+    T4_NDEF_FILE_SIZE >> 8, T4_NDEF_FILE_SIZE & 0xff, 0x00, 0x00,
+  ]);
+  const ndefFile = new Uint8Array(T4_NDEF_FILE_SIZE);
+  ndefFile.set([message.length >> 8, message.length & 0xff]);
+  ndefFile.set(message.subarray(0, T4_NDEF_FILE_SIZE - 2), 2);
+
+  let applicationSelected = false;
+  let file: Uint8Array | null = null;
+  const ok = (data: ArrayLike<number> = []) => new Uint8Array([...Array.from(data), 0x90, 0x00]);
+
+  return (apdu) => {
+    const [, ins, p1, p2] = apdu;
+    const offset = (p1 << 8) | p2;
+
+    switch (ins) {
+      case 0xa4: // SELECT
+        if (p1 === 0x04) {
+          const name = apdu.subarray(5, 5 + apdu[4]);
+          applicationSelected = name.length === aid.length && name.every((b, i) => b === aid[i]);
+          file = null;
+          return applicationSelected ? ok() : fallback(apdu);
+        }
+        if (p1 === 0x00 && applicationSelected && apdu[4] === 2) {
+          const id = (apdu[5] << 8) | apdu[6];
+          file = id === T4_CC_FILE_ID ? cc : id === T4_NDEF_FILE_ID ? ndefFile : null;
+          return file ? ok() : new Uint8Array([0x6a, 0x82]); // File not found
+        }
+        return new Uint8Array([0x6a, 0x86]);
+      case 0xb0: { // READ BINARY
+        if (!file) return new Uint8Array([0x69, 0x86]); // No current EF
+        if (offset > file.length) return new Uint8Array([0x6b, 0x00]);
+        return ok(file.subarray(offset, offset + (apdu[4] || 256)));
+      }
+      case 0xd6: { // UPDATE BINARY
+        if (file !== ndefFile) return new Uint8Array([0x69, 0x86]);
+        const data = apdu.subarray(5, 5 + apdu[4]);
+        if (offset + data.length > ndefFile.length) return new Uint8Array([0x6b, 0x00]);
+        ndefFile.set(data, offset);
+        return ok();
+      }
+      default:
+        return applicationSelected ? new Uint8Array([0x6d, 0x00]) : fallback(apdu);
+    }
+  };
+}
+
+/**
+ * NTAG213 memory: UID pages, CC E1 10 12 00 (144-byte data area) and an NDEF
+ * TLV holding the given message (empty by default)
+ */
+export function createType2Memory(card: VirtualCard, message: Uint8Array = new Uint8Array(0)): Uint8Array {
+  const memory = new Uint8Array(NTAG213_PAGES * T2_PAGE_SIZE);
+  const uid = fromHex(card.uid);
+  if (uid.length === 7) {
+    // UID0-2 BCC0 | UID3-6 | BCC1 internal lock lock (cascade tag 0x88 in BCC0)
+    memory.set([uid[0], uid[1], uid[2], 0x88 ^ uid[0] ^ uid[1] ^ uid[2]], 0);
+    memory.set(uid.subarray(3), 4);
+    memory.set([uid[3] ^ uid[4] ^ uid[5] ^ uid[6], 0x48], 8);
+  } else {
+    memory.set(uid.subarray(0, 8), 0);
+  }
+  memory.set([0xe1, 0x10, 0x12, 0x00], 3 * T2_PAGE_SIZE);
+  memory.set(encodeNdefTlv(message).subarray(0, 0x12 * 8), 4 * T2_PAGE_SIZE);
+  return memory;
+}
+
+/**
+ * Contactless payment card with the public Visa test PAN: PPSE listing two
+ * applications, a PDOL on SELECT, format 2 GPO answer and one record in SFI 1
+ */
+export function createEmvCardResponder(): (apdu: Uint8Array) => Uint8Array {
+  const tlv = (tag: string, value: string | Uint8Array[]) =>
+    encodeTlv(tag, typeof value === 'string' ? fromHex(value) : value);
+  const text = (value: string) => toHexString(new TextEncoder().encode(value));
+  const withSw = (data: Uint8Array, sw: number[] = [0x90, 0x00]) => new Uint8Array([...data, ...sw]);
+
+  const applications = [
+    { aid: 'A0000000031010', label: 'VISA CREDIT', priority: '01' },
+    { aid: 'A0000000032010', label: 'VISA ELECTRON', priority: '02' },
+  ];
+  const ppse = text(PPSE_NAME);
+  const track2 = '4761739001010010D30122011143878089';
+  let selected: string | null = null;
+  let atc = 1;
+
+  return (apdu) => {
+    const [cla, ins, p1, p2] = apdu;
+    const body = toHexString(apdu.subarray(5, 5 + (apdu[4] ?? 0)));
+
+    if (ins === 0xa4 && p1 === 0x04) { // SELECT by name
+      if (body === ppse) {
+        selected = ppse;
+        return withSw(tlv('6F', [
+          tlv('84', ppse),
+          tlv('A5', [tlv('BF0C', applications.map(app =>
+            tlv('61', [tlv('4F', app.aid), tlv('50', text(app.label)), tlv('87', app.priority)])))]),
+        ]));
+      }
+      const app = applications.find(a => a.aid === body);
+      if (!app) {
+        return new Uint8Array([0x6a, 0x82]); // File not found
+      }
+      selected = app.aid;
+      return withSw(tlv('6F', [
+        tlv('84', app.aid),
+        tlv('A5', [
+          tlv('50', text(app.label)),
+          tlv('87', app.priority),
+          tlv('9F38', '9F66049F02069F37045F2A02'),
+          tlv('BF0C', [tlv('9F5A', '0509780978')]),
+        ]),
+      ]));
+    }
+
+    if (cla === 0x80 && ins === 0xa8) { // GET PROCESSING OPTIONS
+      if (!selected || selected === ppse) {
+        return new Uint8Array([0x69, 0x85]);
+      }
+      const counter = atc++;
+      return withSw(tlv('77', [
+        tlv('82', '2000'),
+        tlv('94', '08010100'),
+        tlv('57', track2),
+        tlv('5F34', '00'),
+        tlv('9F10', '06011203A00000'),
+        tlv('9F26', toHexString(crypto.getRandomValues(new Uint8Array(8)))),
+        tlv('9F27', '80'),
+        tlv('9F36', counter.toString(16).padStart(4, '0')),
+        tlv('9F6C', '1600'),
+      ]));
+    }
+
+    if (ins === 0xb2) { // READ RECORD
+      if (!selected || selected === ppse) {
+        return new Uint8Array([0x69, 0x85]);
+      }
+      if (p2 !== 0x0c || p1 !== 1) {
+        return new Uint8Array([0x6a, 0x83]); // Record not found
+      }
+      return withSw(tlv('70', [
+        tlv('57', track2),
+        tlv('5F20', text('VISA ACQUIRER TEST/CARD 01')),
+        tlv('5F24', '301231'),
+        tlv('5F28', '0840'),
+        tlv('9F1F', text('1143878089000000')),
+      ]));
+    }
+
+    return new Uint8Array([0x6d, 0x00]);
+  };
+}
+
+function toHexString(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0').toUpperCase()).join('');
+}
@@ -0,0 +1,100 @@
+/**
+ * ASK CSC reader status and error codes
+ * The first data byte of most responses is a status. Hunt answers differ: a
+ * card found leaves 0x00 there and is followed by its COM type, while an empty
+ * field gives OK followed by the search result. Both use the codes below.
+ */
+
+export const CSC_STATUS = {
+  NOT_EXECUTED: 0x00,
+  OK: 0x01,
+  VALUE_FORMAT: 0x6a,
+  BAD_PARAMETER: 0x6b,
+  NOT_AUTHENTICATED: 0x6c,
+  AUTH_FAILED: 0x6d,
+  CARD_MUTE: 0x6e,
+  NO_CARD: 0x6f,
+} as const;
+
+export interface StatusCodeInfo {
+  code: number;
+  name: string;
+  description: string;
+  /**
+   * Suggested fix shown next to the error
+   */
+  hint?: string;
+  known: boolean;
+}
+
+const CATALOGUE: Record<number, Omit<StatusCodeInfo, 'code' | 'known'>> = {
+  [CSC_STATUS.NOT_EXECUTED]: {
+    name: 'NOT_EXECUTED',
+    description: 'Command not executed',
+    hint: 'The firmware does not support this class/command, or the card type does not accept it',
+  },
+  [CSC_STATUS.OK]: {
+    name: 'OK',
+    description: 'Command executed',
+  },
+  [CSC_STATUS.VALUE_FORMAT]: {
+    name: 'VALUE_FORMAT',
+    description: 'Block is not a valid value block',
+    hint: 'Format the block as a value block (value, ~value, value, address) before using value operations',
+  },
+  [CSC_STATUS.BAD_PARAMETER]: {
+    name: 'BAD_PARAMETER',
+    description: 'Invalid parameter',
+    hint: 'Check the block number, key slot and data length',
+  },
+  [CSC_STATUS.NOT_AUTHENTICATED]: {
+    name: 'NOT_AUTHENTICATED',
+    description: 'Sector not authenticated',
+    hint: 'Authenticate the sector holding the block first',
+  },
+  [CSC_STATUS.AUTH_FAILED]: {
+    name: 'AUTH_FAILED',
+    description: 'MIFARE authentication failed',
+    hint: 'Check the key and key type; the card halts after a failed authentication, so hunt it again',
+  },
+  [CSC_STATUS.CARD_MUTE]: {
+    name: 'CARD_MUTE',
+    description: 'Card did not answer or answered with a transmission error',
+    hint: 'Hold the card still and flat on the antenna',
+  },
+  [CSC_STATUS.NO_CARD]: {
+    name: 'NO_CARD',
+    description: 'No card in field',
+    hint: 'Place a card on the antenna, or enable its protocol (ISO-A, ISO-B, MIFARE) in the hunt',
+  },
+};
+
+/**
+ * Catalogue entry for a status code. Unknown codes keep their raw value.
+ */
+export function describeStatus(code: number): StatusCodeInfo {
+  const entry = CATALOGUE[code];
+  if (entry) {
+    return { code, known: true, ...entry };
+  }
+  return {
+    code,
+    known: false,
+    name: 'UNKNOWN',
+    description: `Unknown status 0x${hexByte(code)}`,
+  };
+}
+
+/**
+ * One-line form used in result messages, e.g. "No card in field (0x6F NO_CARD)"
+ */
+export function formatStatus(code: number): string {
+  const info = describeStatus(code);
+  return info.known
+    ? `${info.description} (0x${hexByte(code)} ${info.name})`
+    : info.description;
+}
+
+function hexByte(b: number): string {
+  return (b & 0xff).toString(16).padStart(2, '0').toUpperCase();
+}
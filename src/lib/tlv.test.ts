@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { fromHex, toHex } from './nfc-device';
+import { TlvError, encodeTlv, findAllTlv, findTlv, parseDol, parseTlv } from './tlv';
+
+describe('parseTlv', () => {
+  it('descends into constructed tags and reads two-byte tags', () => {
+    const nodes = parseTlv(fromHex('6F 0F 84 02 A0 00 A5 09 BF 0C 06 9F 5A 03 05 09 78'));
+    expect(nodes).toHaveLength(1);
+    expect(nodes[0]).toMatchObject({ tag: '6F', constructed: true });
+    expect(toHex(findTlv(nodes, '84')!.value)).toBe('A0 00');
+    expect(toHex(findTlv(nodes, '9F5A')!.value)).toBe('05 09 78');
+  });
+
+  it('reads long-form lengths', () => {
+    const value = new Uint8Array(200).fill(0xab);
+    const [node] = parseTlv(new Uint8Array([0x90, 0x81, 200, ...value]));
+    expect(node.value).toHaveLength(200);
+  });
+
+  it('skips 00 and FF padding between objects', () => {
+    const nodes = parseTlv(fromHex('00 50 01 41 FF FF 87 01 01'));
+    expect(nodes.map(n => n.tag)).toEqual(['50', '87']);
+  });
+
+  it('rejects objects running past the data and missing lengths', () => {
+    expect(() => parseTlv(fromHex('50 05 41 42'))).toThrow(TlvError);
+    expect(() => parseTlv(fromHex('9F'))).toThrow(/truncated/);
+    expect(() => parseTlv(fromHex('50'))).toThrow(/missing/);
+    expect(() => parseTlv(fromHex('50 84 00 00 00 01 00'))).toThrow(/Invalid length/);
+  });
+});
+
+describe('findAllTlv', () => {
+  it('returns every match in document order', () => {
+    const nodes = parseTlv(fromHex('BF 0C 0C 61 04 4F 02 A0 01 61 04 4F 02 A0 02'));
+    expect(findAllTlv(nodes, '4F').map(n => toHex(n.value))).toEqual(['A0 01', 'A0 02']);
+  });
+});
+
+describe('parseDol', () => {
+  it('lists the tags and lengths of a PDOL', () => {
+    expect(parseDol(fromHex('9F 66 04 9F 02 06 9F 37 04 5F 2A 02'))).toEqual([
+      { tag: '9F66', length: 4 },
+      { tag: '9F02', length: 6 },
+      { tag: '9F37', length: 4 },
+      { tag: '5F2A', length: 2 },
+    ]);
+  });
+});
+
+describe('encodeTlv', () => {
+  it('round-trips nested objects and picks the length form', () => {
+    const encoded = encodeTlv('6F', [encodeTlv('84', fromHex('A0 00')), encodeTlv('50', new Uint8Array(130))]);
+    expect(toHex(encoded.subarray(0, 3))).toBe('6F 81 89');
+    const [node] = parseTlv(encoded);
+    expect(node.children?.map(c => c.tag)).toEqual(['84', '50']);
+    expect(toHex(encodeTlv('9F02', new Uint8Array(300)).subarray(0, 5))).toBe('9F 02 82 01 2C');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * BER-TLV encoding as used by ISO 7816-4 and EMV
+ * Tags are kept as uppercase hex strings ("9F38") so they can key dictionaries.
+ */
+
+export interface TlvNode {
+  tag: string;
+  /**
+   * Constructed tags (bit 6 of the first tag byte) carry nested TLVs in children
+   */
+  constructed: boolean;
+  value: Uint8Array;
+  children?: TlvNode[];
+}
+
+/**
+ * Entry of a Data Object List (PDOL, CDOL, DDOL): a tag and the length the card expects
+ */
+export interface DolEntry {
+  tag: string;
+  length: number;
+}
+
+/**
+ * Malformed BER-TLV data
+ */
+export class TlvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TlvError';
+  }
+}
+
+/**
+ * Parse a sequence of BER-TLV objects, descending into constructed tags
+ */
+export function parseTlv(data: Uint8Array): TlvNode[] {
+  const nodes: TlvNode[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    // 00 and FF are padding between objects (EMV Book 3, Annex B)
+    if (data[offset] === 0x00 || data[offset] === 0xff) {
+      offset++;
+      continue;
+    }
+
+    const start = offset;
+    const tag = readTag(data, offset);
+    offset += tag.size;
+    const length = readLength(data, offset, start);
+    offset += length.size;
+
+    if (offset + length.value > data.length) {
+      throw new TlvError(`Tag ${tag.hex} at offset ${start} runs past the end of the data`);
+    }
+    const value = data.slice(offset, offset + length.value);
+    offset += length.value;
+
+    const constructed = (data[start] & 0x20) !== 0;
+    nodes.push(constructed
+      ? { tag: tag.hex, constructed, value, children: parseTlv(value) }
+      : { tag: tag.hex, constructed, value });
+  }
+  return nodes;
+}
+
+/**
+ * Parse a Data Object List: tags followed by lengths, without values
+ */
+export function parseDol(data: Uint8Array): DolEntry[] {
+  const entries: DolEntry[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const start = offset;
+    const tag = readTag(data, offset);
+    offset += tag.size;
+    const length = readLength(data, offset, start);
+    offset += length.size;
+    entries.push({ tag: tag.hex, length: length.value });
+  }
+  return entries;
+}
+
+/**
+ * Depth-first search for the first node with the given tag
+ */
+export function findTlv(nodes: TlvNode[], tag: string): TlvNode | undefined {
+  for (const node of nodes) {
+    if (node.tag === tag) {
+      return node;
+    }
+    const nested = node.children && findTlv(node.children, tag);
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * All nodes with the given tag, in document order
+ */
+export function findAllTlv(nodes: TlvNode[], tag: string): TlvNode[] {
+  return nodes.flatMap(node => [
+    ...(node.tag === tag ? [node] : []),
+    ...(node.children ? findAllTlv(node.children, tag) : []),
+  ]);
+}
+
+/**
+ * Encode one TLV object. Pass an array of encoded children for constructed tags.
+ */
+export function encodeTlv(tag: string, value: Uint8Array | Uint8Array[]): Uint8Array {
+  const body = Array.isArray(value) ? concat(value) : value;
+  const tagBytes = hexToBytes(tag);
+  const length = body.length < 0x80
+    ? [body.length]
+    : body.length <= 0xff
+    ? [0x81, body.length]
+    : [0x82, body.length >> 8, body.length & 0xff];
+  return concat([tagBytes, new Uint8Array(length), body]);
+}
+
+function readTag(data: Uint8Array, offset: number): { hex: string; size: number } {
+  let size = 1;
+  // Low five bits all set: the tag continues while bit 8 of the next byte is set
+  if ((data[offset] & 0x1f) === 0x1f) {
+    while (offset + size < data.length && data[offset + size] & 0x80) {
+      size++;
+    }
+    size++;
+  }
+  if (offset + size > data.length) {
+    throw new TlvError(`Tag at offset ${offset} is truncated`);
+  }
+  return { hex: bytesToHex(data.subarray(offset, offset + size)), size };
+}
+
+function readLength(data: Uint8Array, offset: number, start: number): { value: number; size: number } {
+  if (offset >= data.length) {
+    throw new TlvError(`Length of the object at offset ${start} is missing`);
+  }
+  const first = data[offset];
+  if (first < 0x80) {
+    return { value: first, size: 1 };
+  }
+  const count = first & 0x7f;
+  if (count === 0 || count > 3 || offset + 1 + count > data.length) {
+    throw new TlvError(`Invalid length 0x${first.toString(16)} at offset ${offset}`);
+  }
+  let value = 0;
+  for (let i = 1; i <= count; i++) {
+    value = (value << 8) | data[offset + i];
+  }
+  return { value, size: 1 + count };
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0').toUpperCase()).join('');
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return new Uint8Array((hex.match(/../g) ?? []).map(byte => parseInt(byte, 16)));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
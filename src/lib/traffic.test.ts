@@ -0,0 +1,69 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { createNfcDevice, getCardUid, getFirmwareVersion, sendCustomCommand } from './nfc-device';
+import { TrafficReplayError, createReplaySerialDevice, parseTrafficFixture } from './traffic';
+import { createSerialTransport } from './web-serial';
+
+function loadFixture(name: string) {
+  return parseTrafficFixture(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+}
+
+async function replay(name: string) {
+  const transport = createSerialTransport(createReplaySerialDevice(loadFixture(name), { speed: Infinity }), 'Replay');
+  await transport.open();
+  return createNfcDevice(transport);
+}
+
+describe('RDR-518 traffic replay', () => {
+  // DLE before the first answer, answers split across chunks, then an empty field
+  it('reads the version and the card of rdr518-get-uid.json', async () => {
+    const device = await replay('rdr518-get-uid.json');
+
+    const version = await getFirmwareVersion(device);
+    expect(version.success).toBe(true);
+    expect(version.version?.raw).toBe('GEN5XX CSC 01.20<USB> Jul 31 2014 16:16:21 (C) ASK  SAM?');
+    expect(version.version).toMatchObject({ model: 'GEN5XX', type: 'CSC' });
+
+    const card = await getCardUid(device);
+    expect(card.success).toBe(true);
+    expect(card.hexData).toBe('DE AD BE EF');
+    expect(card.sak).toBe('08');
+
+    const empty = await getCardUid(device);
+    expect(empty.success).toBe(false);
+    expect(empty.message).toBe('No card in field');
+  });
+
+  // The card-found answer carries 0x00 where other answers have their status
+  it('reports the captured hunt answers with their search result as status', async () => {
+    const device = await replay('rdr518-get-uid.json');
+    await getFirmwareVersion(device);
+
+    const hunt = '80 0A 01 03 00 00 02 11 03 01 01 14 00 9C F8';
+    const found = await sendCustomCommand(device, hunt);
+    expect(found.hexData).toBe('0B 01 03 00 08 06 00 08 DE AD BE EF 00 EF 8B');
+    expect(found.status?.name).toBe('OK');
+    expect(found.message).toBe('Card found! UID: DE AD BE EF');
+
+    const empty = await sendCustomCommand(device, hunt);
+    expect(empty.status?.name).toBe('NO_CARD');
+    expect(empty.message).toBe('No card in field');
+  });
+
+  it('rejects a command the capture does not have', async () => {
+    const device = await replay('rdr518-get-uid.json');
+    await expect(device.transport.write(new Uint8Array([0x80, 0x02, 0x01, 0x03, 0x00, 0x00, 0x00])))
+      .rejects.toThrow(TrafficReplayError);
+  });
+
+  it('reports the position of a malformed event', () => {
+    const fixture = (events: unknown[]) => JSON.stringify({ format: 'nfc-cdc-traffic', version: 1, events });
+    const tx = { t: 0, dir: 'tx', data: '80 02 01 01 00 50 3F' };
+
+    expect(() => parseTrafficFixture(fixture([tx, null]))).toThrow('Event 2: expected an object with "t", "dir" and "data"');
+    expect(() => parseTrafficFixture(fixture([tx, tx, 'rx 01 02']))).toThrow(/^Event 3: expected an object/);
+    expect(() => parseTrafficFixture(fixture([{ t: 0, dir: 'rx', data: 1 }]))).toThrow('Event 1: "data" must be a hex string');
+    expect(() => parseTrafficFixture(fixture([{ t: 0, dir: 'in', data: '01' }]))).toThrow(TrafficReplayError);
+    expect(() => parseTrafficFixture('null')).toThrow(/Not a traffic fixture/);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Serial traffic recording and replay
+ *
+ * The recorder wraps the reader and writer of a connected SerialDevice and
+ * captures every write and every chunk returned by reader.read(), with its
+ * timing, into a fixture. The replay device is a SerialDevice that checks the
+ * commands written to it against the fixture and serves the recorded chunks
+ * back with the same boundaries and delays. It needs no browser API, so
+ * captures from real readers can be replayed through createSerialTransport
+ * and nfc-device.ts in Node.
+ */
+
+import type { SerialDevice, SerialPortLike } from './web-serial';
+import { createFrameDecoder } from './frame';
+import { fromHex, toHex } from './nfc-device';
+
+const FIXTURE_FORMAT = 'nfc-cdc-traffic';
+const FIXTURE_VERSION = 1;
+
+export interface TrafficEvent {
+  /**
+   * Milliseconds since the recording started
+   */
+  t: number;
+  dir: 'tx' | 'rx';
+  /**
+   * Bytes written, or one chunk exactly as returned by reader.read()
+   */
+  data: string;
+}
+
+export interface TrafficFixture {
+  format: typeof FIXTURE_FORMAT;
+  version: typeof FIXTURE_VERSION;
+  recordedAt: string;
+  portInfo: SerialPortInfo;
+  events: TrafficEvent[];
+}
+
+export interface TrafficRecorder {
+  readonly eventCount: number;
+  /**
+   * Fixture of everything captured so far; recording continues
+   */
+  snapshot(): TrafficFixture;
+  /**
+   * Put the original reader and writer back and return the fixture
+   */
+  stop(): TrafficFixture;
+}
+
+export interface ReplayOptions {
+  /**
+   * Playback speed: 1 keeps the recorded delays, Infinity serves chunks as
+   * soon as the command they follow is written
+   */
+  speed?: number;
+}
+
+export class TrafficReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrafficReplayError';
+  }
+}
+
+/**
+ * Start recording a connected serial device. Recording covers the reader and
+ * writer present now; reopening the port replaces them and ends the capture.
+ */
+export function recordSerialTraffic(device: SerialDevice): TrafficRecorder {
+  const { reader, writer } = device;
+  if (!reader || !writer) {
+    throw new Error('Serial port not ready');
+  }
+
+  const start = performance.now();
+  const recordedAt = new Date().toISOString();
+  const events: TrafficEvent[] = [];
+  const record = (dir: TrafficEvent['dir'], data: Uint8Array) => {
+    events.push({ t: Math.round((performance.now() - start) * 10) / 10, dir, data: toHex(data) });
+  };
+
+  const recordingReader: ReadableStreamDefaultReader<Uint8Array> = {
+    get closed() {
+      return reader.closed;
+    },
+    async read() {
+      const result = await reader.read();
+      if (!result.done && result.value && result.value.length > 0) {
+        record('rx', result.value);
+      }
+      return result;
+    },
+    cancel: reason => reader.cancel(reason),
+    releaseLock: () => reader.releaseLock(),
+  };
+
+  const recordingWriter: WritableStreamDefaultWriter<Uint8Array> = {
+    get closed() {
+      return writer.closed;
+    },
+    get desiredSize() {
+      return writer.desiredSize;
+    },
+    get ready() {
+      return writer.ready;
+    },
+    async write(chunk) {
+      if (chunk) record('tx', chunk);
+      return writer.write(chunk);
+    },
+    abort: reason => writer.abort(reason),
+    close: () => writer.close(),
+    releaseLock: () => writer.releaseLock(),
+  };
+
+  device.reader = recordingReader;
+  device.writer = recordingWriter;
+
+  const snapshot = (): TrafficFixture => ({
+    format: FIXTURE_FORMAT,
+    version: FIXTURE_VERSION,
+    recordedAt,
+    portInfo: device.port.getInfo(),
+    events: events.slice(),
+  });
+
+  return {
+    get eventCount() {
+      return events.length;
+    },
+    snapshot,
+    stop() {
+      if (device.reader === recordingReader) device.reader = reader;
+      if (device.writer === recordingWriter) device.writer = writer;
+      return snapshot();
+    },
+  };
+}
+
+/**
+ * Build a SerialDevice that replays a fixture. Writes must match the recorded
+ * commands in order; a mismatch rejects with TrafficReplayError.
+ */
+export function createReplaySerialDevice(fixture: TrafficFixture, options: ReplayOptions = {}): SerialDevice {
+  const { speed = 1 } = options;
+  const events = fixture.events;
+  let cursor = 0;
+  let closed = false;
+  const ready: Uint8Array[] = [];
+  let waiting: ((result: ReadableStreamReadResult<Uint8Array>) => void) | null = null;
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+
+  const deliver = (chunk: Uint8Array) => {
+    if (closed) return;
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve({ done: false, value: chunk });
+    } else {
+      ready.push(chunk);
+    }
+  };
+
+  // Schedule the received chunks up to the next command, relative to `origin`
+  const scheduleReplies = (origin: number) => {
+    while (cursor < events.length && events[cursor].dir === 'rx') {
+      const event = events[cursor++];
+      const chunk = fromHex(event.data);
+      const delay = speed === Infinity ? 0 : Math.max(0, (event.t - origin) / speed);
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        deliver(chunk);
+      }, delay);
+      timers.add(timer);
+    }
+  };
+
+  const shutdown = () => {
+    closed = true;
+    timers.forEach(clearTimeout);
+    timers.clear();
+    ready.length = 0;
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve({ done: true, value: undefined });
+    }
+  };
+
+  const reader: ReadableStreamDefaultReader<Uint8Array> = {
+    closed: Promise.resolve(undefined),
+    read() {
+      if (ready.length > 0) {
+        return Promise.resolve({ done: false, value: ready.shift()! });
+      }
+      if (closed) {
+        return Promise.resolve({ done: true, value: undefined });
+      }
+      // Like a silent port: stays pending until a chunk is due or the reader is cancelled
+      return new Promise(resolve => {
+        waiting = resolve;
+      });
+    },
+    async cancel() {
+      shutdown();
+    },
+    releaseLock() {},
+  };
+
+  const writer: WritableStreamDefaultWriter<Uint8Array> = {
+    closed: Promise.resolve(undefined),
+    desiredSize: 1,
+    ready: Promise.resolve(undefined),
+    async write(chunk) {
+      const written = toHex(chunk ?? new Uint8Array(0));
+      const expected = events[cursor];
+      if (!expected) {
+        throw new TrafficReplayError(`Replay finished; unexpected command ${written}`);
+      }
+      if (expected.dir !== 'tx' || expected.data !== written) {
+        throw new TrafficReplayError(
+          `Replay diverged at event ${cursor + 1}: expected ${expected.dir.toUpperCase()} ${expected.data}, got TX ${written}`
+        );
+      }
+      cursor++;
+      scheduleReplies(expected.t);
+    },
+    async abort() {
+      shutdown();
+    },
+    async close() {},
+    releaseLock() {},
+  };
+
+  const port: SerialPortLike = {
+    readable: null,
+    writable: null,
+    getInfo: () => fixture.portInfo,
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    open: async () => {},
+    close: async () => {
+      shutdown();
+    },
+  };
+
+  // Bytes the reader sent before the first command (e.g. DLE after connect)
+  scheduleReplies(0);
+
+  return { port, reader, writer, decoder: createFrameDecoder() };
+}
+
+/**
+ * Parse and validate a fixture file
+ */
+export function parseTrafficFixture(text: string): TrafficFixture {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new TrafficReplayError(`Not a JSON file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const fixture = parsed as Partial<TrafficFixture> | null;
+  if (!fixture || fixture.format !== FIXTURE_FORMAT) {
+    throw new TrafficReplayError(`Not a traffic fixture (missing "format": "${FIXTURE_FORMAT}")`);
+  }
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new TrafficReplayError(`Unsupported fixture version ${String(fixture.version)}`);
+  }
+  if (!Array.isArray(fixture.events)) {
+    throw new TrafficReplayError('Fixture has no events');
+  }
+  (fixture.events as unknown[]).forEach((entry, i) => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      throw new TrafficReplayError(`Event ${i + 1}: expected an object with "t", "dir" and "data"`);
+    }
+    const event = entry as Partial<TrafficEvent>;
+    if (event.dir !== 'tx' && event.dir !== 'rx') {
+      throw new TrafficReplayError(`Event ${i + 1}: direction must be "tx" or "rx"`);
+    }
+    if (typeof event.t !== 'number' || event.t < 0) {
+      throw new TrafficReplayError(`Event ${i + 1}: invalid time ${String(event.t)}`);
+    }
+    if (typeof event.data !== 'string') {
+      throw new TrafficReplayError(`Event ${i + 1}: "data" must be a hex string`);
+    }
+    try {
+      fromHex(event.data);
+    } catch (error) {
+      throw new TrafficReplayError(`Event ${i + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return { ...fixture, portInfo: fixture.portInfo ?? {} } as TrafficFixture;
+}
@@ -0,0 +1,90 @@
+/**
+ * Transport abstraction between the ASK CSC protocol layer and the physical link
+ */
+
+import { log } from './log';
+import { FrameExpectation, expectationFor, stripResponsePrefix } from './frame';
+import { toHex } from './nfc-device';
+import { maskCardFrame } from './card-data-mask';
+
+export type TransportKind = 'serial' | 'usb' | 'simulated';
+
+export const TRANSPORT_KINDS: TransportKind[] = ['serial', 'usb', 'simulated'];
+
+export type TransportEvent = 'open' | 'close' | 'disconnect' | 'error';
+
+export type TransportListener = (event: TransportEvent, detail?: string) => void;
+
+export interface NfcTransport {
+  readonly kind: TransportKind;
+  readonly name: string;
+  readonly isOpen: boolean;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  write(data: Uint8Array): Promise<void>;
+  /**
+   * Read one CRC-checked response frame, skipping answers to other commands.
+   * Resolves empty on timeout; throws FrameError on a corrupt or truncated frame.
+   */
+  readFrame(timeout: number, expect?: FrameExpectation): Promise<Uint8Array>;
+  /**
+   * Subscribe to link events. Returns an unsubscribe function.
+   */
+  on(event: TransportEvent, listener: TransportListener): () => void;
+}
+
+/**
+ * Minimal event registry used by transport implementations
+ */
+export function createTransportEvents(): {
+  on: NfcTransport['on'];
+  emit: (event: TransportEvent, detail?: string) => void;
+} {
+  const listeners = new Map<TransportEvent, Set<TransportListener>>();
+
+  return {
+    on(event, listener) {
+      let set = listeners.get(event);
+      if (!set) {
+        set = new Set();
+        listeners.set(event, set);
+      }
+      set.add(listener);
+      return () => {
+        set?.delete(listener);
+      };
+    },
+    emit(event, detail) {
+      listeners.get(event)?.forEach(listener => {
+        try {
+          listener(event, detail);
+        } catch (error) {
+          console.error(`Transport ${event} listener failed`, error);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Send command and receive response over any transport.
+ */
+export async function transceiveFrame(
+  transport: NfcTransport,
+  command: Uint8Array,
+  timeout: number = 2000
+): Promise<Uint8Array> {
+  if (!transport.isOpen) {
+    throw new Error(`${transport.name} not ready`);
+  }
+
+  log('TX', `Command (${command.length} bytes): ${toHex(command)}`, transport.name, command);
+  await transport.write(command);
+
+  const response = await transport.readFrame(timeout, expectationFor(command));
+  // Card numbers in EMV answers never reach the log in clear
+  const logged = maskCardFrame(response);
+  log('RX', `Response (${response.length} bytes): ${toHex(logged)}${logged === response ? '' : ' (card number masked)'}`, transport.name, logged);
+
+  return stripResponsePrefix(response, () => log('INFO', 'Stripping DLE byte (0x10)', transport.name));
+}
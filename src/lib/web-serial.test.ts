@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { CLASS_SYSTEM, SYS_SOFTWARE_VERSION, buildCommand, buildGetVersionCommand, fromHex, parseVersionResponse } from './nfc-device';
+import { transceiveFrame } from './transport';
+import {
+  DEFAULT_SERIAL_OPTIONS,
+  SerialDevice,
+  createSerialTransport,
+  describeSerialOptions,
+  detectBaudRate,
+} from './web-serial';
+
+function createDevice(): { device: SerialDevice; unplug: () => void } {
+  const port = Object.assign(new EventTarget(), {
+    readable: null,
+    writable: null,
+    open: async () => {},
+    close: async () => {},
+    getInfo: () => ({}),
+  });
+  return {
+    device: { port, reader: null, writer: null },
+    unplug: () => port.dispatchEvent(new Event('disconnect')),
+  };
+}
+
+/**
+ * Port that answers GET_VERSION only at `baudRate`, and line noise at any other rate
+ */
+function createReaderPort(baudRate: number, options: { openError?: string } = {}) {
+  const version = buildCommand(0x01, CLASS_SYSTEM, SYS_SOFTWARE_VERSION, new TextEncoder().encode('GEN5XX CSC 01.20 <USB>'));
+  const opened: number[] = [];
+  let closed = 0;
+
+  const port = Object.assign(new EventTarget(), {
+    readable: null as ReadableStream<Uint8Array> | null,
+    writable: null as WritableStream<Uint8Array> | null,
+    async open(settings: SerialOptions) {
+      if (options.openError) {
+        throw new Error(options.openError);
+      }
+      opened.push(settings.baudRate);
+      let rx!: ReadableStreamDefaultController<Uint8Array>;
+      port.readable = new ReadableStream({ start: controller => void (rx = controller) });
+      port.writable = new WritableStream({
+        write: () => rx.enqueue(settings.baudRate === baudRate ? version : fromHex('FF 00 FE 7F')),
+      });
+    },
+    async close() {
+      closed++;
+      port.readable = null;
+      port.writable = null;
+    },
+    getInfo: () => ({ usbVendorId: 0x1fd3, usbProductId: 0x0108 }),
+  });
+  return { port, opened, closes: () => closed };
+}
+
+describe('detectBaudRate', () => {
+  it('closes the port after each silent rate and keeps the one the reader answers at', async () => {
+    const { port, opened, closes } = createReaderPort(9600);
+    const result = await detectBaudRate(port, DEFAULT_SERIAL_OPTIONS, [115200, 38400, 9600, 57600]);
+
+    expect(result.success).toBe(true);
+    expect(opened).toEqual([115200, 38400, 9600]);
+    expect(closes()).toBe(2);
+    expect(result.device!.options).toEqual({ ...DEFAULT_SERIAL_OPTIONS, baudRate: 9600 });
+
+    // The detected device is left open for the caller's transport
+    const transport = createSerialTransport(result.device!, 'Serial');
+    const response = await transceiveFrame(transport, buildGetVersionCommand(), 300);
+    expect(parseVersionResponse(response)?.interface).toBe('USB');
+    await transport.close();
+  });
+
+  it('gives up after the last rate', async () => {
+    const { port, closes } = createReaderPort(921600);
+    const result = await detectBaudRate(port, DEFAULT_SERIAL_OPTIONS, [115200, 19200]);
+    expect(result).toEqual({ success: false, error: 'Reader did not answer at 115200, 19200 baud' });
+    expect(closes()).toBe(2);
+  });
+
+  it('stops at once when the port cannot be opened', async () => {
+    const { port, opened } = createReaderPort(115200, { openError: 'Port busy' });
+    const result = await detectBaudRate(port);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Port busy/);
+    expect(opened).toEqual([]);
+  });
+});
+
+describe('describeSerialOptions', () => {
+  it('writes the short line setting', () => {
+    expect(describeSerialOptions(DEFAULT_SERIAL_OPTIONS)).toBe('115200 baud 8N1');
+    expect(describeSerialOptions({ baudRate: 9600, dataBits: 7, parity: 'even', stopBits: 2, flowControl: 'hardware' }))
+      .toBe('9600 baud 7E2 RTS/CTS');
+  });
+});
+
+describe('createSerialTransport', () => {
+  it('reports an unplug once, from the transport that wraps the port now', async () => {
+    const { device, unplug } = createDevice();
+    const unplugged: string[] = [];
+    const wrap = (name: string) => {
+      const transport = createSerialTransport(device, name);
+      transport.on('disconnect', () => unplugged.push(name));
+      return transport;
+    };
+
+    // A reconnect wraps the same port again after the first transport saw it unplugged
+    wrap('first');
+    unplug();
+    const second = wrap('second');
+    unplug();
+    expect(unplugged).toEqual(['first', 'second']);
+
+    // Closed transports stop listening too
+    await second.close();
+    wrap('third');
+    unplug();
+    expect(unplugged).toEqual(['first', 'second', 'third']);
+  });
+});
@@ -2,27 +2,40 @@
  * Web Serial API interface for NFC readers in CDC/Serial mode
  */
 
-export type SerialLogCallback = (direction: 'TX' | 'RX' | 'INFO', data: string) => void;
+import { log, setSerialLogCallback } from './log';
+import type { SerialLogCallback } from './log';
+import {
+  FrameDecoder,
+  FrameExpectation,
+  createFrameDecoder,
+  dropStaleFrames,
+  readResponseFrame,
+} from './frame';
+import { NfcTransport, createTransportEvents, transceiveFrame } from './transport';
+import { buildGetVersionCommand, parseVersionResponse } from './nfc-device';
+
+export { setSerialLogCallback };
+export type { SerialLogCallback };
 
-let logCallback: SerialLogCallback | null = null;
-
-export function setSerialLogCallback(callback: SerialLogCallback | null): void {
-  logCallback = callback;
-}
-
-function log(direction: 'TX' | 'RX' | 'INFO', data: string): void {
-  if (logCallback) {
-    logCallback(direction, data);
-  }
-  const prefix = direction === 'TX' ? '→ TX:' : direction === 'RX' ? '← RX:' : 'ℹ INFO:';
-  console.log(`[Serial] ${prefix} ${data}`);
-}
+/**
+ * The members of SerialPort used once a port is connected, so that a replayed
+ * or simulated port can stand in for a real one
+ */
+export type SerialPortLike = Pick<
+  SerialPort,
+  'readable' | 'writable' | 'open' | 'close' | 'getInfo' | 'addEventListener' | 'removeEventListener'
+>;
 
 export interface SerialDevice {
-  port: SerialPort;
+  port: SerialPortLike;
   reader: ReadableStreamDefaultReader<Uint8Array> | null;
   writer: WritableStreamDefaultWriter<Uint8Array> | null;
   pendingRead?: Promise<ReadableStreamReadResult<Uint8Array>>;
+  decoder?: FrameDecoder;
+  /**
+   * Line settings the port was opened with, including a detected baud rate
+   */
+  options?: SerialOptions;
 }
 
 export interface SerialConnectionResult {
@@ -31,6 +44,40 @@ export interface SerialConnectionResult {
   error?: string;
 }
 
+/**
+ * Line settings chosen in the connection dialog
+ */
+export interface SerialSettings {
+  options: SerialOptions;
+  /**
+   * Ignore options.baudRate and try AUTO_DETECT_BAUD_RATES until the reader
+   * answers GET_VERSION
+   */
+  autoDetect: boolean;
+}
+
+// RDR-518 factory setting
+export const DEFAULT_SERIAL_OPTIONS: SerialOptions = {
+  baudRate: 115200,
+  dataBits: 8,
+  stopBits: 1,
+  parity: 'none',
+  flowControl: 'none',
+};
+
+export const DEFAULT_SERIAL_SETTINGS: SerialSettings = {
+  options: DEFAULT_SERIAL_OPTIONS,
+  autoDetect: false,
+};
+
+export const SERIAL_BAUD_RATES = [9600, 19200, 38400, 57600, 115200, 230400, 460800, 921600];
+
+// Tried in order: the factory rate first, then the rates RDR-518 units are reconfigured to
+export const AUTO_DETECT_BAUD_RATES = [115200, 38400, 9600, 57600, 19200];
+
+// GET_VERSION answers in a few ms; 9600 baud needs ~60 ms for the longest version string
+const DETECT_TIMEOUT = 300;
+
 export const KNOWN_SERIAL_NFC_READERS = [
   { usbVendorId: 0x1fd3, usbProductId: 0x0108 }, // ASK RDR-518
   { usbVendorId: 0x072f }, // ACS readers
@@ -40,11 +87,106 @@ export const KNOWN_SERIAL_NFC_READERS = [
   { usbVendorId: 0x067b }, // Prolific PL2303
 ];
 
+// localStorage key of the port to reopen on load and on reconnect
+const REMEMBERED_PORT_KEY = 'nfc-serial-port';
+
+/**
+ * USB identity of the last port the user connected, and whether the card hunt
+ * was running on it
+ */
+export interface RememberedSerialPort {
+  usbVendorId?: number;
+  usbProductId?: number;
+  hunting: boolean;
+  options?: SerialOptions;
+}
+
 export function isWebSerialSupported(): boolean {
   return 'serial' in navigator;
 }
 
-export async function requestSerialPort(): Promise<SerialConnectionResult> {
+/**
+ * Ports this page was granted earlier that match a known reader. They can be
+ * opened without showing the port chooser.
+ */
+export async function getGrantedSerialPorts(): Promise<SerialPort[]> {
+  if (!isWebSerialSupported()) {
+    return [];
+  }
+  const ports = await navigator.serial.getPorts();
+  return ports.filter(port => {
+    const info = port.getInfo();
+    return KNOWN_SERIAL_NFC_READERS.some(filter =>
+      filter.usbVendorId === info.usbVendorId &&
+      (filter.usbProductId === undefined || filter.usbProductId === info.usbProductId)
+    );
+  });
+}
+
+/**
+ * True when the port has the remembered VID/PID
+ */
+export function isRememberedSerialPort(port: SerialPort, remembered: RememberedSerialPort): boolean {
+  const info = port.getInfo();
+  return info.usbVendorId !== undefined &&
+    info.usbVendorId === remembered.usbVendorId &&
+    info.usbProductId === remembered.usbProductId;
+}
+
+/**
+ * Call the listener when a granted port is plugged in. Returns a function
+ * that removes the listener.
+ */
+export function watchSerialPortConnect(listener: (port: SerialPort) => void): () => void {
+  if (!isWebSerialSupported()) {
+    return () => {};
+  }
+  // The connect event is fired at the port and bubbles up to navigator.serial
+  const onConnect = (event: Event) => listener(event.target as SerialPort);
+  navigator.serial.addEventListener('connect', onConnect);
+  return () => navigator.serial.removeEventListener('connect', onConnect);
+}
+
+export function loadRememberedSerialPort(): RememberedSerialPort | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(REMEMBERED_PORT_KEY) ?? 'null') as RememberedSerialPort | null;
+    return saved && typeof saved.usbVendorId === 'number' ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+export function rememberSerialPort(port: SerialPortLike, hunting: boolean = false, options?: SerialOptions): void {
+  const { usbVendorId, usbProductId } = port.getInfo();
+  if (usbVendorId === undefined) {
+    // Without a USB identity a reconnected port cannot be recognised
+    return;
+  }
+  saveRememberedSerialPort({ usbVendorId, usbProductId, hunting, options });
+}
+
+/**
+ * Record whether the hunt runs on the remembered port, so it resumes after a
+ * reconnect or a reload
+ */
+export function setRememberedHunting(hunting: boolean): void {
+  const saved = loadRememberedSerialPort();
+  if (saved) {
+    saveRememberedSerialPort({ ...saved, hunting });
+  }
+}
+
+export function forgetSerialPort(): void {
+  localStorage.removeItem(REMEMBERED_PORT_KEY);
+}
+
+function saveRememberedSerialPort(port: RememberedSerialPort): void {
+  localStorage.setItem(REMEMBERED_PORT_KEY, JSON.stringify(port));
+}
+
+export async function requestSerialPort(
+  settings: SerialSettings = DEFAULT_SERIAL_SETTINGS
+): Promise<SerialConnectionResult> {
   if (!isWebSerialSupported()) {
     return {
       success: false,
@@ -56,7 +198,7 @@ export async function requestSerialPort(): Promise<SerialConnectionResult> {
     const port = await navigator.serial.requestPort({
       filters: KNOWN_SERIAL_NFC_READERS,
     });
-    return await connectSerialPort(port);
+    return await openSerialPort(port, settings);
   } catch (error) {
     if (error instanceof DOMException && error.name === 'NotFoundError') {
       return { success: false, error: 'No serial port selected.' };
@@ -68,16 +210,22 @@ export async function requestSerialPort(): Promise<SerialConnectionResult> {
   }
 }
 
-export async function connectSerialPort(port: SerialPort): Promise<SerialConnectionResult> {
+/**
+ * Open the port with the chosen settings, detecting the baud rate if asked
+ */
+export function openSerialPort(port: SerialPort, settings: SerialSettings): Promise<SerialConnectionResult> {
+  return settings.autoDetect
+    ? detectBaudRate(port, settings.options)
+    : connectSerialPort(port, settings.options);
+}
+
+export async function connectSerialPort(
+  port: SerialPortLike,
+  options: SerialOptions = DEFAULT_SERIAL_OPTIONS
+): Promise<SerialConnectionResult> {
   try {
-    log('INFO', 'Opening serial port at 115200 baud...');
-    await port.open({
-      baudRate: 115200,
-      dataBits: 8,
-      stopBits: 1,
-      parity: 'none',
-      flowControl: 'none',
-    });
+    log('INFO', `Opening serial port at ${describeSerialOptions(options)}...`);
+    await port.open(options);
 
     const writer = port.writable?.getWriter() || null;
     const reader = port.readable?.getReader() || null;
@@ -87,7 +235,7 @@ export async function connectSerialPort(port: SerialPort): Promise<SerialConnect
 
     return {
       success: true,
-      device: { port, reader, writer },
+      device: { port, reader, writer, decoder: createFrameDecoder(), options },
     };
   } catch (error) {
     log('INFO', `Connection failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -98,8 +246,56 @@ export async function connectSerialPort(port: SerialPort): Promise<SerialConnect
   }
 }
 
-export async function disconnectSerialPort(device: SerialDevice): Promise<void> {
-  log('INFO', 'Disconnecting serial port...');
+/**
+ * Open the port at each baud rate in turn and send GET_VERSION; keep the
+ * first rate that gets a valid version answer
+ */
+export async function detectBaudRate(
+  port: SerialPortLike,
+  options: SerialOptions = DEFAULT_SERIAL_OPTIONS,
+  rates: number[] = AUTO_DETECT_BAUD_RATES
+): Promise<SerialConnectionResult> {
+  const command = buildGetVersionCommand();
+  for (const baudRate of rates) {
+    const attempt = { ...options, baudRate };
+    const result = await connectSerialPort(port, attempt);
+    if (!result.success || !result.device) {
+      // The port itself cannot be opened: another rate will not help
+      return result;
+    }
+    const transport = createSerialTransport(result.device, 'Serial');
+    try {
+      const response = await transceiveFrame(transport, command, DETECT_TIMEOUT);
+      const version = response.length > 0 ? parseVersionResponse(response) : null;
+      if (version?.model) {
+        log('INFO', `Reader answered at ${baudRate} baud: ${version.raw}`);
+        // The caller wraps the device in its own transport
+        transport.detach();
+        return result;
+      }
+    } catch {
+      // Wrong rate: the bytes received do not form a valid frame
+    }
+    log('INFO', `No version answer at ${baudRate} baud`);
+    await transport.close();
+  }
+  return {
+    success: false,
+    error: `Reader did not answer at ${rates.join(', ')} baud`,
+  };
+}
+
+/**
+ * Short form of line settings, e.g. "115200 baud 8N1"
+ */
+export function describeSerialOptions(options: SerialOptions): string {
+  const parity = (options.parity ?? 'none')[0].toUpperCase();
+  const text = `${options.baudRate} baud ${options.dataBits ?? 8}${parity}${options.stopBits ?? 1}`;
+  return options.flowControl === 'hardware' ? `${text} RTS/CTS` : text;
+}
+
+export async function disconnectSerialPort(device: SerialDevice, source: string = 'Serial'): Promise<void> {
+  log('INFO', 'Disconnecting serial port...', source);
   try {
     if (device.reader) {
       await device.reader.cancel();
@@ -110,60 +306,43 @@ export async function disconnectSerialPort(device: SerialDevice): Promise<void>
       device.writer.releaseLock();
     }
     await device.port.close();
-    log('INFO', 'Serial port disconnected');
+    log('INFO', 'Serial port disconnected', source);
   } catch (error) {
-    log('INFO', `Error disconnecting: ${error instanceof Error ? error.message : String(error)}`);
+    log('INFO', `Error disconnecting: ${error instanceof Error ? error.message : String(error)}`, source);
   }
 }
 
 /**
- * Send command and receive response.
+ * Consume any pending read left over from a previous timeout and drop
+ * everything received so far: it cannot answer the command about to be sent.
  */
-export async function transceiveSerial(
-  device: SerialDevice,
-  command: Uint8Array,
-  timeout: number = 2000
-): Promise<Uint8Array> {
-  if (!device.reader || !device.writer) {
-    throw new Error('Serial port not ready');
-  }
-
-  // Consume any pending read from previous timeout
+async function drainPendingRead(device: SerialDevice, source: string = 'Serial'): Promise<void> {
+  const decoder = getDecoder(device);
   if (device.pendingRead) {
     try {
       const stale = await Promise.race([
         device.pendingRead,
         new Promise<null>(r => setTimeout(() => r(null), 50))
       ]);
-      if (stale && stale.value) {
-        log('RX', `Stale (${stale.value.length} bytes): ${toHexSerial(stale.value)}`);
+      if (stale) {
+        device.pendingRead = undefined;
+        if (stale.value) {
+          decoder.push(stale.value);
+        }
       }
     } catch {
       // Ignore errors from stale read
+      device.pendingRead = undefined;
     }
-    device.pendingRead = undefined;
-  }
-
-  // Send command
-  log('TX', `Command (${command.length} bytes): ${toHexSerial(command)}`);
-  await device.writer.write(command);
-
-  // Read response
-  let response = await readWithTimeout(device, timeout);
-  log('RX', `Response (${response.length} bytes): ${toHexSerial(response)}`);
-
-  // Strip leading DLE bytes (0x10) - device sends these on first command after connect
-  while (response.length > 0 && response[0] === 0x10) {
-    log('INFO', 'Stripping DLE byte (0x10)');
-    response = response.slice(1);
   }
+  dropStaleFrames(decoder, source);
+}
 
-  // Handle ACK prefix (0x01)
-  if (response.length > 1 && response[0] === 0x01) {
-    return response.slice(1);
+function getDecoder(device: SerialDevice): FrameDecoder {
+  if (!device.decoder) {
+    device.decoder = createFrameDecoder();
   }
-
-  return response;
+  return device.decoder;
 }
 
 /**
@@ -171,22 +350,19 @@ export async function transceiveSerial(
  */
 async function readWithTimeout(
   device: SerialDevice,
-  timeout: number
+  timeout: number,
+  expect?: FrameExpectation,
+  source: string = 'Serial'
 ): Promise<Uint8Array> {
-  if (!device.reader) {
+  const reader = device.reader;
+  if (!reader) {
     throw new Error('Serial port reader not available');
   }
 
-  const chunks: Uint8Array[] = [];
-  let totalBytes = 0;
-  const startTime = Date.now();
-
-  while (Date.now() - startTime < timeout) {
-    const remaining = timeout - (Date.now() - startTime);
-    if (remaining <= 0) break;
-
-    // Start read
-    const readPromise = device.reader.read();
+  const readChunk = async (remaining: number): Promise<Uint8Array | null> => {
+    // Reuse a read left pending by an earlier timeout rather than queueing another
+    const readPromise = device.pendingRead ?? reader.read();
+    device.pendingRead = undefined;
     const timeoutPromise = new Promise<'timeout'>(resolve =>
       setTimeout(() => resolve('timeout'), remaining)
     );
@@ -196,77 +372,27 @@ async function readWithTimeout(
     if (result === 'timeout') {
       // Store the pending read for later consumption
       device.pendingRead = readPromise;
-      log('INFO', 'Read timeout');
-      break;
+      log('INFO', 'Read timeout', source);
+      return null;
     }
 
     if (result.done) {
-      log('INFO', 'Stream closed');
-      break;
+      log('INFO', 'Stream closed', source);
+      return null;
     }
 
-    if (result.value && result.value.length > 0) {
-      chunks.push(result.value);
-      totalBytes += result.value.length;
-      log('RX', `Chunk (${result.value.length} bytes): ${toHexSerial(result.value)}`);
-
-      const combined = combineChunks(chunks, totalBytes);
-      if (isCompleteFrame(combined)) {
-        return combined;
-      }
+    const value = result.value ?? new Uint8Array(0);
+    if (value.length > 0) {
+      // Sizes only: the bytes are logged once framed, with card numbers masked
+      log('RX', `Chunk (${value.length} bytes)`, source);
     }
-  }
-
-  return combineChunks(chunks, totalBytes);
-}
-
-function combineChunks(chunks: Uint8Array[], totalLength: number): Uint8Array {
-  if (chunks.length === 0) return new Uint8Array(0);
-  if (chunks.length === 1) return chunks[0];
-
-  const result = new Uint8Array(totalLength);
-  let offset = 0;
-  for (const chunk of chunks) {
-    result.set(chunk, offset);
-    offset += chunk.length;
-  }
-  return result;
-}
-
-/**
- * Check if we have a complete frame.
- */
-function isCompleteFrame(data: Uint8Array): boolean {
-  if (data.length < 4) return false;
-
-  // Skip leading DLE bytes (0x10) - device sends these on first command after connect
-  let offset = 0;
-  while (offset < data.length && data[offset] === 0x10) {
-    offset++;
-  }
-  if (offset > 0) {
-    return isCompleteFrame(data.slice(offset));
-  }
-
-  const len = data[0];
+    return value;
+  };
 
-  // ACK responses
-  if (data.length === 1 && data[0] === 0x01) return true;
-  if (data[0] === 0x01 && data.length > 1) {
-    return isCompleteFrame(data.slice(1));
-  }
-
-  // Known frame sizes
-  if (len === 0x04 && data.length >= 8) return true;
-  if (len === 0x0b && data.length >= 15) return true;
-
-  // Generic check
-  if (data.length >= len + 4) return true;
-
-  return false;
+  return readResponseFrame(getDecoder(device), readChunk, timeout, expect, source);
 }
 
-export function getSerialPortInfo(port: SerialPort): string {
+export function getSerialPortInfo(port: SerialPortLike): string {
   const info = port.getInfo();
 
   if (info.usbVendorId === 0x1fd3 && info.usbProductId === 0x0108) {
@@ -281,17 +407,84 @@ export function getSerialPortInfo(port: SerialPort): string {
   return 'Serial Port';
 }
 
-export function toHexSerial(data: Uint8Array): string {
-  return Array.from(data)
-    .map(b => b.toString(16).padStart(2, '0').toUpperCase())
-    .join(' ');
+export interface SerialTransport extends NfcTransport {
+  /** Stop watching the port for unplug events without closing it */
+  detach(): void;
 }
 
-export function fromHexSerial(hex: string): Uint8Array {
-  const cleanHex = hex.replace(/\s+/g, '');
-  const bytes = new Uint8Array(cleanHex.length / 2);
-  for (let i = 0; i < bytes.length; i++) {
-    bytes[i] = parseInt(cleanHex.substr(i * 2, 2), 16);
-  }
-  return bytes;
+/**
+ * Wrap a connected serial device as a generic NFC transport. `name` is also
+ * the source of its log lines.
+ */
+export function createSerialTransport(
+  device: SerialDevice,
+  name: string = getSerialPortInfo(device.port)
+): SerialTransport {
+  const events = createTransportEvents();
+
+  // Removed on close and once fired: a reconnect wraps the same port in a new transport
+  const onDisconnect = () => {
+    device.port.removeEventListener('disconnect', onDisconnect);
+    // The streams are already errored: release them so the port can be closed
+    // and opened again when the reader comes back
+    try {
+      device.reader?.releaseLock();
+      device.writer?.releaseLock();
+    } catch {
+      // Ignore: the lock is gone with the stream
+    }
+    device.reader = null;
+    device.writer = null;
+    device.pendingRead = undefined;
+    device.decoder?.reset();
+    log('INFO', `${name} was unplugged`, name);
+    events.emit('disconnect', name);
+  };
+  device.port.addEventListener('disconnect', onDisconnect);
+
+  return {
+    kind: 'serial',
+    name,
+    get isOpen() {
+      return device.reader !== null && device.writer !== null;
+    },
+    async open() {
+      if (device.reader && device.writer) {
+        return;
+      }
+      const result = await connectSerialPort(device.port, device.options);
+      if (!result.success || !result.device) {
+        events.emit('error', result.error);
+        throw new Error(result.error || 'Failed to open serial port');
+      }
+      device.reader = result.device.reader;
+      device.writer = result.device.writer;
+      device.decoder = result.device.decoder;
+      device.port.addEventListener('disconnect', onDisconnect);
+      events.emit('open');
+    },
+    async close() {
+      device.port.removeEventListener('disconnect', onDisconnect);
+      await disconnectSerialPort(device, name);
+      device.reader = null;
+      device.writer = null;
+      device.pendingRead = undefined;
+      device.decoder?.reset();
+      events.emit('close');
+    },
+    detach() {
+      device.port.removeEventListener('disconnect', onDisconnect);
+    },
+    async write(data) {
+      if (!device.writer) {
+        throw new Error('Serial port not ready');
+      }
+      await drainPendingRead(device, name);
+      await device.writer.write(data);
+    },
+    readFrame(timeout, expect) {
+      return readWithTimeout(device, timeout, expect, name);
+    },
+    on: events.on,
+  };
 }
@@ -0,0 +1,341 @@
+/**
+ * WebUSB interface for NFC readers exposing a USB CDC-ACM bulk data interface
+ */
+
+import { log } from './log';
+import {
+  FrameDecoder,
+  FrameExpectation,
+  createFrameDecoder,
+  dropStaleFrames,
+  readResponseFrame,
+} from './frame';
+import { NfcTransport, createTransportEvents } from './transport';
+
+// USB CDC class codes
+const USB_CLASS_CDC_COMM = 0x02;
+const USB_CLASS_CDC_DATA = 0x0a;
+
+// CDC-ACM class requests
+const CDC_SET_LINE_CODING = 0x20;
+const CDC_SET_CONTROL_LINE_STATE = 0x22;
+
+export interface UsbDevice {
+  device: USBDevice;
+  commInterface: number | null;
+  dataInterface: number;
+  endpointIn: number;
+  endpointOut: number;
+  packetSize: number;
+  pendingTransfer?: Promise<USBInTransferResult>;
+  decoder: FrameDecoder;
+}
+
+export interface UsbConnectionResult {
+  success: boolean;
+  device?: UsbDevice;
+  error?: string;
+}
+
+export const KNOWN_USB_NFC_READERS: USBDeviceFilter[] = [
+  { vendorId: 0x1fd3, productId: 0x0108 }, // ASK RDR-518
+  { vendorId: 0x072f }, // ACS readers
+];
+
+export function isWebUsbSupported(): boolean {
+  return 'usb' in navigator;
+}
+
+export async function requestUsbDevice(): Promise<UsbConnectionResult> {
+  if (!isWebUsbSupported()) {
+    return {
+      success: false,
+      error: 'WebUSB is not supported in this browser. Please use Chrome or Edge.',
+    };
+  }
+
+  try {
+    const device = await navigator.usb.requestDevice({
+      filters: KNOWN_USB_NFC_READERS,
+    });
+    return await connectUsbDevice(device);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotFoundError') {
+      return { success: false, error: 'No USB device selected.' };
+    }
+    return {
+      success: false,
+      error: `Failed to request device: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+export async function connectUsbDevice(
+  device: USBDevice,
+  baudRate: number = 115200
+): Promise<UsbConnectionResult> {
+  try {
+    log('INFO', 'Opening USB device...', 'USB');
+    await device.open();
+    if (device.configuration === null) {
+      await device.selectConfiguration(1);
+    }
+
+    const endpoints = findCdcEndpoints(device);
+    if (!endpoints) {
+      await device.close();
+      return { success: false, error: 'No CDC bulk data interface found on this device' };
+    }
+
+    await device.claimInterface(endpoints.dataInterface);
+
+    // The communication interface is often held by the OS CDC-ACM driver.
+    // Line coding is only needed by UART bridges, so failing here is not fatal.
+    let commInterface: number | null = null;
+    if (endpoints.commInterface !== null) {
+      try {
+        await device.claimInterface(endpoints.commInterface);
+        commInterface = endpoints.commInterface;
+        await setLineCoding(device, commInterface, baudRate);
+      } catch (error) {
+        log('INFO', `CDC control interface unavailable: ${error instanceof Error ? error.message : String(error)}`, 'USB');
+      }
+    }
+
+    log('INFO', `Connected to ${device.vendorId.toString(16)}:${device.productId.toString(16)}`, 'USB');
+
+    return {
+      success: true,
+      device: { device, ...endpoints, commInterface, decoder: createFrameDecoder() },
+    };
+  } catch (error) {
+    log('INFO', `Connection failed: ${error instanceof Error ? error.message : String(error)}`, 'USB');
+    // e.g. claimInterface failed: do not leave the device open and unusable
+    if (device.opened) {
+      await device.close().catch(() => {});
+    }
+    return {
+      success: false,
+      error: `Failed to open device: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+export async function disconnectUsbDevice(usb: UsbDevice, source: string = 'USB'): Promise<void> {
+  log('INFO', 'Disconnecting USB device...', source);
+  try {
+    if (usb.device.opened) {
+      await usb.device.releaseInterface(usb.dataInterface);
+      if (usb.commInterface !== null) {
+        await usb.device.releaseInterface(usb.commInterface);
+      }
+      await usb.device.close();
+    }
+    usb.pendingTransfer = undefined;
+    usb.decoder.reset();
+    log('INFO', 'USB device disconnected', source);
+  } catch (error) {
+    log('INFO', `Error disconnecting: ${error instanceof Error ? error.message : String(error)}`, source);
+  }
+}
+
+/**
+ * Locate the CDC data interface and its bulk IN/OUT endpoints
+ */
+function findCdcEndpoints(device: USBDevice): Omit<UsbDevice, 'device' | 'pendingTransfer' | 'decoder'> | null {
+  const interfaces = device.configuration?.interfaces ?? [];
+
+  const comm = interfaces.find(i => i.alternate.interfaceClass === USB_CLASS_CDC_COMM);
+  const data = interfaces.find(i => i.alternate.interfaceClass === USB_CLASS_CDC_DATA);
+  if (!data) {
+    return null;
+  }
+
+  const bulkIn = data.alternate.endpoints.find(e => e.type === 'bulk' && e.direction === 'in');
+  const bulkOut = data.alternate.endpoints.find(e => e.type === 'bulk' && e.direction === 'out');
+  if (!bulkIn || !bulkOut) {
+    return null;
+  }
+
+  return {
+    commInterface: comm ? comm.interfaceNumber : null,
+    dataInterface: data.interfaceNumber,
+    endpointIn: bulkIn.endpointNumber,
+    endpointOut: bulkOut.endpointNumber,
+    packetSize: bulkIn.packetSize,
+  };
+}
+
+/**
+ * Send CDC SET_LINE_CODING (8N1) and assert DTR/RTS
+ */
+async function setLineCoding(device: USBDevice, commInterface: number, baudRate: number): Promise<void> {
+  const lineCoding = new Uint8Array(7);
+  new DataView(lineCoding.buffer).setUint32(0, baudRate, true);
+  lineCoding[4] = 0; // 1 stop bit
+  lineCoding[5] = 0; // No parity
+  lineCoding[6] = 8; // 8 data bits
+
+  await device.controlTransferOut({
+    requestType: 'class',
+    recipient: 'interface',
+    request: CDC_SET_LINE_CODING,
+    value: 0,
+    index: commInterface,
+  }, lineCoding);
+
+  await device.controlTransferOut({
+    requestType: 'class',
+    recipient: 'interface',
+    request: CDC_SET_CONTROL_LINE_STATE,
+    value: 0x03, // DTR | RTS
+    index: commInterface,
+  });
+}
+
+/**
+ * Read bulk IN packets until a complete frame arrives or the timeout expires.
+ * A transfer still in flight at timeout is kept and drained before the next read.
+ */
+async function readUsbWithTimeout(
+  usb: UsbDevice,
+  timeout: number,
+  expect?: FrameExpectation,
+  source: string = 'USB'
+): Promise<Uint8Array> {
+  const readChunk = async (remaining: number): Promise<Uint8Array | null> => {
+    const transfer = usb.pendingTransfer ?? usb.device.transferIn(usb.endpointIn, usb.packetSize);
+    usb.pendingTransfer = undefined;
+    const timeoutPromise = new Promise<'timeout'>(resolve =>
+      setTimeout(() => resolve('timeout'), remaining)
+    );
+
+    const result = await Promise.race([transfer, timeoutPromise]);
+
+    if (result === 'timeout') {
+      usb.pendingTransfer = transfer;
+      log('INFO', 'Read timeout', source);
+      return null;
+    }
+
+    if (result.status !== 'ok') {
+      log('INFO', `Transfer status: ${result.status}`, source);
+      if (result.status === 'stall') {
+        await usb.device.clearHalt('in', usb.endpointIn);
+      }
+      return null;
+    }
+
+    const chunk = transferBytes(result);
+    if (chunk.length > 0) {
+      // A chunk can end inside a PAN: its bytes are logged with the whole frame
+      log('RX', `Chunk (${chunk.length} bytes)`, source);
+    }
+    return chunk;
+  };
+
+  return readResponseFrame(usb.decoder, readChunk, timeout, expect, source);
+}
+
+/**
+ * Collect bytes from a transfer that completed after a previous timeout and
+ * drop everything received so far: it cannot answer the command about to be sent.
+ */
+async function drainPendingTransfer(usb: UsbDevice, source: string = 'USB'): Promise<void> {
+  if (usb.pendingTransfer) {
+    try {
+      const stale = await Promise.race([
+        usb.pendingTransfer,
+        new Promise<null>(r => setTimeout(() => r(null), 50))
+      ]);
+      if (stale) {
+        usb.pendingTransfer = undefined;
+        usb.decoder.push(transferBytes(stale));
+      }
+    } catch {
+      // Ignore errors from stale transfer
+      usb.pendingTransfer = undefined;
+    }
+  }
+  dropStaleFrames(usb.decoder, source);
+}
+
+function transferBytes(result: USBInTransferResult): Uint8Array {
+  if (!result.data) {
+    return new Uint8Array(0);
+  }
+  return new Uint8Array(result.data.buffer, result.data.byteOffset, result.data.byteLength);
+}
+
+/**
+ * Wrap a connected USB device as a generic NFC transport. `name` is also the
+ * source of its log lines.
+ */
+export function createUsbTransport(usb: UsbDevice, name: string = getUsbDeviceInfo(usb.device)): NfcTransport {
+  const events = createTransportEvents();
+
+  // Removed on close and once fired, like the serial transport's listener
+  const onDisconnect = (event: USBConnectionEvent) => {
+    if (event.device === usb.device) {
+      usb.pendingTransfer = undefined;
+      log('INFO', `${name} was unplugged`, name);
+      events.emit('disconnect', name);
+      navigator.usb.removeEventListener('disconnect', onDisconnect);
+    }
+  };
+  if (isWebUsbSupported()) {
+    navigator.usb.addEventListener('disconnect', onDisconnect);
+  }
+
+  return {
+    kind: 'usb',
+    name,
+    get isOpen() {
+      return usb.device.opened;
+    },
+    async open() {
+      if (usb.device.opened) {
+        return;
+      }
+      const result = await connectUsbDevice(usb.device);
+      if (!result.success || !result.device) {
+        events.emit('error', result.error);
+        throw new Error(result.error || 'Failed to open USB device');
+      }
+      Object.assign(usb, result.device);
+      navigator.usb.addEventListener('disconnect', onDisconnect);
+      events.emit('open');
+    },
+    async close() {
+      if (isWebUsbSupported()) {
+        navigator.usb.removeEventListener('disconnect', onDisconnect);
+      }
+      await disconnectUsbDevice(usb, name);
+      events.emit('close');
+    },
+    async write(data) {
+      if (!usb.device.opened) {
+        throw new Error('USB device not ready');
+      }
+      await drainPendingTransfer(usb, name);
+      const result = await usb.device.transferOut(usb.endpointOut, new Uint8Array(data));
+      if (result.status !== 'ok') {
+        throw new Error(`USB write failed: ${result.status}`);
+      }
+    },
+    readFrame(timeout, expect) {
+      return readUsbWithTimeout(usb, timeout, expect, name);
+    },
+    on: events.on,
+  };
+}
+
+export function getUsbDeviceInfo(device: USBDevice): string {
+  if (device.vendorId === 0x1fd3 && device.productId === 0x0108) {
+    return 'ASK RDR-518 (USB)';
+  }
+  if (device.productName) {
+    return device.productName;
+  }
+  return `USB Device (${device.vendorId.toString(16)}:${device.productId.toString(16)})`;
+}
@@ -0,0 +1,10 @@
+/**
+ * Library entry point: registers <nfc-reader> when loaded
+ * Built on its own by `npm run build:lib`, see vite.lib.config.ts
+ */
+
+import { defineNfcReaderElement } from './lib/nfc-reader-element';
+
+export * from './lib/nfc-reader-element';
+
+defineNfcReaderElement();
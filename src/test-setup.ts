@@ -0,0 +1,4 @@
+import { setLogConsole } from './lib/log';
+
+// Keep the protocol log out of the test output
+setLogConsole(null);
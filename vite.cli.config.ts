@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Node.js command-line tool, see src/cli
+export default defineConfig({
+  build: {
+    outDir: 'dist/cli',
+    ssr: 'src/cli/nfc-cli.ts',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'nfc-cli.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -8,4 +9,7 @@ export default defineConfig({
   build: {
     outDir: 'dist',
   },
+  test: {
+    setupFiles: ['src/test-setup.ts'],
+  },
 })
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vite'
+
+// Standalone <nfc-reader> element for pages that do not use React
+export default defineConfig({
+  build: {
+    outDir: 'dist/lib',
+    lib: {
+      entry: 'src/nfc-reader.ts',
+      name: 'NfcReader',
+      formats: ['es', 'iife'],
+      fileName: (format) => (format === 'es' ? 'nfc-reader.js' : `nfc-reader.${format}.js`),
+    },
+  },
+})